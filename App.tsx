@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import NewsAnalyzer from './components/NewsAnalyzer';
 import ChatBot from './components/ChatBot';
 import ImageGenerator from './components/ImageGenerator';
@@ -6,9 +6,11 @@ import VideoGenerator from './components/VideoGenerator';
 import ImageEditor from './components/ImageEditor';
 import LiveChat from './components/LiveChat';
 import Transcriber from './components/Transcriber';
+import AnalysisHistory from './components/AnalysisHistory';
 
 import { SparklesIcon } from './components/icons/SparklesIcon';
 import { TabButton } from './components/TabButton';
+import { CapabilityGate } from './components/CapabilityGate';
 import { DocumentTextIcon } from './components/icons/DocumentTextIcon';
 import { ChatBubbleIcon } from './components/icons/ChatBubbleIcon';
 import { ImageIcon } from './components/icons/ImageIcon';
@@ -16,23 +18,34 @@ import { VideoIcon } from './components/icons/VideoIcon';
 import { PencilSquareIcon } from './components/icons/PencilSquareIcon';
 import { AudioWaveIcon } from './components/icons/AudioWaveIcon';
 import { MicrophoneIcon } from './components/icons/MicrophoneIcon';
+import { ClockIcon } from './components/icons/ClockIcon';
+import { hasCapability } from './services/providers';
+import { resumeVideoJobs } from './services/videoJobs';
 
 
-type Tab = 'analyzer' | 'chat' | 'image' | 'editor' | 'video' | 'live' | 'transcriber';
+type Tab = 'analyzer' | 'history' | 'chat' | 'image' | 'editor' | 'video' | 'live' | 'transcriber';
 
 const App: React.FC = () => {
     const [activeTab, setActiveTab] = useState<Tab>('analyzer');
 
+    // Video jobs are polled from here so they finish even when the Video tab is never opened.
+    useEffect(() => {
+        if (hasCapability('video')) {
+            resumeVideoJobs().catch(error => console.error("Error resuming video jobs:", error));
+        }
+    }, []);
+
     const renderContent = () => {
         switch(activeTab) {
-            case 'analyzer': return <NewsAnalyzer />;
-            case 'chat': return <ChatBot />;
-            case 'image': return <ImageGenerator />;
-            case 'editor': return <ImageEditor />;
-            case 'video': return <VideoGenerator />;
-            case 'live': return <LiveChat />;
-            case 'transcriber': return <Transcriber />;
-            default: return <NewsAnalyzer />;
+            case 'analyzer': return <CapabilityGate capability="json"><NewsAnalyzer /></CapabilityGate>;
+            case 'history': return <AnalysisHistory />;
+            case 'chat': return <CapabilityGate capability="chat"><ChatBot /></CapabilityGate>;
+            case 'image': return <CapabilityGate capability="imageGeneration"><ImageGenerator /></CapabilityGate>;
+            case 'editor': return <CapabilityGate capability="imageEditing"><ImageEditor /></CapabilityGate>;
+            case 'video': return <CapabilityGate capability="video"><VideoGenerator /></CapabilityGate>;
+            case 'live': return <CapabilityGate capability="live"><LiveChat /></CapabilityGate>;
+            case 'transcriber': return <CapabilityGate capability="transcription"><Transcriber /></CapabilityGate>;
+            default: return <CapabilityGate capability="json"><NewsAnalyzer /></CapabilityGate>;
         }
     };
     
@@ -49,6 +62,7 @@ const App: React.FC = () => {
                         </div>
                         <nav className="flex items-center space-x-1 sm:space-x-2 overflow-x-auto p-1 -mr-1 sm:mr-0">
                             <TabButton label="Analyzer" isActive={activeTab === 'analyzer'} onClick={() => setActiveTab('analyzer')} icon={<DocumentTextIcon className="w-5 h-5"/>} />
+                            <TabButton label="History" isActive={activeTab === 'history'} onClick={() => setActiveTab('history')} icon={<ClockIcon className="w-5 h-5"/>}/>
                             <TabButton label="Chat" isActive={activeTab === 'chat'} onClick={() => setActiveTab('chat')} icon={<ChatBubbleIcon className="w-5 h-5"/>}/>
                             <TabButton label="Image Gen" isActive={activeTab === 'image'} onClick={() => setActiveTab('image')} icon={<ImageIcon className="w-5 h-5"/>}/>
                             <TabButton label="Image Edit" isActive={activeTab === 'editor'} onClick={() => setActiveTab('editor')} icon={<PencilSquareIcon className="w-5 h-5"/>}/>
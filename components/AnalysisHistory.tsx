@@ -0,0 +1,252 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { AnalysisHistoryEntry, Classification } from '../types';
+import { analyzeNewsArticle, getAnalysisModel, CUE_LABELS } from '../services/geminiService';
+import { listAnalyses, updateAnalysis, deleteAnalysis, filterAnalyses, latestResult, HistoryFilter, DEFAULT_HISTORY_FILTER } from '../services/historyStore';
+import { Spinner } from './Spinner';
+import { VerdictBadge } from './VerdictBadge';
+import { ClockIcon } from './icons/ClockIcon';
+import { ErrorBanner } from './ErrorBanner';
+import { CitedText } from './CitedText';
+import { VisualRedFlagList } from './ScreenshotInput';
+
+const VERDICTS: Classification[] = ['Real', 'Fake', 'Inconclusive'];
+
+const HistoryEntryDetails: React.FC<{
+    entry: AnalysisHistoryEntry;
+    onRerun: () => void;
+    onDelete: () => void;
+    isRerunning: boolean;
+}> = ({ entry, onRerun, onDelete, isRerunning }) => {
+    const runs = [{ model: entry.model, result: entry.result, createdAt: entry.createdAt }, ...entry.reruns];
+    const options = entry.options;
+
+    return (
+        <div className="px-4 pb-4 space-y-4 animate-fade-in">
+            <div className="p-3 bg-gray-900 rounded-lg border border-gray-700 text-sm text-gray-300 whitespace-pre-wrap max-h-48 overflow-y-auto">
+                {entry.articleText}
+            </div>
+
+            <div>
+                <h5 className="font-semibold text-sm text-gray-400 mb-2">Verdict Timeline</h5>
+                <ol className="space-y-2">
+                    {runs.map((run, index) => {
+                        const previous = index > 0 ? runs[index - 1].result : null;
+                        const changed = previous && previous.classification !== run.result.classification;
+                        const delta = previous ? run.result.confidence - previous.confidence : 0;
+                        return (
+                            <li key={run.createdAt} className="flex flex-wrap items-center gap-2 text-sm">
+                                <span className="text-gray-500 font-mono text-xs">{new Date(run.createdAt).toLocaleString()}</span>
+                                <span className="text-gray-400 text-xs">{run.model}</span>
+                                <VerdictBadge classification={run.result.classification} confidence={run.result.confidence} />
+                                {previous && (
+                                    <span className={`text-xs ${changed ? 'text-yellow-400 font-semibold' : 'text-gray-500'}`}>
+                                        {changed ? `changed from ${previous.classification}` : 'verdict unchanged'}
+                                        {delta !== 0 && ` (${delta > 0 ? '+' : ''}${delta} confidence)`}
+                                    </span>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ol>
+            </div>
+
+            <div>
+                <h5 className="font-semibold text-sm text-gray-400 mb-1">Explanation</h5>
+                <p className="text-sm text-gray-300 whitespace-pre-wrap">{latestResult(entry).explanation}</p>
+            </div>
+
+            {entry.result.visualRedFlags && (
+                <div>
+                    <h5 className="font-semibold text-sm text-gray-400 mb-1">Visual Red Flags</h5>
+                    <VisualRedFlagList flags={entry.result.visualRedFlags} />
+                </div>
+            )}
+
+            <div className="text-xs text-gray-500 space-y-1">
+                <p>
+                    Options: threshold {options.confidenceThreshold}%
+                    {options.useThinkingMode && ', thinking mode'}
+                    {options.checkClaims && ', claim check'}
+                    {options.cues.length > 0 && `, cues: ${options.cues.map(cue => CUE_LABELS[cue]).join(', ')}`}
+                </p>
+                {entry.metadata && <p>Source: <a href={entry.metadata.url} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline break-all">{entry.metadata.url}</a></p>}
+            </div>
+
+            {entry.webContext && (
+                <div>
+                    <h5 className="font-semibold text-sm text-gray-400 mb-1">Web Context</h5>
+                    <CitedText text={entry.webContext.text} sources={entry.webContext.sources} citations={entry.webContext.citations} className="text-sm text-gray-300" />
+                    {entry.webContext.sources.length > 0 && (
+                        <ul className="mt-2 space-y-1 text-xs">
+                            {entry.webContext.sources.map((source, index) => (
+                                <li key={index} className="truncate">
+                                    <a href={source.uri} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline" title={source.title}><span className="text-gray-400">[{index + 1}]</span> {source.title}</a>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+
+            <div className="flex space-x-2">
+                <button
+                    onClick={onRerun}
+                    disabled={isRerunning}
+                    className="flex items-center justify-center bg-brand-blue-light hover:bg-brand-blue text-white text-sm font-bold py-2 px-4 rounded-lg transition disabled:bg-gray-600 disabled:cursor-not-allowed"
+                >
+                    {isRerunning ? <Spinner /> : `Re-run with ${getAnalysisModel()}`}
+                </button>
+                <button
+                    onClick={onDelete}
+                    disabled={isRerunning}
+                    className="bg-gray-700 hover:bg-red-700 text-white text-sm font-bold py-2 px-4 rounded-lg transition disabled:cursor-not-allowed"
+                >
+                    Delete
+                </button>
+            </div>
+        </div>
+    );
+};
+
+const AnalysisHistory: React.FC = () => {
+    const [entries, setEntries] = useState<AnalysisHistoryEntry[]>([]);
+    const [isLoading, setIsLoading] = useState<boolean>(true);
+    const [error, setError] = useState<string | Error | null>(null);
+    const [filter, setFilter] = useState<HistoryFilter>(DEFAULT_HISTORY_FILTER);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [rerunningId, setRerunningId] = useState<string | null>(null);
+
+    useEffect(() => {
+        listAnalyses()
+            .then(setEntries)
+            .catch((e: any) => setError(e.message || 'Failed to load history.'))
+            .finally(() => setIsLoading(false));
+    }, []);
+
+    const visibleEntries = useMemo(() => filterAnalyses(entries, filter), [entries, filter]);
+
+    const updateFilter = (changes: Partial<HistoryFilter>) => setFilter(prev => ({ ...prev, ...changes }));
+
+    const toggleVerdict = (verdict: Classification) => {
+        updateFilter({
+            verdicts: filter.verdicts.includes(verdict)
+                ? filter.verdicts.filter(v => v !== verdict)
+                : [...filter.verdicts, verdict],
+        });
+    };
+
+    const handleRerun = async (entry: AnalysisHistoryEntry) => {
+        setRerunningId(entry.id);
+        setError(null);
+        try {
+            const analysis = await analyzeNewsArticle(entry.articleText, entry.options, entry.metadata);
+            // The screenshot itself is not stored, so its red flags carry over from the first run.
+            const result = entry.result.visualRedFlags ? { ...analysis, visualRedFlags: entry.result.visualRedFlags } : analysis;
+            const updated = await updateAnalysis({
+                ...entry,
+                reruns: [...entry.reruns, { model: getAnalysisModel(), result, createdAt: Date.now() }],
+            });
+            setEntries(prev => prev.map(e => e.id === updated.id ? updated : e));
+        } catch (e: any) {
+            setError(e);
+        } finally {
+            setRerunningId(null);
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        try {
+            await deleteAnalysis(id);
+            setEntries(prev => prev.filter(e => e.id !== id));
+        } catch (e: any) {
+            setError(e.message || 'Failed to delete entry.');
+        }
+    };
+
+    return (
+        <div className="p-6 bg-brand-gray-dark rounded-xl shadow-2xl border border-white/10 max-w-4xl mx-auto">
+            <h2 className="text-2xl font-bold mb-4 text-white flex items-center">
+                <ClockIcon className="w-6 h-6 mr-2 text-brand-blue-light" />
+                Analysis History
+            </h2>
+            <p className="text-gray-400 mb-6">
+                Every analysis is saved in this browser. Filter past results or re-run them with the current model to see how the verdict changes.
+            </p>
+
+            <div className="p-4 bg-gray-900/50 rounded-lg border border-gray-700 space-y-3">
+                <input
+                    type="search"
+                    value={filter.search}
+                    onChange={(e) => updateFilter({ search: e.target.value })}
+                    placeholder="Search article text, explanations and sources..."
+                    className="w-full p-2 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-brand-blue-light text-gray-200 text-sm"
+                />
+                <div className="flex flex-wrap items-center gap-4 text-sm">
+                    <div className="flex items-center space-x-2">
+                        {VERDICTS.map(verdict => (
+                            <label key={verdict} className="flex items-center space-x-1 text-gray-300 cursor-pointer">
+                                <input type="checkbox" checked={filter.verdicts.includes(verdict)} onChange={() => toggleVerdict(verdict)} className="form-checkbox h-4 w-4 bg-gray-800 border-gray-600 text-brand-blue-light focus:ring-brand-blue-light rounded" />
+                                <span>{verdict}</span>
+                            </label>
+                        ))}
+                    </div>
+                    <div className="flex items-center space-x-2 text-gray-300">
+                        <span>Confidence</span>
+                        <input type="number" min={0} max={100} value={filter.minConfidence} onChange={(e) => updateFilter({ minConfidence: Number(e.target.value) })} className="w-16 p-1 bg-gray-900 border border-gray-700 rounded text-gray-200" />
+                        <span>to</span>
+                        <input type="number" min={0} max={100} value={filter.maxConfidence} onChange={(e) => updateFilter({ maxConfidence: Number(e.target.value) })} className="w-16 p-1 bg-gray-900 border border-gray-700 rounded text-gray-200" />
+                    </div>
+                    <input
+                        type="text"
+                        value={filter.keyword}
+                        onChange={(e) => updateFilter({ keyword: e.target.value })}
+                        placeholder="Keyword"
+                        className="flex-1 min-w-[8rem] p-1 bg-gray-900 border border-gray-700 rounded text-gray-200"
+                    />
+                </div>
+            </div>
+
+            {error && <ErrorBanner error={error} />}
+
+            {isLoading ? (
+                <div className="mt-6 flex justify-center"><Spinner /></div>
+            ) : (
+                <>
+                    <p className="mt-4 text-xs text-gray-500">Showing {visibleEntries.length} of {entries.length} analyses.</p>
+                    <ul className="mt-2 space-y-2">
+                        {visibleEntries.map(entry => {
+                            const result = latestResult(entry);
+                            return (
+                                <li key={entry.id} className="bg-gray-900/50 rounded-lg border border-gray-700">
+                                    <button onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)} className="w-full flex items-center justify-between p-4 text-left">
+                                        <div className="min-w-0">
+                                            <p className="text-gray-200 truncate">{entry.metadata?.headline ?? entry.articleText.slice(0, 120)}</p>
+                                            <p className="text-xs text-gray-500">
+                                                {new Date(entry.createdAt).toLocaleString()}
+                                                {entry.reruns.length > 0 && ` · ${entry.reruns.length} re-run${entry.reruns.length > 1 ? 's' : ''}`}
+                                            </p>
+                                        </div>
+                                        <span className="ml-3 flex-shrink-0">
+                                            <VerdictBadge classification={result.classification} confidence={result.confidence} />
+                                        </span>
+                                    </button>
+                                    {expandedId === entry.id && (
+                                        <HistoryEntryDetails
+                                            entry={entry}
+                                            onRerun={() => handleRerun(entry)}
+                                            onDelete={() => handleDelete(entry.id)}
+                                            isRerunning={rerunningId === entry.id}
+                                        />
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ul>
+                    {entries.length === 0 && <p className="mt-4 text-center text-gray-500">No analyses yet. Results from the Analyzer tab will appear here.</p>}
+                </>
+            )}
+        </div>
+    );
+};
+
+export default AnalysisHistory;
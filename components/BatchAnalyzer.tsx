@@ -0,0 +1,185 @@
+import React, { useState, useRef } from 'react';
+import { AnalysisOptions, AnalysisResult, ArticleMetadata, BatchItem } from '../types';
+import { analyzeNewsArticle, getAnalysisModel } from '../services/geminiService';
+import { fetchArticle } from '../services/articleService';
+import { saveAnalysis } from '../services/historyStore';
+import { parseBatchFile, runBatch, exportBatchCsv, exportBatchJsonl, BatchRow, BatchStatus } from '../services/batchService';
+import { downloadFile } from '../services/fileUtils';
+import { Spinner } from './Spinner';
+import { VerdictBadge } from './VerdictBadge';
+import { DocumentTextIcon } from './icons/DocumentTextIcon';
+import { ErrorBanner } from './ErrorBanner';
+import { ERROR_GUIDANCE } from '../services/errors';
+
+const STATUS_STYLES: Record<BatchStatus, string> = {
+    pending: 'text-gray-500',
+    running: 'text-blue-400',
+    retrying: 'text-yellow-400',
+    done: 'text-green-400',
+    error: 'text-red-400',
+    cancelled: 'text-gray-500',
+};
+
+const analyzeBatchItem = async (item: BatchItem, options: AnalysisOptions, signal?: AbortSignal): Promise<AnalysisResult> => {
+    let text = item.text;
+    let metadata: ArticleMetadata | undefined;
+    if (!text && item.url) {
+        const article = await fetchArticle(item.url, signal);
+        text = article.text;
+        metadata = article.metadata;
+    }
+    const result = await analyzeNewsArticle(text, options, metadata, undefined, signal);
+    saveAnalysis(text, options, getAnalysisModel(), result, metadata)
+        .catch(e => console.error("Error saving analysis to history:", e));
+    return result;
+};
+
+const BatchAnalyzer: React.FC<{ options: AnalysisOptions }> = ({ options }) => {
+    const [fileName, setFileName] = useState<string>('');
+    const [rows, setRows] = useState<BatchRow[]>([]);
+    const [concurrency, setConcurrency] = useState<number>(3);
+    const [retries, setRetries] = useState<number>(2);
+    const [isRunning, setIsRunning] = useState<boolean>(false);
+    const [error, setError] = useState<string | Error | null>(null);
+
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setError(null);
+        try {
+            const items = parseBatchFile(await file.text(), file.name);
+            setFileName(file.name);
+            setRows(items.map(item => ({ item, status: 'pending', attempts: 0 })));
+        } catch (err: any) {
+            setError(err.message || 'Failed to read the file.');
+        }
+    };
+
+    const handleRun = async () => {
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setIsRunning(true);
+        setError(null);
+        setRows(prev => prev.map(row => ({ item: row.item, status: 'pending', attempts: 0 })));
+        try {
+            await runBatch(rows.map(row => row.item), (item, signal) => analyzeBatchItem(item, options, signal), {
+                concurrency,
+                retries,
+                signal: controller.signal,
+                onUpdate: (index, row) => setRows(prev => prev.map((r, i) => i === index ? row : r)),
+            });
+        } catch (err: any) {
+            setError(err);
+        } finally {
+            abortRef.current = null;
+            setIsRunning(false);
+        }
+    };
+
+    const handleExport = (format: 'csv' | 'jsonl') => {
+        const baseName = fileName.replace(/\.[^.]+$/, '') || 'batch';
+        if (format === 'csv') {
+            downloadFile(exportBatchCsv(rows), `${baseName}-results.csv`, 'text/csv');
+        } else {
+            downloadFile(exportBatchJsonl(rows), `${baseName}-results.jsonl`, 'application/x-ndjson');
+        }
+    };
+
+    const completed = rows.filter(row => row.status === 'done' || row.status === 'error' || row.status === 'cancelled').length;
+    const failed = rows.filter(row => row.status === 'error').length;
+
+    return (
+        <div>
+            <div
+                onClick={() => !isRunning && fileInputRef.current?.click()}
+                className="flex justify-center w-full px-6 pt-5 pb-6 border-2 border-gray-600 border-dashed rounded-md cursor-pointer hover:border-brand-blue-light transition"
+            >
+                <div className="space-y-1 text-center">
+                    <DocumentTextIcon className="mx-auto h-10 w-10 text-gray-500" />
+                    <p className="text-sm text-gray-400">{fileName || 'Click to import a CSV or JSONL file'}</p>
+                    <p className="text-xs text-gray-500">Columns: id, text, optional url. Rows with only a URL are fetched first.</p>
+                </div>
+            </div>
+            <input ref={fileInputRef} type="file" className="sr-only" accept=".csv,.jsonl,.json,text/csv" onChange={handleFileChange} />
+
+            {rows.length > 0 && (
+                <>
+                    <div className="mt-4 flex flex-wrap items-end gap-4">
+                        <div>
+                            <label htmlFor="concurrency" className="block text-sm font-medium text-gray-300 mb-1">Concurrency</label>
+                            <input id="concurrency" type="number" min={1} max={10} value={concurrency} onChange={(e) => setConcurrency(Math.max(1, Number(e.target.value)))} disabled={isRunning} className="w-20 p-2 bg-gray-900 border border-gray-700 rounded-lg text-gray-200" />
+                        </div>
+                        <div>
+                            <label htmlFor="retries" className="block text-sm font-medium text-gray-300 mb-1">Retries</label>
+                            <input id="retries" type="number" min={0} max={5} value={retries} onChange={(e) => setRetries(Math.max(0, Number(e.target.value)))} disabled={isRunning} className="w-20 p-2 bg-gray-900 border border-gray-700 rounded-lg text-gray-200" />
+                        </div>
+                        <div className="flex-1 flex justify-end space-x-2">
+                            {isRunning ? (
+                                <button onClick={() => abortRef.current?.abort()} className="bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded-lg transition">
+                                    Stop
+                                </button>
+                            ) : (
+                                <button onClick={handleRun} className="bg-brand-blue-light hover:bg-brand-blue text-white font-bold py-2 px-4 rounded-lg transition">
+                                    Analyze {rows.length} Posts
+                                </button>
+                            )}
+                            <button onClick={() => handleExport('csv')} disabled={isRunning || completed === 0} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-lg transition disabled:bg-gray-800 disabled:cursor-not-allowed">
+                                Export CSV
+                            </button>
+                            <button onClick={() => handleExport('jsonl')} disabled={isRunning || completed === 0} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-lg transition disabled:bg-gray-800 disabled:cursor-not-allowed">
+                                Export JSONL
+                            </button>
+                        </div>
+                    </div>
+
+                    <div className="mt-4">
+                        <div className="flex justify-between text-xs text-gray-400 mb-1">
+                            <span>{completed} of {rows.length} processed{failed > 0 && `, ${failed} failed`}</span>
+                            {isRunning && <Spinner />}
+                        </div>
+                        <div className="w-full bg-gray-700 rounded-full h-2">
+                            <div className="h-2 rounded-full bg-brand-blue-light transition-all duration-300" style={{ width: `${(completed / rows.length) * 100}%` }}></div>
+                        </div>
+                    </div>
+
+                    <div className="mt-4 max-h-96 overflow-auto rounded-lg border border-gray-700">
+                        <table className="w-full text-sm text-left">
+                            <thead className="bg-gray-900 text-gray-400 sticky top-0">
+                                <tr>
+                                    <th className="p-2">ID</th>
+                                    <th className="p-2">Post</th>
+                                    <th className="p-2">Status</th>
+                                    <th className="p-2">Verdict</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-800">
+                                {rows.map((row, index) => (
+                                    <tr key={index} className="align-top">
+                                        <td className="p-2 font-mono text-gray-400">{row.item.id}</td>
+                                        <td className="p-2 text-gray-300 max-w-xs truncate" title={row.item.text || row.item.url}>{row.item.text || row.item.url}</td>
+                                        <td className={`p-2 whitespace-nowrap ${STATUS_STYLES[row.status]}`} title={row.errorCode ? ERROR_GUIDANCE[row.errorCode] : undefined}>
+                                            {row.status}
+                                            {row.attempts > 1 && <span className="text-gray-500"> (attempt {row.attempts})</span>}
+                                        </td>
+                                        <td className="p-2">
+                                            {row.result && <VerdictBadge classification={row.result.classification} confidence={row.result.confidence} />}
+                                            {row.error && <span className="text-xs text-red-400">{row.error}</span>}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </>
+            )}
+
+            {error && <ErrorBanner error={error} />}
+        </div>
+    );
+};
+
+export default BatchAnalyzer;
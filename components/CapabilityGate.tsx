@@ -0,0 +1,27 @@
+import React from 'react';
+import { Capability, CAPABILITY_LABELS, getProvider, hasCapability } from '../services/providers';
+
+interface CapabilityGateProps {
+    capability: Capability;
+    children: React.ReactNode;
+}
+
+// Renders its children only when the active model provider supports the capability.
+export const CapabilityGate: React.FC<CapabilityGateProps> = ({ capability, children }) => {
+    if (hasCapability(capability)) {
+        return <>{children}</>;
+    }
+
+    const provider = getProvider();
+    return (
+        <div className="max-w-2xl mx-auto bg-brand-gray-dark p-6 rounded-xl shadow-2xl border border-white/10 text-center">
+            <h2 className="text-xl font-bold text-white mb-2">{CAPABILITY_LABELS[capability]} is unavailable</h2>
+            <p className="text-gray-400">
+                {provider.unavailableReason ?? `The ${provider.label} provider does not support ${CAPABILITY_LABELS[capability].toLowerCase()}.`}
+            </p>
+            <p className="text-sm text-gray-500 mt-4">
+                Choose a provider with the <span className="font-mono">MODEL_PROVIDER</span> environment variable. See the README for details.
+            </p>
+        </div>
+    );
+};
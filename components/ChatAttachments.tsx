@@ -0,0 +1,40 @@
+import React from 'react';
+import { ChatAttachment } from '../types';
+import { attachmentKind, formatBytes, toDataUrl } from '../services/attachments';
+
+const KIND_LABELS = { image: 'Image', pdf: 'PDF', audio: 'Audio', text: 'Text' } as const;
+
+// Attachments of a sent message, or, with `onRemove`, the ones waiting to be sent.
+export const ChatAttachments: React.FC<{
+    attachments: ChatAttachment[];
+    onRemove?: (id: string) => void;
+}> = ({ attachments, onRemove }) => (
+    <div className="flex flex-wrap gap-2">
+        {attachments.map(attachment => {
+            const kind = attachmentKind(attachment.mimeType);
+            return (
+                <div key={attachment.id} className="relative flex items-center bg-gray-800/80 border border-gray-600 rounded-lg overflow-hidden text-xs text-gray-200 max-w-full">
+                    {kind === 'image' ? (
+                        <img src={toDataUrl(attachment)} alt={attachment.name} title={attachment.name} className={onRemove ? 'h-14 w-14 object-cover' : 'max-h-40 max-w-full object-contain'} />
+                    ) : kind === 'audio' && !onRemove ? (
+                        <audio controls src={toDataUrl(attachment)} title={attachment.name} className="max-w-full" />
+                    ) : (
+                        <div className="px-2 py-1 min-w-0">
+                            <p className="font-semibold truncate max-w-[10rem]" title={attachment.name}>{attachment.name}</p>
+                            <p className="text-gray-400">{kind ? KIND_LABELS[kind] : attachment.mimeType} · {formatBytes(attachment.size)}</p>
+                        </div>
+                    )}
+                    {onRemove && (
+                        <button
+                            onClick={() => onRemove(attachment.id)}
+                            title={`Remove ${attachment.name}`}
+                            className="absolute top-0 right-0 px-1 bg-gray-900/80 text-gray-300 hover:text-white rounded-bl"
+                        >
+                            &times;
+                        </button>
+                    )}
+                </div>
+            );
+        })}
+    </div>
+);
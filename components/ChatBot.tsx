@@ -1,33 +1,138 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { ChatMessage } from '../types';
-import { createChatSession, getGroundedChatResponse, getStandardChatResponse } from '../services/geminiService';
+import { ChatAttachment, ChatMessage, ChatThread, ChatToolCall } from '../types';
+import { streamChatResponse } from '../services/geminiService';
 import { SendIcon } from './icons/SendIcon';
 import { Spinner } from './Spinner';
 import { SparklesIcon } from './icons/SparklesIcon';
 import { MapPinIcon } from './icons/MapPinIcon';
-import { Chat } from '@google/genai';
-import { marked } from 'marked';
+import { StopIcon } from './icons/StopIcon';
+import { getProvider, hasCapability } from '../services/providers';
+import { ERROR_GUIDANCE, toAppError } from '../services/errors';
+import { createThread, deleteThread, exportThreadJson, exportThreadMarkdown, listThreads, saveThread, sortThreads, updateThread } from '../services/chatThreadStore';
+import { downloadFile } from '../services/fileUtils';
+import { ChatThreadList } from './ChatThreadList';
+import { CitedText } from './CitedText';
+import { ToolCallCard } from './ToolCallCard';
+import { availableTools } from '../services/tools';
+import { ACCEPTED_ATTACHMENT_TYPES, readAttachments } from '../services/attachments';
+import { ChatAttachments } from './ChatAttachments';
+import { PaperClipIcon } from './icons/PaperClipIcon';
+
+const markStopped = (text: string): string => text ? `${text}\n\n_Stopped._` : '_Stopped._';
 
 const ChatBot: React.FC = () => {
-    const [messages, setMessages] = useState<ChatMessage[]>([]);
+    const [thread, setThread] = useState<ChatThread>(createThread);
+    const [threads, setThreads] = useState<ChatThread[]>([]);
+    const [messages, setMessages] = useState<ChatMessage[]>(thread.messages);
     const [input, setInput] = useState<string>('');
+    const [pendingAttachments, setPendingAttachments] = useState<ChatAttachment[]>([]);
+    const [attachmentError, setAttachmentError] = useState<string | null>(null);
+    const [isDragging, setIsDragging] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
     const [isLoading, setIsLoading] = useState<boolean>(false);
-    const chatRef = useRef<Chat | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+    const [streamingId, setStreamingId] = useState<number | null>(null);
     const messagesEndRef = useRef<HTMLDivElement | null>(null);
     
     const [useSearch, setUseSearch] = useState(false);
     const [useMaps, setUseMaps] = useState(false);
     const [useThinkingMode, setUseThinkingMode] = useState(false);
+    const [useTools, setUseTools] = useState(true);
+    // Resolvers for tool calls waiting for the user's approval, by call id.
+    const confirmationsRef = useRef(new Map<string, (approved: boolean) => void>());
     const [location, setLocation] = useState<{latitude: number, longitude: number} | null>(null);
     const [locationError, setLocationError] = useState<string | null>(null);
+    const canGround = hasCapability('grounding');
+    const canUseTools = hasCapability('tools');
+    // The conversation as last rendered, so that leaving the tab mid-reply can still save what has arrived.
+    const latestRef = useRef({ thread, messages, streamingId, options: { useSearch, useMaps, useThinkingMode, useTools } });
+    latestRef.current = { thread, messages, streamingId, options: { useSearch, useMaps, useThinkingMode, useTools } };
 
+    const openThread = (next: ChatThread) => {
+        setThread(next);
+        setMessages(next.messages);
+        setUseSearch(next.options.useSearch && canGround);
+        setUseMaps(next.options.useMaps && canGround);
+        setUseThinkingMode(next.options.useThinkingMode);
+        setUseTools((next.options.useTools ?? true) && canUseTools);
+        setInput('');
+        setPendingAttachments([]);
+        setAttachmentError(null);
+    };
+
+    // Reopen the most recently active thread, so switching tabs keeps the conversation.
     useEffect(() => {
-        chatRef.current = createChatSession();
-        setMessages([
-            { id: Date.now(), text: "Hello! How can I help you today? You can enable Google Search or Maps for up-to-date information.", sender: 'bot' }
-        ]);
+        listThreads()
+            .then(saved => {
+                setThreads(saved);
+                if (saved.length > 0) {
+                    openThread(saved.reduce((latest, t) => t.updatedAt > latest.updatedAt ? t : latest));
+                }
+            })
+            .catch(e => console.error("Error loading chat threads:", e));
+        return () => {
+            if (abortRef.current) {
+                const { thread: current, messages: latest, streamingId: replyId, options } = latestRef.current;
+                const partial = latest.map(msg => msg.id === replyId ? { ...msg, text: markStopped(msg.text) } : msg);
+                saveThread({ ...current, messages: partial, options })
+                    .catch(e => console.error("Error saving chat thread:", e));
+            }
+            abortRef.current?.abort();
+            declinePendingToolCalls();
+        };
     }, []);
 
+    const replaceThread = (saved: ChatThread) => {
+        setThreads(prev => sortThreads([saved, ...prev.filter(t => t.id !== saved.id)]));
+        setThread(current => current.id === saved.id ? saved : current);
+    };
+
+    const persistThread = (messagesToSave: ChatMessage[]) => {
+        saveThread({ ...thread, messages: messagesToSave, options: { useSearch, useMaps, useThinkingMode, useTools } })
+            .then(replaceThread)
+            .catch(e => console.error("Error saving chat thread:", e));
+    };
+
+    // Save once a reply has finished streaming, rather than on every delta.
+    useEffect(() => {
+        if (streamingId !== null || messages === thread.messages || !messages.some(msg => msg.sender === 'user')) return;
+        persistThread(messages);
+    }, [messages, streamingId]);
+
+    const handleRename = (target: ChatThread, title: string) => {
+        updateThread({ ...target, title })
+            .then(replaceThread)
+            .catch(e => console.error("Error renaming chat thread:", e));
+    };
+
+    const handleTogglePin = (target: ChatThread) => {
+        updateThread({ ...target, pinned: !target.pinned })
+            .then(replaceThread)
+            .catch(e => console.error("Error pinning chat thread:", e));
+    };
+
+    const handleDelete = async (target: ChatThread) => {
+        try {
+            await deleteThread(target.id);
+            setThreads(prev => prev.filter(t => t.id !== target.id));
+            if (target.id === thread.id) {
+                openThread(createThread());
+            }
+        } catch (e) {
+            console.error("Error deleting chat thread:", e);
+        }
+    };
+
+    const handleExport = (format: 'md' | 'json') => {
+        const current = { ...thread, messages };
+        const baseName = current.title.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'chat';
+        if (format === 'md') {
+            downloadFile(exportThreadMarkdown(current), `${baseName}.md`, 'text/markdown');
+        } else {
+            downloadFile(exportThreadJson(current), `${baseName}.json`, 'application/json');
+        }
+    };
+
     useEffect(() => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     }, [messages]);
@@ -60,69 +165,129 @@ const ChatBot: React.FC = () => {
         }
     };
     
-    const renderMessageContent = (text: string) => {
-        const html = marked.parse(text) as string;
-        return { __html: html };
+    const updateMessage = (id: number, changes: Partial<ChatMessage>) => {
+        setMessages(prev => prev.map(msg => msg.id === id ? { ...msg, ...changes } : msg));
+    };
+
+    const updateToolCall = (messageId: number, callId: string, changes: Partial<ChatToolCall>) => {
+        setMessages(prev => prev.map(msg => msg.id === messageId
+            ? { ...msg, toolCalls: msg.toolCalls?.map(call => call.id === callId ? { ...call, ...changes } : call) }
+            : msg));
+    };
+
+    const handleConfirmToolCall = (callId: string, approved: boolean) => {
+        const resolve = confirmationsRef.current.get(callId);
+        confirmationsRef.current.delete(callId);
+        resolve?.(approved);
+    };
+
+    const declinePendingToolCalls = () => {
+        confirmationsRef.current.forEach(resolve => resolve(false));
+        confirmationsRef.current.clear();
+    };
+
+    const handleStop = () => {
+        abortRef.current?.abort();
+        declinePendingToolCalls();
+    };
+
+    const addFiles = async (files: File[]) => {
+        if (files.length === 0) return;
+        const { attachments, errors } = await readAttachments(files, pendingAttachments);
+        setPendingAttachments(prev => [...prev, ...attachments]);
+        setAttachmentError(errors.length > 0 ? errors.join(' ') : null);
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDragging(false);
+        if (!isLoading) addFiles(Array.from(e.dataTransfer.files));
+    };
+
+    const handlePaste = (e: React.ClipboardEvent) => {
+        if (e.clipboardData.files.length === 0) return;
+        e.preventDefault();
+        addFiles(Array.from(e.clipboardData.files));
     };
 
     const handleSend = async () => {
-        if (!input.trim() || isLoading) return;
+        if ((!input.trim() && pendingAttachments.length === 0) || isLoading) return;
 
-        const userMessage: ChatMessage = { id: Date.now(), text: input, sender: 'user' };
+        const userMessage: ChatMessage = {
+            id: Date.now(),
+            text: input,
+            sender: 'user',
+            ...(pendingAttachments.length > 0 && { attachments: pendingAttachments }),
+        };
         const updatedMessages = [...messages, userMessage];
         setMessages(updatedMessages);
-        const currentInput = input;
         setInput('');
+        setPendingAttachments([]);
+        setAttachmentError(null);
         setIsLoading(true);
+        // Store the prompt right away so it survives leaving the tab mid-reply.
+        persistThread(updatedMessages);
+
+        const controller = new AbortController();
+        abortRef.current = controller;
+        const botMessageId = Date.now() + 1;
+        setMessages(prev => [...prev, { id: botMessageId, text: '', sender: 'bot' }]);
+        setStreamingId(botMessageId);
+
+        const confirm = async (call: { id: string }): Promise<boolean> => {
+            updateToolCall(botMessageId, call.id, { status: 'awaitingConfirmation' });
+            const approved = await new Promise<boolean>(resolve => confirmationsRef.current.set(call.id, resolve));
+            if (approved) updateToolCall(botMessageId, call.id, { status: 'running' });
+            return approved;
+        };
 
+        let botText = '';
         try {
-            if (useThinkingMode) {
-                let botMessage: ChatMessage;
-                 if (useSearch || useMaps) {
-                    const response = await getGroundedChatResponse(currentInput, useSearch, useMaps, true, location ?? undefined);
-                    botMessage = {
-                        id: Date.now(),
-                        text: response.text,
-                        sender: 'bot',
-                        sources: response.sources
-                    };
+            const stream = streamChatResponse(
+                updatedMessages,
+                { useSearch, useMaps, useThinkingMode, useTools, location: location ?? undefined },
+                controller.signal,
+                { tools: availableTools(getProvider()), confirm }
+            );
+            let reasoning = '';
+            for await (const event of stream) {
+                if (controller.signal.aborted) break;
+                if (event.type === 'thought') {
+                    reasoning += event.text;
+                    updateMessage(botMessageId, { reasoning });
+                } else if (event.type === 'text') {
+                    botText += event.text;
+                    updateMessage(botMessageId, { text: botText });
+                } else if (event.type === 'toolCall') {
+                    const call: ChatToolCall = { ...event.call, status: 'running' };
+                    setMessages(prev => prev.map(msg => msg.id === botMessageId ? { ...msg, toolCalls: [...(msg.toolCalls ?? []), call] } : msg));
+                } else if (event.type === 'toolResult') {
+                    updateToolCall(botMessageId, event.id, {
+                        status: event.status,
+                        summary: event.output?.summary,
+                        imageUrl: event.output?.imageUrl,
+                        error: event.error,
+                    });
                 } else {
-                    const responseText = await getStandardChatResponse(currentInput, updatedMessages);
-                    botMessage = { id: Date.now(), text: responseText, sender: 'bot' };
-                }
-                setMessages(prev => [...prev, botMessage]);
-            } else {
-                if (useSearch || useMaps) {
-                    const response = await getGroundedChatResponse(currentInput, useSearch, useMaps, false, location ?? undefined);
-                    const botMessage: ChatMessage = {
-                        id: Date.now(),
-                        text: response.text,
-                        sender: 'bot',
-                        sources: response.sources
-                    };
-                    setMessages(prev => [...prev, botMessage]);
-                } else {
-                    if (!chatRef.current) return;
-                    const botMessageId = Date.now() + 1;
-                    setMessages(prev => [...prev, { id: botMessageId, text: '', sender: 'bot' }]);
-                    const stream = await chatRef.current.sendMessageStream({ message: currentInput });
-                    let botText = '';
-                    for await (const chunk of stream) {
-                        botText += chunk.text;
-                        setMessages(prev =>
-                            prev.map(msg =>
-                                msg.id === botMessageId ? { ...msg, text: botText } : msg
-                            )
-                        );
-                    }
+                    updateMessage(botMessageId, { sources: event.sources, citations: event.citations });
                 }
             }
+            if (controller.signal.aborted) {
+                updateMessage(botMessageId, { text: markStopped(botText) });
+            }
         } catch (error) {
-            console.error("Chatbot error:", error);
-            const errorMessage = (error instanceof Error) ? error.message : 'Sorry, I encountered an error. Please try again.';
-            setMessages(prev => [...prev, { id: Date.now(), text: errorMessage, sender: 'bot' }]);
+            const appError = toAppError(error, 'Sorry, I encountered an error. Please try again.');
+            if (appError.code === 'cancelled') {
+                updateMessage(botMessageId, { text: markStopped(botText) });
+            } else {
+                console.error("Chatbot error:", error);
+                const errorMessage = `${appError.message} ${ERROR_GUIDANCE[appError.code]}`;
+                setMessages(prev => [...prev.filter(msg => msg.id !== botMessageId || msg.text || msg.toolCalls?.length), { id: Date.now(), text: errorMessage, sender: 'bot', isError: true }]);
+            }
         } finally {
             setIsLoading(false);
+            setStreamingId(null);
+            abortRef.current = null;
         }
     };
 
@@ -132,24 +297,61 @@ const ChatBot: React.FC = () => {
         useMaps ? "Ask with Google Maps..." :
         "Ask me anything...";
 
+    const hasPrompts = messages.some(msg => msg.sender === 'user');
+
     return (
-        <div className="flex flex-col h-[70vh] max-h-[70vh] bg-brand-gray-dark rounded-xl shadow-2xl border border-white/10 max-w-4xl mx-auto w-full">
+        <div className="flex gap-4 h-[70vh] max-h-[70vh] max-w-6xl mx-auto w-full">
+        <ChatThreadList
+            threads={threads}
+            activeId={thread.id}
+            disabled={isLoading}
+            onSelect={openThread}
+            onNew={() => openThread(createThread())}
+            onRename={handleRename}
+            onTogglePin={handleTogglePin}
+            onDelete={handleDelete}
+        />
+        <div
+            className="relative flex flex-col flex-1 min-w-0 bg-brand-gray-dark rounded-xl shadow-2xl border border-white/10"
+            onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragging(false); }}
+            onDrop={handleDrop}
+        >
+            {isDragging && (
+                <div className="absolute inset-0 z-10 flex items-center justify-center rounded-xl border-2 border-dashed border-brand-blue-light bg-gray-900/80 text-gray-200 font-semibold pointer-events-none">
+                    Drop files to attach
+                </div>
+            )}
             <div className="flex items-center justify-between p-4 border-b border-white/10">
-                 <div className="flex items-center">
-                    <SparklesIcon className="h-6 w-6 text-brand-blue-light mr-2" />
-                    <h2 className="text-xl font-bold text-white">Gemini Chat</h2>
+                 <div className="flex items-center min-w-0">
+                    <SparklesIcon className="h-6 w-6 text-brand-blue-light mr-2 flex-shrink-0" />
+                    <div className="min-w-0">
+                        <h2 className="text-xl font-bold text-white">{getProvider().label} Chat</h2>
+                        <p className="text-xs text-gray-400 truncate" title={thread.title}>{thread.title}</p>
+                    </div>
                  </div>
                  <div className="flex items-center space-x-2 md:space-x-4">
+                    <div className="flex items-center space-x-2 text-xs">
+                        <button onClick={() => handleExport('md')} disabled={!hasPrompts} className="text-gray-400 hover:text-white disabled:text-gray-600 disabled:cursor-not-allowed">Markdown</button>
+                        <button onClick={() => handleExport('json')} disabled={!hasPrompts} className="text-gray-400 hover:text-white disabled:text-gray-600 disabled:cursor-not-allowed">JSON</button>
+                    </div>
                     <label className="flex items-center text-sm text-gray-300 cursor-pointer">
                         <input type="checkbox" checked={useThinkingMode} onChange={(e) => setUseThinkingMode(e.target.checked)} className="form-checkbox h-4 w-4 bg-gray-800 border-gray-600 text-brand-blue-light focus:ring-brand-blue-light rounded" />
                         <span className="ml-2">Thinking</span>
                     </label>
-                    <label className="flex items-center text-sm text-gray-300 cursor-pointer">
-                        <input type="checkbox" checked={useSearch} onChange={(e) => setUseSearch(e.target.checked)} className="form-checkbox h-4 w-4 bg-gray-800 border-gray-600 text-brand-blue-light focus:ring-brand-blue-light rounded" />
+                    <label
+                        title={canUseTools && (useSearch || useMaps) ? 'Tools cannot be combined with Search or Maps.' : undefined}
+                        className={`flex items-center text-sm text-gray-300 ${canUseTools && !useSearch && !useMaps ? 'cursor-pointer' : 'opacity-50 cursor-not-allowed'}`}
+                    >
+                        <input type="checkbox" checked={useTools && !useSearch && !useMaps} disabled={!canUseTools || useSearch || useMaps} onChange={(e) => setUseTools(e.target.checked)} className="form-checkbox h-4 w-4 bg-gray-800 border-gray-600 text-brand-blue-light focus:ring-brand-blue-light rounded" />
+                        <span className="ml-2">Tools</span>
+                    </label>
+                    <label className={`flex items-center text-sm text-gray-300 ${canGround ? 'cursor-pointer' : 'opacity-50 cursor-not-allowed'}`}>
+                        <input type="checkbox" checked={useSearch} disabled={!canGround} onChange={(e) => setUseSearch(e.target.checked)} className="form-checkbox h-4 w-4 bg-gray-800 border-gray-600 text-brand-blue-light focus:ring-brand-blue-light rounded" />
                         <span className="ml-2">Search</span>
                     </label>
-                     <label className="flex items-center text-sm text-gray-300 cursor-pointer">
-                        <input type="checkbox" checked={useMaps} onChange={handleMapsToggle} className="form-checkbox h-4 w-4 bg-gray-800 border-gray-600 text-brand-blue-light focus:ring-brand-blue-light rounded" />
+                     <label className={`flex items-center text-sm text-gray-300 ${canGround ? 'cursor-pointer' : 'opacity-50 cursor-not-allowed'}`}>
+                        <input type="checkbox" checked={useMaps} disabled={!canGround} onChange={handleMapsToggle} className="form-checkbox h-4 w-4 bg-gray-800 border-gray-600 text-brand-blue-light focus:ring-brand-blue-light rounded" />
                         <span className="ml-2">Maps</span>
                     </label>
                  </div>
@@ -160,9 +362,26 @@ const ChatBot: React.FC = () => {
                 {messages.map((msg) => (
                     <div key={msg.id} className={`flex flex-col ${msg.sender === 'user' ? 'items-end' : 'items-start'}`}>
                         <div className={`max-w-xs lg:max-w-md px-4 py-2 rounded-2xl ${msg.sender === 'user' ? 'bg-brand-blue-light text-white rounded-br-lg' : 'bg-gray-700 text-gray-200 rounded-bl-lg'}`}>
-                           {msg.text || msg.sender === 'bot' ? (
-                                <div className="prose prose-sm prose-invert" dangerouslySetInnerHTML={renderMessageContent(msg.text || '...')}></div>
-                           ) : (
+                           {msg.reasoning && (
+                                <details open={msg.id === streamingId} className="mb-2 text-xs text-gray-400">
+                                    <summary className="cursor-pointer select-none font-semibold">Reasoning</summary>
+                                    <p className="mt-1 whitespace-pre-wrap border-l-2 border-gray-500 pl-2">{msg.reasoning}</p>
+                                </details>
+                           )}
+                           {msg.attachments && msg.attachments.length > 0 && (
+                                <div className="mb-2"><ChatAttachments attachments={msg.attachments} /></div>
+                           )}
+                           {msg.toolCalls?.map(call => (
+                                <ToolCallCard key={call.id} call={call} onConfirm={handleConfirmToolCall} />
+                           ))}
+                           {msg.id === streamingId && !msg.text ? (
+                                <div className="flex items-center space-x-2">
+                                    <Spinner/>
+                                    <span className="text-sm">Thinking...</span>
+                                </div>
+                           ) : msg.text || msg.sender === 'bot' ? (
+                                <CitedText text={msg.text || '...'} sources={msg.sources ?? []} citations={msg.citations} />
+                           ) : !msg.attachments?.length && (
                                <span className="animate-pulse">...</span>
                            )}
                         </div>
@@ -173,6 +392,7 @@ const ChatBot: React.FC = () => {
                                     {msg.sources.map((source, index) => (
                                         <li key={index} className="truncate">
                                             <a href={source.uri} target="_blank" rel="noopener noreferrer" className="flex items-center text-blue-400 hover:underline">
+                                                <span className="mr-1 text-gray-400 flex-shrink-0">[{index + 1}]</span>
                                                 {source.type === 'maps' && <MapPinIcon className="w-4 h-4 mr-1 flex-shrink-0" />}
                                                 <span className="truncate" title={source.title}>{source.title}</span>
                                             </a>
@@ -183,39 +403,69 @@ const ChatBot: React.FC = () => {
                         )}
                     </div>
                 ))}
-                 {isLoading && messages[messages.length - 1]?.sender === 'user' && (
-                    <div className="flex justify-start">
-                        <div className="max-w-xs lg:max-w-md px-4 py-2 rounded-2xl bg-gray-700 text-gray-200 rounded-bl-lg">
-                           <div className="flex items-center space-x-2">
-                            <Spinner/>
-                            <span className="text-sm">Thinking...</span>
-                           </div>
-                        </div>
-                    </div>
-                )}
                 <div ref={messagesEndRef} />
             </div>
             <div className="p-4 border-t border-white/10">
+                {pendingAttachments.length > 0 && (
+                    <div className="mb-2">
+                        <ChatAttachments
+                            attachments={pendingAttachments}
+                            onRemove={(id) => setPendingAttachments(prev => prev.filter(a => a.id !== id))}
+                        />
+                    </div>
+                )}
+                {attachmentError && <p className="mb-2 text-xs text-yellow-400">{attachmentError}</p>}
                 <div className="flex items-center bg-gray-900 rounded-lg">
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        multiple
+                        accept={ACCEPTED_ATTACHMENT_TYPES}
+                        className="hidden"
+                        onChange={(e) => {
+                            addFiles(Array.from(e.target.files ?? []));
+                            e.target.value = '';
+                        }}
+                    />
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={isLoading}
+                        title="Attach images, PDFs, audio or text files"
+                        className="pl-3 text-gray-400 hover:text-white disabled:text-gray-600 transition-colors"
+                    >
+                        <PaperClipIcon className="w-5 h-5" />
+                    </button>
                     <input
                         type="text"
                         value={input}
                         onChange={(e) => setInput(e.target.value)}
                         onKeyPress={(e) => e.key === 'Enter' && handleSend()}
+                        onPaste={handlePaste}
                         placeholder={placeholderText}
                         className="flex-1 bg-transparent p-3 text-gray-200 focus:outline-none"
                         disabled={isLoading}
                     />
-                    <button
-                        onClick={handleSend}
-                        disabled={isLoading || !input.trim()}
-                        className="p-3 text-white disabled:text-gray-500 transition-colors"
-                    >
-                       {isLoading ? <Spinner /> : <SendIcon className="w-6 h-6" />}
-                    </button>
+                    {isLoading ? (
+                        <button
+                            onClick={handleStop}
+                            title="Stop generating"
+                            className="p-3 text-red-400 hover:text-red-300 transition-colors"
+                        >
+                            <StopIcon className="w-6 h-6" />
+                        </button>
+                    ) : (
+                        <button
+                            onClick={handleSend}
+                            disabled={!input.trim() && pendingAttachments.length === 0}
+                            className="p-3 text-white disabled:text-gray-500 transition-colors"
+                        >
+                            <SendIcon className="w-6 h-6" />
+                        </button>
+                    )}
                 </div>
             </div>
         </div>
+        </div>
     );
 };
 
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { ChatThread } from '../types';
+import { filterThreads } from '../services/chatThreadStore';
+
+interface ChatThreadListProps {
+    threads: ChatThread[];
+    activeId: string;
+    disabled: boolean;
+    onSelect: (thread: ChatThread) => void;
+    onNew: () => void;
+    onRename: (thread: ChatThread, title: string) => void;
+    onTogglePin: (thread: ChatThread) => void;
+    onDelete: (thread: ChatThread) => void;
+}
+
+export const ChatThreadList: React.FC<ChatThreadListProps> = ({ threads, activeId, disabled, onSelect, onNew, onRename, onTogglePin, onDelete }) => {
+    const [search, setSearch] = useState('');
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draftTitle, setDraftTitle] = useState('');
+
+    const startRename = (thread: ChatThread) => {
+        setEditingId(thread.id);
+        setDraftTitle(thread.title);
+    };
+
+    const commitRename = (thread: ChatThread) => {
+        const title = draftTitle.trim();
+        if (title && title !== thread.title) {
+            onRename(thread, title);
+        }
+        setEditingId(null);
+    };
+
+    const visibleThreads = filterThreads(threads, search);
+
+    return (
+        <aside className="hidden md:flex flex-col w-64 flex-shrink-0 bg-brand-gray-dark rounded-xl shadow-2xl border border-white/10">
+            <div className="p-3 border-b border-white/10 space-y-2">
+                <button
+                    onClick={onNew}
+                    disabled={disabled}
+                    className="w-full bg-brand-blue-light hover:bg-brand-blue text-white font-bold py-2 px-4 rounded-lg transition disabled:bg-gray-600 disabled:cursor-not-allowed text-sm"
+                >
+                    New chat
+                </button>
+                <input
+                    type="search"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search chats..."
+                    className="w-full p-2 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-brand-blue-light text-gray-200 text-sm"
+                />
+            </div>
+            <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+                {visibleThreads.length === 0 && (
+                    <li className="p-2 text-xs text-gray-500 text-center">{threads.length === 0 ? 'No saved chats yet.' : 'No chats match your search.'}</li>
+                )}
+                {visibleThreads.map(thread => (
+                    <li key={thread.id} className={`group rounded-lg ${thread.id === activeId ? 'bg-gray-700' : 'hover:bg-gray-800'}`}>
+                        {editingId === thread.id ? (
+                            <input
+                                autoFocus
+                                value={draftTitle}
+                                onChange={(e) => setDraftTitle(e.target.value)}
+                                onBlur={() => commitRename(thread)}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter') commitRename(thread);
+                                    if (e.key === 'Escape') setEditingId(null);
+                                }}
+                                className="w-full p-2 bg-gray-900 border border-brand-blue-light rounded-lg text-gray-200 text-sm focus:outline-none"
+                            />
+                        ) : (
+                            <>
+                                <button
+                                    onClick={() => onSelect(thread)}
+                                    disabled={disabled}
+                                    className="w-full text-left p-2 text-sm text-gray-200 truncate disabled:cursor-not-allowed"
+                                    title={thread.title}
+                                >
+                                    {thread.pinned && <span className="text-yellow-400 mr-1" aria-label="Pinned">&#9733;</span>}
+                                    {thread.title}
+                                </button>
+                                <div className="flex space-x-3 px-2 pb-2 text-xs text-gray-400 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                                    <button onClick={() => onTogglePin(thread)} className="hover:text-white">{thread.pinned ? 'Unpin' : 'Pin'}</button>
+                                    <button onClick={() => startRename(thread)} className="hover:text-white">Rename</button>
+                                    <button onClick={() => onDelete(thread)} disabled={disabled} className="hover:text-red-400 disabled:cursor-not-allowed">Delete</button>
+                                </div>
+                            </>
+                        )}
+                    </li>
+                ))}
+            </ul>
+        </aside>
+    );
+};
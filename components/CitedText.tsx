@@ -0,0 +1,25 @@
+import React from 'react';
+import { GroundingCitation, GroundingSource } from '../types';
+import { annotateCitations, findUnsupportedSentences } from '../services/citations';
+import { Markdown } from './Markdown';
+
+// A grounded answer rendered as markdown with inline citation markers. Answers saved before
+// citations were recorded have none and are shown without markers.
+export const CitedText: React.FC<{
+    text: string;
+    sources: GroundingSource[];
+    citations?: GroundingCitation[];
+    className?: string;
+}> = ({ text, sources, citations, className = '' }) => {
+    const unsupported = citations ? findUnsupportedSentences(text, citations).length : 0;
+    return (
+        <div className={className}>
+            <Markdown text={citations ? annotateCitations(text, sources, citations) : text} sources={sources} />
+            {unsupported > 0 && (
+                <p className="mt-1 text-xs text-amber-400">
+                    {unsupported} {unsupported === 1 ? 'sentence has' : 'sentences have'} no supporting source (marked [?]).
+                </p>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { ClaimCheck, ClaimVerdict, GroundingSource } from '../types';
+
+const VERDICT_STYLES: Record<ClaimVerdict, { mark: string; badge: string }> = {
+    True: { mark: 'bg-green-800/60 decoration-green-400', badge: 'bg-green-600' },
+    False: { mark: 'bg-red-800/60 decoration-red-400', badge: 'bg-red-600' },
+    Misleading: { mark: 'bg-yellow-800/60 decoration-yellow-400', badge: 'bg-yellow-600' },
+    Unverifiable: { mark: 'bg-gray-700 decoration-gray-400', badge: 'bg-gray-600' },
+};
+
+const SourceList: React.FC<{ title: string; sources: GroundingSource[] }> = ({ title, sources }) => (
+    <div>
+        <h6 className="font-semibold text-gray-400 mb-1 text-xs">{title}</h6>
+        {sources.length === 0 ? (
+            <p className="text-xs text-gray-500">None found.</p>
+        ) : (
+            <ul className="space-y-1 text-sm">
+                {sources.map((source, index) => (
+                    <li key={index} className="truncate">
+                        <a href={source.uri} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">
+                            <span className="truncate" title={source.title}>{source.title}</span>
+                        </a>
+                    </li>
+                ))}
+            </ul>
+        )}
+    </div>
+);
+
+const ClaimBreakdown: React.FC<{ articleText: string; claims: ClaimCheck[] }> = ({ articleText, claims }) => {
+    const [expandedIndex, setExpandedIndex] = useState<number | null>(null);
+
+    const toggle = (index: number) => {
+        setExpandedIndex(prev => prev === index ? null : index);
+    };
+
+    const renderHighlightedText = () => {
+        // Overlapping spans are skipped so every character belongs to at most one claim.
+        const located = claims
+            .map((claim, index) => ({ claim, index }))
+            .filter(({ claim }) => claim.span)
+            .sort((a, b) => a.claim.span!.start - b.claim.span!.start);
+
+        const parts: React.ReactNode[] = [];
+        let cursor = 0;
+        for (const { claim, index } of located) {
+            const { start, end } = claim.span!;
+            if (start < cursor) continue;
+            if (start > cursor) parts.push(articleText.slice(cursor, start));
+            parts.push(
+                <mark
+                    key={index}
+                    onClick={() => toggle(index)}
+                    title={`${claim.verdict}: ${claim.claim}`}
+                    className={`${VERDICT_STYLES[claim.verdict].mark} text-gray-100 underline decoration-2 rounded px-0.5 cursor-pointer ${expandedIndex === index ? 'ring-2 ring-brand-blue-light' : ''}`}
+                >
+                    {articleText.slice(start, end)}
+                    <sup className="ml-0.5 font-bold">{index + 1}</sup>
+                </mark>
+            );
+            cursor = end;
+        }
+        parts.push(articleText.slice(cursor));
+        return parts;
+    };
+
+    return (
+        <div className="mt-6 border-t border-gray-700 pt-4">
+            <h4 className="font-semibold text-lg mb-2">Claim Breakdown</h4>
+            {claims.length === 0 ? (
+                <p className="text-sm text-gray-400">No checkable factual claims were found in this text.</p>
+            ) : (
+                <>
+                    <p className="text-sm text-gray-400 mb-4">Click a highlighted claim to see the evidence behind its verdict.</p>
+                    <div className="p-4 bg-gray-900/50 rounded-lg border border-gray-700 text-gray-300 whitespace-pre-wrap max-h-96 overflow-y-auto">
+                        {renderHighlightedText()}
+                    </div>
+                    <ul className="mt-4 space-y-2">
+                        {claims.map((claim, index) => (
+                            <li key={index} className="bg-gray-900/50 rounded-lg border border-gray-700">
+                                <button onClick={() => toggle(index)} className="w-full flex items-center justify-between p-3 text-left">
+                                    <span className="flex items-center space-x-3">
+                                        <span className="font-mono text-sm text-gray-500">{index + 1}.</span>
+                                        <span className="text-gray-200">{claim.claim}</span>
+                                    </span>
+                                    <span className="flex items-center space-x-2 flex-shrink-0 ml-3">
+                                        <span className={`px-2 py-0.5 rounded-full text-xs font-semibold text-white ${VERDICT_STYLES[claim.verdict].badge}`}>{claim.verdict}</span>
+                                        <span className="font-mono text-sm">{claim.confidence}%</span>
+                                    </span>
+                                </button>
+                                {expandedIndex === index && (
+                                    <div className="px-3 pb-3 space-y-3 animate-fade-in">
+                                        <p className="text-sm text-gray-300">{claim.explanation}</p>
+                                        {!claim.span && (
+                                            <p className="text-xs text-gray-500">Quoted text could not be located in the article: "{claim.quote}"</p>
+                                        )}
+                                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                            <SourceList title="Supporting Sources" sources={claim.supportingSources} />
+                                            <SourceList title="Contradicting Sources" sources={claim.contradictingSources} />
+                                        </div>
+                                    </div>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default ClaimBreakdown;
@@ -0,0 +1,38 @@
+import React, { useState } from 'react';
+
+// Two images on top of each other, with a slider that reveals `after` from the left.
+export const CompareSlider: React.FC<{
+    beforeUrl: string;
+    afterUrl: string;
+    beforeLabel: string;
+    afterLabel: string;
+}> = ({ beforeUrl, afterUrl, beforeLabel, afterLabel }) => {
+    const [position, setPosition] = useState<number>(50);
+
+    return (
+        <div>
+            <div className="relative select-none overflow-hidden rounded-lg shadow-lg">
+                <img src={beforeUrl} alt={beforeLabel} className="block w-full object-contain" draggable={false} />
+                <img
+                    src={afterUrl}
+                    alt={afterLabel}
+                    className="absolute inset-0 w-full h-full object-contain"
+                    style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+                    draggable={false}
+                />
+                <div className="absolute inset-y-0 w-0.5 bg-white/80 pointer-events-none" style={{ left: `${position}%` }} />
+                <span className="absolute top-2 left-2 px-2 py-0.5 rounded bg-black/60 text-xs text-white">{afterLabel}</span>
+                <span className="absolute top-2 right-2 px-2 py-0.5 rounded bg-black/60 text-xs text-white">{beforeLabel}</span>
+            </div>
+            <input
+                type="range"
+                min="0"
+                max="100"
+                value={position}
+                onChange={(e) => setPosition(Number(e.target.value))}
+                aria-label="Comparison position"
+                className="mt-3 w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+            />
+        </div>
+    );
+};
@@ -0,0 +1,50 @@
+import React from 'react';
+import { childrenOf, EditTree, EditVersion } from '../services/editHistory';
+
+const VersionNode: React.FC<{
+    tree: EditTree;
+    version: EditVersion;
+    labels: Map<string, string>;
+    onSelect: (id: string) => void;
+    disabled: boolean;
+}> = ({ tree, version, labels, onSelect, disabled }) => {
+    const children = childrenOf(tree, version.id);
+    const isCurrent = version.id === tree.currentId;
+    return (
+        <li>
+            <button
+                onClick={() => onSelect(version.id)}
+                disabled={disabled}
+                title={version.prompt ?? 'Uploaded image'}
+                className={`w-full flex items-center space-x-2 p-1 rounded-lg text-left transition-colors disabled:cursor-not-allowed ${isCurrent ? 'bg-brand-blue-light/30 ring-1 ring-brand-blue-light' : 'hover:bg-gray-700'}`}
+            >
+                <img src={version.imageUrl} alt="" className="h-10 w-10 object-cover rounded flex-shrink-0" />
+                <span className="min-w-0">
+                    <span className="block text-xs font-mono text-gray-400">{labels.get(version.id)}{version.masked && ' · masked'}</span>
+                    <span className="block text-sm text-gray-200 truncate">{version.prompt ?? 'Original'}</span>
+                </span>
+            </button>
+            {children.length > 0 && (
+                <ul className="ml-4 pl-2 mt-1 space-y-1 border-l border-gray-700">
+                    {children.map(child => (
+                        <VersionNode key={child.id} tree={tree} version={child} labels={labels} onSelect={onSelect} disabled={disabled} />
+                    ))}
+                </ul>
+            )}
+        </li>
+    );
+};
+
+// Short names for versions in creation order: "Original", then v1, v2, ...
+export const versionLabels = (tree: EditTree): Map<string, string> =>
+    new Map(tree.versions.map((version, index) => [version.id, index === 0 ? 'Original' : `v${index}`]));
+
+export const EditVersionTree: React.FC<{
+    tree: EditTree;
+    onSelect: (id: string) => void;
+    disabled: boolean;
+}> = ({ tree, onSelect, disabled }) => (
+    <ul className="space-y-1">
+        <VersionNode tree={tree} version={tree.versions[0]} labels={versionLabels(tree)} onSelect={onSelect} disabled={disabled} />
+    </ul>
+);
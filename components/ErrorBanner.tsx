@@ -0,0 +1,19 @@
+import React from 'react';
+import { AppError, ERROR_GUIDANCE } from '../services/errors';
+
+interface ErrorBannerProps {
+    // Validation messages are plain strings; service failures are AppErrors and get guidance by code.
+    error: string | Error;
+}
+
+export const ErrorBanner: React.FC<ErrorBannerProps> = ({ error }) => {
+    const message = typeof error === 'string' ? error : error.message || 'An unknown error occurred.';
+    const guidance = error instanceof AppError ? ERROR_GUIDANCE[error.code] : null;
+
+    return (
+        <div role="alert" className="mt-4 text-center text-red-400 bg-red-900/50 p-3 rounded-lg">
+            <p>{message}</p>
+            {guidance && <p className="mt-1 text-sm text-red-300/80">{guidance}</p>}
+        </div>
+    );
+};
@@ -1,46 +1,87 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { editImage } from '../services/geminiService';
 import { Spinner } from './Spinner';
 import { PencilSquareIcon } from './icons/PencilSquareIcon';
 import { ImageIcon } from './icons/ImageIcon';
+import { ErrorBanner } from './ErrorBanner';
+import { ProvenancePanel } from './ProvenanceInspector';
+import { blobToBase64, downloadFile, parseDataUrl } from '../services/fileUtils';
+import { compositeMaskedEdit, maskToBase64Png } from '../services/imageMask';
+import {
+    EditTree, addVersion, canRedo, canUndo, childrenOf, createEditTree, currentVersion, exportEditChain,
+    getVersion, redo, selectVersion, undo, updateVersion,
+} from '../services/editHistory';
+import { MaskEditor } from './MaskEditor';
+import { CompareSlider } from './CompareSlider';
+import { EditVersionTree, versionLabels } from './EditVersionTree';
 
-const blobToBase64 = (blob: Blob): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-            if (typeof reader.result === 'string') {
-                resolve(reader.result.split(',')[1]);
-            } else {
-                reject(new Error("Failed to read blob as base64 string."));
-            }
-        };
-        reader.onerror = reject;
-        reader.readAsDataURL(blob);
-    });
-};
+const SECONDARY_BUTTON = 'px-3 py-1 text-sm bg-gray-600 hover:bg-gray-500 text-white font-bold rounded-lg transition disabled:bg-gray-800 disabled:cursor-not-allowed';
 
 const ImageEditor: React.FC = () => {
     const [prompt, setPrompt] = useState<string>('');
     const [imageFile, setImageFile] = useState<File | null>(null);
-    const [imagePreview, setImagePreview] = useState<string | null>(null);
-    
+    const [tree, setTree] = useState<EditTree | null>(null);
+
     const [isLoading, setIsLoading] = useState<boolean>(false);
-    const [error, setError] = useState<string | null>(null);
-    const [editedImageUrl, setEditedImageUrl] = useState<string | null>(null);
+    const [error, setError] = useState<string | Error | null>(null);
+    const [hasMask, setHasMask] = useState<boolean>(false);
+    const [feather, setFeather] = useState<number>(8);
+    // The versions picked for comparison; null compares the current version with its parent.
+    const [compareIds, setCompareIds] = useState<{ before: string; after: string } | null>(null);
 
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const maskCanvasRef = useRef<HTMLCanvasElement>(null);
+    // Incremented per re-blend so a slow one cannot overwrite a later slider position.
+    const reblendRef = useRef(0);
 
-    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const current = tree ? currentVersion(tree) : null;
+    // A masked edit can be re-blended with a new feather until something is built on top of it.
+    const canReblend = !!tree && !!current?.masked && !hasMask && childrenOf(tree, current.id).length === 0;
+
+    const updateTree = (change: (tree: EditTree) => EditTree) => {
+        setTree(prev => prev && change(prev));
+        setCompareIds(null);
+    };
+
+    useEffect(() => {
+        if (!tree) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || isLoading) return;
+            if (e.target instanceof HTMLElement && e.target.closest('input, textarea, select')) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                updateTree(undo);
+            } else if (key === 'z' || key === 'y') {
+                e.preventDefault();
+                updateTree(redo);
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [tree !== null, isLoading]);
+
+    useEffect(() => {
+        if (current?.masked) setFeather(current.masked.feather);
+    }, [current?.id]);
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
         if (file) {
-            setImageFile(file);
-            setImagePreview(URL.createObjectURL(file));
-            setEditedImageUrl(null); // Clear previous result
+            try {
+                const imageBase64 = await blobToBase64(file);
+                setImageFile(file);
+                setTree(createEditTree(`data:${file.type};base64,${imageBase64}`));
+                setCompareIds(null);
+                setError(null);
+            } catch (err: any) {
+                setError(err);
+            }
         }
     };
 
     const handleGenerate = async () => {
-        if (!imageFile) {
+        if (!current) {
             setError('Please upload an image to edit.');
             return;
         }
@@ -50,19 +91,51 @@ const ImageEditor: React.FC = () => {
         }
         setIsLoading(true);
         setError(null);
-        setEditedImageUrl(null);
 
         try {
-            const imageBase64 = await blobToBase64(imageFile);
-            const url = await editImage(prompt, imageBase64, imageFile.type);
-            setEditedImageUrl(url);
+            const { mimeType, data } = parseDataUrl(current.imageUrl);
+            const mask = hasMask ? maskCanvasRef.current : null;
+            const rawImageUrl = await editImage(prompt, data, mimeType, mask ? maskToBase64Png(mask) : undefined);
+            if (mask) {
+                const maskUrl = mask.toDataURL('image/png');
+                const imageUrl = await compositeMaskedEdit(current.imageUrl, rawImageUrl, maskUrl, feather);
+                updateTree(t => addVersion(t, current.id, { prompt, imageUrl, masked: { maskUrl, rawImageUrl, feather } }));
+            } else {
+                updateTree(t => addVersion(t, current.id, { prompt, imageUrl: rawImageUrl }));
+            }
         } catch (e: any) {
-            setError(e.message || 'An unknown error occurred.');
+            setError(e);
         } finally {
             setIsLoading(false);
         }
     };
 
+    const handleFeatherChange = async (value: number) => {
+        setFeather(value);
+        if (!tree || !current?.masked || !current.parentId || !canReblend) return;
+        const parent = getVersion(tree, current.parentId);
+        if (!parent) return;
+        const attempt = ++reblendRef.current;
+        try {
+            const imageUrl = await compositeMaskedEdit(parent.imageUrl, current.masked.rawImageUrl, current.masked.maskUrl, value);
+            if (attempt === reblendRef.current) {
+                setTree(prev => prev && updateVersion(prev, current.id, { imageUrl, masked: { ...current.masked, feather: value } }));
+            }
+        } catch (e: any) {
+            setError(e);
+        }
+    };
+
+    const handleExportChain = () => {
+        if (!tree || !imageFile) return;
+        const baseName = imageFile.name.replace(/\.[^.]+$/, '') || 'image';
+        downloadFile(exportEditChain(tree, tree.currentId, imageFile.name), `${baseName}-edit-chain.json`, 'application/json');
+    };
+
+    const labels = tree ? versionLabels(tree) : new Map<string, string>();
+    const compareBefore = tree && current ? getVersion(tree, compareIds?.before ?? current.parentId ?? current.id) : undefined;
+    const compareAfter = tree && current ? getVersion(tree, compareIds?.after ?? current.id) : undefined;
+
     return (
         <div className="p-6 bg-brand-gray-dark rounded-xl shadow-2xl border border-white/10 max-w-6xl mx-auto">
             <h2 className="text-2xl font-bold mb-4 text-white flex items-center">
@@ -70,28 +143,35 @@ const ImageEditor: React.FC = () => {
                 Image Editor
             </h2>
             <p className="text-gray-400 mb-6">
-                Upload an image and describe the changes you'd like to make.
+                Upload an image and describe the changes you'd like to make. Paint a mask over part of the image to change only that area. Each edit builds on the selected version, so you can step back and try something else without losing earlier results.
             </p>
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-start">
                 <div>
-                     <div 
-                        onClick={() => fileInputRef.current?.click()}
-                        className="flex justify-center w-full px-6 pt-5 pb-6 border-2 border-gray-600 border-dashed rounded-md cursor-pointer hover:border-brand-blue-light transition"
-                    >
-                        <div className="space-y-1 text-center">
-                            {imagePreview ? (
-                                <img src={imagePreview} alt="Upload Preview" className="mx-auto h-48 max-h-48 w-auto object-contain rounded-md" />
-                            ) : (
-                                <>
-                                    <ImageIcon className="mx-auto h-12 w-12 text-gray-500" />
-                                    <p className="text-sm text-gray-400">Click to upload an image</p>
-                                    <p className="text-xs text-gray-500">PNG, JPG, etc.</p>
-                                </>
-                            )}
+                    {current ? (
+                        <>
+                            <p className="text-sm text-gray-400 mb-2">
+                                Editing <span className="font-mono text-gray-200">{labels.get(current.id)}</span>
+                            </p>
+                            <MaskEditor key={current.id} imageUrl={current.imageUrl} canvasRef={maskCanvasRef} onChange={setHasMask} disabled={isLoading} />
+                            <button onClick={() => fileInputRef.current?.click()} disabled={isLoading} className="mt-2 text-sm text-gray-400 hover:text-white transition-colors">
+                                Choose another image
+                            </button>
+                        </>
+                    ) : (
+                        <div
+                            onClick={() => fileInputRef.current?.click()}
+                            className="flex justify-center w-full px-6 pt-5 pb-6 border-2 border-gray-600 border-dashed rounded-md cursor-pointer hover:border-brand-blue-light transition"
+                        >
+                            <div className="space-y-1 text-center">
+                                <ImageIcon className="mx-auto h-12 w-12 text-gray-500" />
+                                <p className="text-sm text-gray-400">Click to upload an image</p>
+                                <p className="text-xs text-gray-500">PNG, JPG, etc.</p>
+                            </div>
                         </div>
-                    </div>
+                    )}
                     <input ref={fileInputRef} type="file" className="sr-only" accept="image/*" onChange={handleFileChange} />
+                    {imageFile && <ProvenancePanel file={imageFile} />}
                 </div>
                 <div>
                     <label htmlFor="prompt" className="block text-sm font-medium text-gray-300 mb-2">Editing Instructions</label>
@@ -101,20 +181,61 @@ const ImageEditor: React.FC = () => {
                         onChange={(e) => setPrompt(e.target.value)}
                         placeholder="e.g., Add a retro filter, remove the person in the background..."
                         className="w-full h-32 p-4 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-brand-blue-light"
-                        disabled={isLoading || !imageFile}
+                        disabled={isLoading || !tree}
                     />
+                    <label htmlFor="feather" className={`block text-sm font-medium text-gray-300 mt-4 mb-1 ${hasMask || canReblend ? '' : 'opacity-50'}`}>
+                        Edge Feathering: <span className="font-mono">{feather}px</span>
+                    </label>
+                    <input
+                        type="range"
+                        id="feather"
+                        min="0"
+                        max="50"
+                        value={feather}
+                        onChange={(e) => handleFeatherChange(Number(e.target.value))}
+                        disabled={isLoading || (!hasMask && !canReblend)}
+                        className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                        {hasMask
+                            ? 'Only the masked area is changed; the edit is blended into the original over this many pixels.'
+                            : canReblend
+                                ? 'Adjusts how this masked edit is blended into the version it was made from.'
+                                : 'Paint a mask on the image to confine the edit to part of it.'}
+                    </p>
+
+                    {tree && (
+                        <div className="mt-6">
+                            <div className="flex flex-wrap items-center gap-2 mb-2">
+                                <h3 className="font-semibold text-white mr-auto">Versions</h3>
+                                <button onClick={() => updateTree(undo)} disabled={isLoading || !canUndo(tree)} title="Undo (Ctrl+Z)" className={SECONDARY_BUTTON}>
+                                    Undo
+                                </button>
+                                <button onClick={() => updateTree(redo)} disabled={isLoading || !canRedo(tree)} title="Redo (Ctrl+Shift+Z)" className={SECONDARY_BUTTON}>
+                                    Redo
+                                </button>
+                                <button onClick={handleExportChain} disabled={!current?.parentId} title="Download the prompts and images that led to the selected version" className={SECONDARY_BUTTON}>
+                                    Export Chain
+                                </button>
+                            </div>
+                            <div className="max-h-80 overflow-y-auto p-2 bg-gray-900/50 rounded-lg border border-gray-700">
+                                <EditVersionTree tree={tree} onSelect={(id) => updateTree(t => selectVersion(t, id))} disabled={isLoading} />
+                            </div>
+                            <p className="mt-1 text-xs text-gray-500">Select a version to continue editing from it. Editing an earlier version starts a new branch.</p>
+                        </div>
+                    )}
                 </div>
             </div>
 
             <button
                 onClick={handleGenerate}
-                disabled={isLoading || !imageFile || !prompt.trim()}
+                disabled={isLoading || !tree || !prompt.trim()}
                 className="mt-6 w-full flex items-center justify-center bg-brand-blue-light hover:bg-brand-blue text-white font-bold py-3 px-4 rounded-lg transition disabled:bg-gray-600 disabled:cursor-not-allowed"
             >
                 {isLoading ? <Spinner /> : 'Apply Edits'}
             </button>
-            
-            {error && <div className="mt-4 text-center text-red-400 bg-red-900/50 p-3 rounded-lg">{error}</div>}
+
+            {error && <ErrorBanner error={error} />}
 
             {isLoading && (
                  <div className="mt-6 flex flex-col items-center justify-center text-gray-400">
@@ -122,19 +243,37 @@ const ImageEditor: React.FC = () => {
                     <p className="mt-2">Applying edits...</p>
                 </div>
             )}
-            
-            {editedImageUrl && imagePreview && (
+
+            {tree && tree.versions.length > 1 && compareBefore && compareAfter && (
                 <div className="mt-6">
                     <h3 className="text-xl font-bold mb-4 text-center">Comparison</h3>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                        <div className="text-center">
-                            <h4 className="font-semibold mb-2">Original</h4>
-                            <img src={imagePreview} alt="Original" className="rounded-lg shadow-lg w-full object-contain" />
-                        </div>
-                        <div className="text-center">
-                            <h4 className="font-semibold mb-2">Edited</h4>
-                            <img src={editedImageUrl} alt="Edited" className="rounded-lg shadow-lg w-full object-contain" />
-                        </div>
+                    <div className="flex flex-wrap items-center justify-center gap-3 mb-4">
+                        {(['before', 'after'] as const).map(side => (
+                            <select
+                                key={side}
+                                value={(side === 'before' ? compareBefore : compareAfter).id}
+                                onChange={(e) => setCompareIds({ before: compareBefore.id, after: compareAfter.id, [side]: e.target.value })}
+                                aria-label={side === 'before' ? 'Compare from' : 'Compare to'}
+                                className="p-2 bg-gray-900 border border-gray-700 rounded-lg text-sm focus:ring-2 focus:ring-brand-blue-light"
+                            >
+                                {tree.versions.map(version => (
+                                    <option key={version.id} value={version.id}>
+                                        {labels.get(version.id)}{version.prompt ? `: ${version.prompt.slice(0, 40)}` : ''}
+                                    </option>
+                                ))}
+                            </select>
+                        ))}
+                        <a href={compareAfter.imageUrl} download={`${labels.get(compareAfter.id)}.png`} className="text-sm text-brand-blue-light hover:underline">
+                            Download {labels.get(compareAfter.id)}
+                        </a>
+                    </div>
+                    <div className="max-w-3xl mx-auto">
+                        <CompareSlider
+                            beforeUrl={compareBefore.imageUrl}
+                            afterUrl={compareAfter.imageUrl}
+                            beforeLabel={labels.get(compareBefore.id) ?? ''}
+                            afterLabel={labels.get(compareAfter.id) ?? ''}
+                        />
                     </div>
                 </div>
             )}
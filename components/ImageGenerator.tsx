@@ -2,12 +2,13 @@ import React, { useState } from 'react';
 import { generateImage } from '../services/geminiService';
 import { Spinner } from './Spinner';
 import { SparklesIcon } from './icons/SparklesIcon';
+import { ErrorBanner } from './ErrorBanner';
 
 const ImageGenerator: React.FC = () => {
     const [prompt, setPrompt] = useState<string>('');
     const [aspectRatio, setAspectRatio] = useState<string>('1:1');
     const [isLoading, setIsLoading] = useState<boolean>(false);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<string | Error | null>(null);
     const [imageUrl, setImageUrl] = useState<string | null>(null);
 
     const handleGenerate = async () => {
@@ -23,7 +24,7 @@ const ImageGenerator: React.FC = () => {
             const url = await generateImage(prompt, aspectRatio);
             setImageUrl(url);
         } catch (e: any) {
-            setError(e.message || 'An unknown error occurred.');
+            setError(e);
         } finally {
             setIsLoading(false);
         }
@@ -71,7 +72,7 @@ const ImageGenerator: React.FC = () => {
                 {isLoading ? <Spinner /> : 'Generate Image'}
             </button>
 
-            {error && <div className="mt-4 text-center text-red-400 bg-red-900/50 p-3 rounded-lg">{error}</div>}
+            {error && <ErrorBanner error={error} />}
             
             {isLoading && !imageUrl && (
                  <div className="mt-6 flex flex-col items-center justify-center text-gray-400">
@@ -4,6 +4,8 @@ import { Spinner } from './Spinner';
 import { AudioWaveIcon } from './icons/AudioWaveIcon';
 import { StopIcon } from './icons/StopIcon';
 import { MicrophoneIcon } from './icons/MicrophoneIcon';
+import { ErrorBanner } from './ErrorBanner';
+import { Markdown } from './Markdown';
 
 // --- Audio Helper Functions from Gemini Docs ---
 function encode(bytes: Uint8Array): string {
@@ -60,7 +62,7 @@ function createBlob(data: Float32Array): GenAIAPIBlob {
 const LiveChat: React.FC = () => {
     const [isSessionActive, setIsSessionActive] = useState(false);
     const [statusMessage, setStatusMessage] = useState('Click Start to begin conversation.');
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<string | Error | null>(null);
     const [transcriptionHistory, setTranscriptionHistory] = useState<{ speaker: 'user' | 'model', text: string }[]>([]);
     
     const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
@@ -252,13 +254,14 @@ const LiveChat: React.FC = () => {
                 {transcriptionHistory.map((entry, index) => (
                     <div key={index} className={`flex ${entry.speaker === 'user' ? 'justify-end' : 'justify-start'}`}>
                         <div className={`max-w-md px-3 py-2 rounded-lg ${entry.speaker === 'user' ? 'bg-brand-blue-light text-white' : 'bg-gray-700 text-gray-200'}`}>
-                           <span className="font-bold capitalize">{entry.speaker}: </span> {entry.text}
+                           <span className="block text-xs font-bold capitalize opacity-75">{entry.speaker}</span>
+                           <Markdown text={entry.text} />
                         </div>
                     </div>
                 ))}
             </div>
             
-            {error && <div className="mt-4 text-center text-red-400 bg-red-900/50 p-3 rounded-lg">{error}</div>}
+            {error && <ErrorBanner error={error} />}
         </div>
     );
 };
@@ -0,0 +1,30 @@
+import React from 'react';
+import { GroundingSource } from '../types';
+import { renderMarkdown } from '../services/markdown';
+
+const copyCode = (button: HTMLElement) => {
+    const code = button.closest('[data-code-block]')?.querySelector('code')?.textContent ?? '';
+    navigator.clipboard.writeText(code)
+        .then(() => {
+            button.textContent = 'Copied!';
+            setTimeout(() => { button.textContent = 'Copy'; }, 2000);
+        })
+        .catch(e => console.error("Error copying code:", e));
+};
+
+// Renders model output as sanitized markdown. The HTML comes from renderMarkdown, so copy buttons
+// on code blocks are handled here by delegation rather than with React handlers.
+export const Markdown: React.FC<{ text: string; sources?: GroundingSource[]; className?: string }> = ({ text, sources, className = '' }) => {
+    const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        const button = (e.target as HTMLElement).closest<HTMLElement>('[data-copy-code]');
+        if (button) copyCode(button);
+    };
+
+    return (
+        <div
+            className={`markdown-body ${className}`}
+            onClick={handleClick}
+            dangerouslySetInnerHTML={{ __html: renderMarkdown(text, sources) }}
+        ></div>
+    );
+};
@@ -0,0 +1,132 @@
+import React, { useState, useRef } from 'react';
+import { isMaskEmpty } from '../services/imageMask';
+
+type MaskTool = 'brush' | 'eraser' | 'rectangle';
+
+const TOOLS: [MaskTool, string][] = [['brush', 'Brush'], ['eraser', 'Eraser'], ['rectangle', 'Rectangle']];
+
+const MASK_COLOR = '#f43f5e';
+
+// Shows the image with a canvas on top to paint the region an edit may change. The canvas has
+// the image's natural resolution, so `canvasRef` can be used directly as the mask.
+export const MaskEditor: React.FC<{
+    imageUrl: string;
+    canvasRef: React.RefObject<HTMLCanvasElement>;
+    onChange: (hasMask: boolean) => void;
+    disabled: boolean;
+}> = ({ imageUrl, canvasRef, onChange, disabled }) => {
+    const [tool, setTool] = useState<MaskTool>('brush');
+    const [brushSize, setBrushSize] = useState<number>(40);
+    // The last brush position, or where the rectangle started, in canvas pixels.
+    const startRef = useRef<{ x: number; y: number } | null>(null);
+    const snapshotRef = useRef<ImageData | null>(null);
+
+    const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        canvas.width = e.currentTarget.naturalWidth;
+        canvas.height = e.currentTarget.naturalHeight;
+        onChange(false);
+    };
+
+    const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        return {
+            x: (e.clientX - rect.left) * e.currentTarget.width / rect.width,
+            y: (e.clientY - rect.top) * e.currentTarget.height / rect.height,
+            scale: e.currentTarget.width / rect.width,
+        };
+    };
+
+    const strokeTo = (ctx: CanvasRenderingContext2D, x: number, y: number, scale: number) => {
+        const start = startRef.current ?? { x, y };
+        ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+        ctx.strokeStyle = MASK_COLOR;
+        ctx.lineWidth = brushSize * scale;
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        ctx.beginPath();
+        ctx.moveTo(start.x, start.y);
+        ctx.lineTo(x, y);
+        ctx.stroke();
+        startRef.current = { x, y };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const ctx = e.currentTarget.getContext('2d');
+        if (disabled || !ctx) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const { x, y, scale } = toCanvasPoint(e);
+        if (tool === 'rectangle') {
+            startRef.current = { x, y };
+            snapshotRef.current = ctx.getImageData(0, 0, e.currentTarget.width, e.currentTarget.height);
+        } else {
+            startRef.current = null;
+            strokeTo(ctx, x, y, scale);
+        }
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const ctx = e.currentTarget.getContext('2d');
+        if (!ctx || !startRef.current || !e.currentTarget.hasPointerCapture(e.pointerId)) return;
+        const { x, y, scale } = toCanvasPoint(e);
+        if (tool === 'rectangle') {
+            // Redraw from the snapshot so the rectangle follows the pointer.
+            if (snapshotRef.current) ctx.putImageData(snapshotRef.current, 0, 0);
+            ctx.globalCompositeOperation = 'source-over';
+            ctx.fillStyle = MASK_COLOR;
+            ctx.fillRect(startRef.current.x, startRef.current.y, x - startRef.current.x, y - startRef.current.y);
+        } else {
+            strokeTo(ctx, x, y, scale);
+        }
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!startRef.current) return;
+        startRef.current = null;
+        snapshotRef.current = null;
+        onChange(!isMaskEmpty(e.currentTarget));
+    };
+
+    const handleClear = () => {
+        const canvas = canvasRef.current;
+        canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+        onChange(false);
+    };
+
+    return (
+        <div>
+            <div className="flex flex-wrap items-center gap-2 mb-2">
+                {TOOLS.map(([value, label]) => (
+                    <button
+                        key={value}
+                        onClick={() => setTool(value)}
+                        disabled={disabled}
+                        className={`px-3 py-1 text-sm font-medium rounded-lg transition-colors ${tool === value ? 'bg-brand-blue-light text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+                    >
+                        {label}
+                    </button>
+                ))}
+                <label className={`flex items-center space-x-2 text-sm text-gray-400 ${tool === 'rectangle' ? 'opacity-50' : ''}`}>
+                    <span>Size</span>
+                    <input type="range" min="5" max="150" value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} disabled={disabled || tool === 'rectangle'} className="w-24 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer" />
+                </label>
+                <button onClick={handleClear} disabled={disabled} className="ml-auto px-3 py-1 text-sm text-gray-400 hover:text-white transition-colors">
+                    Clear Mask
+                </button>
+            </div>
+            <div className="relative inline-block max-w-full">
+                <img src={imageUrl} alt="Image to edit" onLoad={handleImageLoad} className="block max-h-96 max-w-full w-auto rounded-md select-none" draggable={false} />
+                <canvas
+                    ref={canvasRef}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                    className={`absolute inset-0 w-full h-full opacity-50 touch-none ${disabled ? 'cursor-not-allowed' : 'cursor-crosshair'}`}
+                />
+            </div>
+            <p className="mt-1 text-xs text-gray-500">Paint over the area to change. Without a mask, the whole image is edited.</p>
+        </div>
+    );
+};
@@ -1,19 +1,68 @@
-import React, { useState } from 'react';
-import { AnalysisResult, GroundingSource } from '../types';
-import { analyzeNewsArticle, getGroundedChatResponse } from '../services/geminiService';
+import React, { useRef, useState } from 'react';
+import { AnalysisResult, AnalysisOptions, LinguisticCue, ArticleMetadata, ExtractedArticle, ScreenshotPost, WebContext } from '../types';
+import { analyzeNewsArticle, getGroundedChatResponse, CUE_LABELS, getAnalysisModel, describeScreenshotPost } from '../services/geminiService';
+import { hasCapability } from '../services/providers';
+import { saveAnalysis, attachWebContext } from '../services/historyStore';
+import { fetchArticle, isLikelyUrl } from '../services/articleService';
 import { Spinner } from './Spinner';
+import ClaimBreakdown from './ClaimBreakdown';
+import BatchAnalyzer from './BatchAnalyzer';
+import ScreenshotInput, { VisualRedFlagList } from './ScreenshotInput';
+import ProvenanceInspector from './ProvenanceInspector';
+import { CLASSIFICATION_STYLES } from './VerdictBadge';
 import { CheckCircleIcon } from './icons/CheckCircleIcon';
 import { XCircleIcon } from './icons/XCircleIcon';
+import { ErrorBanner } from './ErrorBanner';
+import { CitedText } from './CitedText';
+
+const ALL_CUES = Object.keys(CUE_LABELS) as LinguisticCue[];
+
+type InputMode = 'text' | 'url' | 'screenshot' | 'image' | 'batch';
+
+const INPUT_MODES: [InputMode, string][] = [['text', 'Paste Text'], ['url', 'From URL'], ['screenshot', 'Screenshot'], ['image', 'Image Check'], ['batch', 'Batch File']];
+
+// These modes have their own panel and results instead of the single-text analysis.
+const STANDALONE_MODES: InputMode[] = ['image', 'batch'];
+
+const ANALYZE_LABELS: Record<Exclude<InputMode, 'image' | 'batch'>, string> = {
+    text: 'Analyze Text',
+    url: 'Fetch & Analyze',
+    screenshot: 'Analyze Post',
+};
+
+const ArticleMetadataCard: React.FC<{ metadata: ArticleMetadata }> = ({ metadata }) => {
+    const publishedDate = metadata.publishedAt ? new Date(metadata.publishedAt) : null;
+    const rows: [string, string | null][] = [
+        ['Outlet', metadata.outlet],
+        ['Byline', metadata.byline],
+        ['Published', publishedDate && !isNaN(publishedDate.getTime()) ? publishedDate.toLocaleString() : metadata.publishedAt],
+    ];
+
+    return (
+        <div className="mt-4 p-4 bg-gray-900/50 rounded-lg border border-gray-700 animate-fade-in">
+            <h4 className="font-semibold text-white">{metadata.headline ?? 'Untitled article'}</h4>
+            <a href={metadata.url} target="_blank" rel="noopener noreferrer" className="text-xs text-blue-400 hover:underline break-all">{metadata.url}</a>
+            <dl className="mt-3 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                {rows.map(([label, value]) => (
+                    <React.Fragment key={label}>
+                        <dt className="text-gray-500">{label}</dt>
+                        <dd className={value ? 'text-gray-300' : 'text-yellow-400'}>{value ?? 'Not found'}</dd>
+                    </React.Fragment>
+                ))}
+            </dl>
+        </div>
+    );
+};
 
 const ResultDisplay: React.FC<{ 
     result: AnalysisResult;
+    articleText: string;
     onGetContext: () => void;
     isContextLoading: boolean;
-    contextResult: { text: string; sources: GroundingSource[] } | null;
-    contextError: string | null;
-}> = ({ result, onGetContext, isContextLoading, contextResult, contextError }) => {
-    const isReal = result.classification === 'Real';
-    const confidenceColor = isReal ? 'bg-green-500' : 'bg-red-500';
+    contextResult: WebContext | null;
+    contextError: string | Error | null;
+}> = ({ result, articleText, onGetContext, isContextLoading, contextResult, contextError }) => {
+    const styles = CLASSIFICATION_STYLES[result.classification];
 
     const highlightKeywords = (text: string, keywords: string[]) => {
         if (!keywords || keywords.length === 0) {
@@ -35,39 +84,75 @@ const ResultDisplay: React.FC<{
         <div className="mt-6 p-6 bg-white/5 rounded-lg border border-white/10 animate-fade-in">
             <h3 className="text-xl font-bold mb-4">Analysis Result</h3>
             <div className="flex items-center space-x-4 mb-4">
-                <div className={`flex items-center space-x-2 px-4 py-2 rounded-full text-white font-semibold ${isReal ? 'bg-green-600' : 'bg-red-600'}`}>
-                    {isReal ? <CheckCircleIcon className="w-6 h-6" /> : <XCircleIcon className="w-6 h-6" />}
+                <div className={`flex items-center space-x-2 px-4 py-2 rounded-full text-white font-semibold ${styles.badge}`}>
+                    {result.classification === 'Real' ? <CheckCircleIcon className="w-6 h-6" /> : <XCircleIcon className="w-6 h-6" />}
                     <span>{result.classification}</span>
                 </div>
                 <div className="w-full bg-gray-700 rounded-full h-4">
                     <div 
-                        className={`h-4 rounded-full ${confidenceColor} transition-all duration-500`} 
+                        className={`h-4 rounded-full ${styles.bar} transition-all duration-500`} 
                         style={{ width: `${result.confidence}%` }}
                     ></div>
                 </div>
                 <span className="font-mono text-lg">{result.confidence}%</span>
             </div>
+            {result.classification === 'Inconclusive' && (
+                <p className="text-sm text-yellow-400 mb-4">
+                    The confidence of this analysis is below your configured threshold, so no Real/Fake verdict is given.
+                </p>
+            )}
             <div>
                 <h4 className="font-semibold text-lg mb-2">Explanation</h4>
                 <p className="text-gray-300 whitespace-pre-wrap">{highlightKeywords(result.explanation, result.keywords)}</p>
             </div>
+
+            {result.visualRedFlags && (
+                <div className="mt-6">
+                    <h4 className="font-semibold text-lg mb-2">Visual Red Flags</h4>
+                    <VisualRedFlagList flags={result.visualRedFlags} />
+                </div>
+            )}
+
+            {result.cueAnalyses && result.cueAnalyses.length > 0 && (
+                <div className="mt-6">
+                    <h4 className="font-semibold text-lg mb-2">Linguistic Cues</h4>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {result.cueAnalyses.map(analysis => (
+                            <div key={analysis.cue} className="p-4 bg-gray-900/50 rounded-lg border border-gray-700">
+                                <div className="flex items-center justify-between mb-2">
+                                    <span className="font-medium">{CUE_LABELS[analysis.cue]}</span>
+                                    <span className="font-mono text-sm">{analysis.score}/100</span>
+                                </div>
+                                <div className="w-full bg-gray-700 rounded-full h-2 mb-3">
+                                    <div className="h-2 rounded-full bg-brand-blue-light" style={{ width: `${analysis.score}%` }}></div>
+                                </div>
+                                <ul className="list-disc list-inside space-y-1 text-sm text-gray-400">
+                                    {analysis.findings.map((finding, index) => <li key={index}>{finding}</li>)}
+                                </ul>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
             
+            {result.claims && <ClaimBreakdown articleText={articleText} claims={result.claims} />}
+
             <div className="mt-6 border-t border-gray-700 pt-4">
                 <h4 className="font-semibold text-lg mb-2">Further Research</h4>
                 <p className="text-sm text-gray-400 mb-4">Get up-to-date context on the key topics from this article using Google Search.</p>
                 <button
                     onClick={onGetContext}
-                    disabled={isContextLoading}
+                    disabled={isContextLoading || !hasCapability('grounding')}
                     className="flex items-center justify-center bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-lg transition duration-200 disabled:bg-gray-800 disabled:cursor-not-allowed"
                 >
                     {isContextLoading ? <Spinner /> : 'Get Web Context'}
                 </button>
 
-                {contextError && <div className="mt-4 text-center text-red-400 bg-red-900/50 p-3 rounded-lg">{contextError}</div>}
+                {contextError && <ErrorBanner error={contextError} />}
 
                 {contextResult && (
                     <div className="mt-4 p-4 bg-gray-900/50 rounded-lg border border-gray-700 animate-fade-in">
-                        <p className="text-gray-300 whitespace-pre-wrap mb-4">{contextResult.text}</p>
+                        <CitedText text={contextResult.text} sources={contextResult.sources} citations={contextResult.citations} className="text-gray-300 mb-4" />
                         {contextResult.sources && contextResult.sources.length > 0 && (
                             <div>
                                 <h5 className="font-semibold text-gray-400 mb-1 text-sm">Sources:</h5>
@@ -75,6 +160,7 @@ const ResultDisplay: React.FC<{
                                     {contextResult.sources.map((source, index) => (
                                         <li key={index} className="truncate">
                                             <a href={source.uri} target="_blank" rel="noopener noreferrer" className="flex items-center text-blue-400 hover:underline">
+                                                <span className="mr-1 text-gray-400 flex-shrink-0">[{index + 1}]</span>
                                                 <span className="truncate" title={source.title}>{source.title}</span>
                                             </a>
                                         </li>
@@ -91,40 +177,101 @@ const ResultDisplay: React.FC<{
 
 
 const NewsAnalyzer: React.FC = () => {
+    const [inputMode, setInputMode] = useState<InputMode>('text');
     const [articleText, setArticleText] = useState<string>('');
+    const [articleUrl, setArticleUrl] = useState<string>('');
+    const [extractedArticle, setExtractedArticle] = useState<ExtractedArticle | null>(null);
+    const [screenshotPost, setScreenshotPost] = useState<ScreenshotPost | null>(null);
+    const [loadingMessage, setLoadingMessage] = useState<string>('');
     const [isLoading, setIsLoading] = useState<boolean>(false);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<string | Error | null>(null);
     const [result, setResult] = useState<AnalysisResult | null>(null);
     const [showAdvanced, setShowAdvanced] = useState<boolean>(false);
     const [useThinkingMode, setUseThinkingMode] = useState<boolean>(false);
+    const [confidenceThreshold, setConfidenceThreshold] = useState<number>(75);
+    const [selectedCues, setSelectedCues] = useState<LinguisticCue[]>([]);
+    const [checkClaims, setCheckClaims] = useState<boolean>(false);
+    const [analyzedText, setAnalyzedText] = useState<string>('');
 
     const [isContextLoading, setIsContextLoading] = useState<boolean>(false);
-    const [contextResult, setContextResult] = useState<{ text: string; sources: GroundingSource[] } | null>(null);
-    const [contextError, setContextError] = useState<string | null>(null);
+    const [contextResult, setContextResult] = useState<WebContext | null>(null);
+    const [contextError, setContextError] = useState<string | Error | null>(null);
+    // Resolves to the history id of the current result once it is saved, or null if saving failed.
+    const historyIdRef = useRef<Promise<string | null> | null>(null);
+
 
+    // Claim checks gather evidence with search grounding, which not every provider offers.
+    const canGround = hasCapability('grounding');
+
+    const analysisOptions: AnalysisOptions = {
+        useThinkingMode,
+        confidenceThreshold,
+        cues: selectedCues,
+        checkClaims: checkClaims && canGround,
+    };
+
+    const toggleCue = (cue: LinguisticCue) => {
+        setSelectedCues(prev => prev.includes(cue) ? prev.filter(c => c !== cue) : [...prev, cue]);
+    };
 
     const handleAnalyze = async () => {
-        if (!articleText.trim()) {
+        if (inputMode === 'text' && !articleText.trim()) {
             setError('Please enter some text to analyze.');
             return;
         }
+        if (inputMode === 'url' && !isLikelyUrl(articleUrl)) {
+            setError('Please enter a valid http(s) URL.');
+            return;
+        }
+        if (inputMode === 'screenshot' && !screenshotPost?.text.trim()) {
+            setError('Please read a screenshot that contains the text of a post.');
+            return;
+        }
         setIsLoading(true);
         setError(null);
         setResult(null);
         setContextResult(null);
         setContextError(null);
+        setExtractedArticle(null);
+        historyIdRef.current = null;
         try {
-            const analysisResult = await analyzeNewsArticle(articleText, useThinkingMode);
+            let text = articleText;
+            let metadata: ArticleMetadata | undefined;
+            if (inputMode === 'url') {
+                setLoadingMessage('Fetching article...');
+                const article = await fetchArticle(articleUrl.trim());
+                setExtractedArticle(article);
+                text = article.text;
+                metadata = article.metadata;
+            }
+            if (inputMode === 'screenshot') {
+                text = describeScreenshotPost(screenshotPost);
+            }
+            setLoadingMessage('Analyzing...');
+            const analysis = await analyzeNewsArticle(text, analysisOptions, metadata);
+            const analysisResult: AnalysisResult = inputMode === 'screenshot'
+                ? { ...analysis, visualRedFlags: screenshotPost.visualRedFlags }
+                : analysis;
+            setAnalyzedText(text);
             setResult(analysisResult);
+            historyIdRef.current = saveAnalysis(text, analysisOptions, getAnalysisModel(), analysisResult, metadata)
+                .then(entry => entry.id)
+                .catch(e => {
+                    console.error("Error saving analysis to history:", e);
+                    return null;
+                });
         } catch (e: any) {
-            setError(e.message || 'An unknown error occurred.');
+            setError(e);
         } finally {
             setIsLoading(false);
+            setLoadingMessage('');
         }
     };
 
     const handleGetContext = async () => {
         if (!result) return;
+        // Taken now so the context is stored with the analysis it was fetched for.
+        const savedId = historyIdRef.current;
         setIsContextLoading(true);
         setContextResult(null);
         setContextError(null);
@@ -132,8 +279,12 @@ const NewsAnalyzer: React.FC = () => {
             const query = `Provide a brief, neutral summary of the key facts related to the following topics: ${result.keywords.slice(0, 5).join(', ')}.`;
             const contextData = await getGroundedChatResponse(query, true, false, false);
             setContextResult(contextData);
+            const historyId = await savedId;
+            if (historyId) {
+                attachWebContext(historyId, contextData).catch(e => console.error("Error saving web context to history:", e));
+            }
         } catch (e: any) {
-            setContextError(e.message || 'An unknown error occurred.');
+            setContextError(e);
         } finally {
             setIsContextLoading(false);
         }
@@ -144,22 +295,63 @@ const NewsAnalyzer: React.FC = () => {
             <div className="p-6 bg-brand-gray-dark rounded-xl shadow-2xl border border-white/10">
                 <h2 className="text-2xl font-bold mb-4 text-white">News & Post Analyzer</h2>
                 <p className="text-gray-400 mb-6">
-                    Paste the text of a news article or social media post below to check for potential misinformation.
+                    Paste the text or the URL of a news article or social media post below to check for potential misinformation, upload a screenshot of a post, check where an image came from, or import a file of posts to analyze in bulk.
                 </p>
-                <textarea
-                    value={articleText}
-                    onChange={(e) => setArticleText(e.target.value)}
-                    placeholder="Enter text here..."
-                    className="w-full h-48 p-4 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-brand-blue-light focus:border-brand-blue-light transition duration-200 text-gray-200 resize-y"
-                    disabled={isLoading}
-                />
-                <button
-                    onClick={handleAnalyze}
-                    disabled={isLoading}
-                    className="mt-4 w-full flex items-center justify-center bg-brand-blue-light hover:bg-brand-blue text-white font-bold py-3 px-4 rounded-lg transition duration-200 disabled:bg-gray-600 disabled:cursor-not-allowed"
-                >
-                    {isLoading ? <Spinner /> : 'Analyze Text'}
-                </button>
+                <div className="flex space-x-2 mb-4">
+                    {INPUT_MODES.map(([mode, label]) => (
+                        <button
+                            key={mode}
+                            onClick={() => setInputMode(mode)}
+                            disabled={isLoading}
+                            className={`px-4 py-1.5 text-sm font-medium rounded-lg transition-colors ${inputMode === mode ? 'bg-brand-blue-light text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+                {inputMode === 'batch' ? (
+                    <BatchAnalyzer options={analysisOptions} />
+                ) : inputMode === 'image' ? (
+                    <ProvenanceInspector confidenceThreshold={confidenceThreshold} />
+                ) : (
+                    <>
+                        {inputMode === 'text' ? (
+                            <textarea
+                                value={articleText}
+                                onChange={(e) => setArticleText(e.target.value)}
+                                placeholder="Enter text here..."
+                                className="w-full h-48 p-4 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-brand-blue-light focus:border-brand-blue-light transition duration-200 text-gray-200 resize-y"
+                                disabled={isLoading}
+                            />
+                        ) : inputMode === 'screenshot' ? (
+                            <ScreenshotInput post={screenshotPost} onChange={setScreenshotPost} disabled={isLoading} />
+                        ) : (
+                            <input
+                                type="url"
+                                value={articleUrl}
+                                onChange={(e) => setArticleUrl(e.target.value)}
+                                onKeyPress={(e) => e.key === 'Enter' && handleAnalyze()}
+                                placeholder="https://example.com/news/article"
+                                className="w-full p-4 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-brand-blue-light focus:border-brand-blue-light transition duration-200 text-gray-200"
+                                disabled={isLoading}
+                            />
+                        )}
+                        <button
+                            onClick={handleAnalyze}
+                            disabled={isLoading || (inputMode === 'screenshot' && !screenshotPost)}
+                            className="mt-4 w-full flex items-center justify-center bg-brand-blue-light hover:bg-brand-blue text-white font-bold py-3 px-4 rounded-lg transition duration-200 disabled:bg-gray-600 disabled:cursor-not-allowed"
+                        >
+                            {isLoading ? (
+                                <>
+                                    <Spinner />
+                                    {loadingMessage && <span className="ml-2">{loadingMessage}</span>}
+                                </>
+                            ) : ANALYZE_LABELS[inputMode]}
+                        </button>
+
+                        {inputMode === 'url' && extractedArticle && <ArticleMetadataCard metadata={extractedArticle.metadata} />}
+                    </>
+                )}
 
                 <div className="mt-4">
                     <button onClick={() => setShowAdvanced(!showAdvanced)} className="text-sm text-gray-400 hover:text-white transition-colors">
@@ -172,30 +364,35 @@ const NewsAnalyzer: React.FC = () => {
                                 <input type="checkbox" checked={useThinkingMode} onChange={() => setUseThinkingMode(!useThinkingMode)} className="form-checkbox h-4 w-4 bg-gray-800 border-gray-600 text-brand-blue-light focus:ring-brand-blue-light rounded" />
                                 <div>
                                     <span className="font-medium">Enable Thinking Mode</span>
-                                    <p className="text-xs text-gray-500">Uses gemini-2.5-pro for deeper analysis of complex topics. May take longer.</p>
+                                    <p className="text-xs text-gray-500">Uses {getAnalysisModel()} for deeper analysis of complex topics. May take longer.</p>
+                                </div>
+                            </label>
+                            <label className={`flex items-center space-x-3 text-sm text-gray-300 ${canGround ? 'cursor-pointer' : 'opacity-50 cursor-not-allowed'}`}>
+                                <input type="checkbox" checked={checkClaims && canGround} disabled={!canGround} onChange={() => setCheckClaims(!checkClaims)} className="form-checkbox h-4 w-4 bg-gray-800 border-gray-600 text-brand-blue-light focus:ring-brand-blue-light rounded" />
+                                <div>
+                                    <span className="font-medium">Claim-Level Fact Check</span>
+                                    <p className="text-xs text-gray-500">Splits the text into individual claims and checks each one with Google Search. May take longer.</p>
                                 </div>
                             </label>
                              <div>
                                 <h5 className="font-semibold text-white mb-2 text-sm">Other Options</h5>
-                                <p className="text-sm text-gray-500">
-                                    (Note: Additional options below are for demonstration and are not yet connected to the analysis API.)
-                                </p>
                                 <div className="mt-3 space-y-3">
                                     <div>
                                         <label htmlFor="confidence" className="block text-sm font-medium text-gray-300 mb-1">
-                                            Confidence Threshold
+                                            Confidence Threshold: <span className="font-mono">{confidenceThreshold}%</span>
                                         </label>
-                                        <input type="range" id="confidence" name="confidence" min="50" max="100" defaultValue="75" className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer" />
+                                        <input type="range" id="confidence" name="confidence" min="50" max="100" value={confidenceThreshold} onChange={(e) => setConfidenceThreshold(Number(e.target.value))} className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer" />
+                                        <p className="text-xs text-gray-500 mt-1">Results with a lower confidence are reported as Inconclusive.</p>
                                     </div>
                                     <div>
                                         <label className="block text-sm font-medium text-gray-300">
                                             Linguistic Cues to Focus On
                                         </label>
                                         <div className="mt-2 flex flex-wrap gap-x-4 gap-y-2">
-                                            {['Emotional Language', 'Source Citing', 'Bias Detection', 'Factuality'].map(cue => (
+                                            {ALL_CUES.map(cue => (
                                                 <label key={cue} className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
-                                                    <input type="checkbox" className="form-checkbox h-4 w-4 bg-gray-800 border-gray-600 text-brand-blue-light focus:ring-brand-blue-light rounded" />
-                                                    <span>{cue}</span>
+                                                    <input type="checkbox" checked={selectedCues.includes(cue)} onChange={() => toggleCue(cue)} className="form-checkbox h-4 w-4 bg-gray-800 border-gray-600 text-brand-blue-light focus:ring-brand-blue-light rounded" />
+                                                    <span>{CUE_LABELS[cue]}</span>
                                                 </label>
                                             ))}
                                         </div>
@@ -206,10 +403,11 @@ const NewsAnalyzer: React.FC = () => {
                     )}
                 </div>
 
-                {error && <div className="mt-4 text-center text-red-400 bg-red-900/50 p-3 rounded-lg">{error}</div>}
+                {!STANDALONE_MODES.includes(inputMode) && error && <ErrorBanner error={error} />}
                 
-                {result && <ResultDisplay 
+                {!STANDALONE_MODES.includes(inputMode) && result && <ResultDisplay 
                     result={result} 
+                    articleText={analyzedText}
                     onGetContext={handleGetContext}
                     isContextLoading={isContextLoading}
                     contextResult={contextResult}
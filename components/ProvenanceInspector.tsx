@@ -0,0 +1,203 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ImageAuthenticityAssessment } from '../types';
+import { assessImageAuthenticity } from '../services/geminiService';
+import { readImageMetadata, ImageMetadata } from '../services/imageMetadata';
+import { buildProvenanceReport, ProvenanceSignalKind } from '../services/provenance';
+import { blobToBase64 } from '../services/fileUtils';
+import { hasCapability } from '../services/providers';
+import { Spinner } from './Spinner';
+import { CLASSIFICATION_STYLES } from './VerdictBadge';
+import { ImageIcon } from './icons/ImageIcon';
+import { ErrorBanner } from './ErrorBanner';
+
+const SIGNAL_STYLES: Record<ProvenanceSignalKind, { label: string; style: string }> = {
+    aiGenerated: { label: 'AI', style: 'bg-red-800 text-red-200' },
+    edited: { label: 'Edited', style: 'bg-yellow-800 text-yellow-200' },
+    capture: { label: 'Camera', style: 'bg-green-800 text-green-200' },
+    info: { label: 'Info', style: 'bg-gray-600 text-gray-200' },
+};
+
+// Long generator settings in PNG text chunks are cut for display.
+const MAX_TEXT_CHUNK_LENGTH = 500;
+
+const MetadataTable: React.FC<{ title: string; rows: [string, string][] }> = ({ title, rows }) => (
+    rows.length === 0 ? null : (
+        <div>
+            <h6 className="font-semibold text-gray-300 mb-1">{title}</h6>
+            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+                {rows.map(([label, value], index) => (
+                    <React.Fragment key={index}>
+                        <dt className="text-gray-500">{label}</dt>
+                        <dd className="text-gray-300 break-all whitespace-pre-wrap">{value}</dd>
+                    </React.Fragment>
+                ))}
+            </dl>
+        </div>
+    )
+);
+
+const EmbeddedMetadata: React.FC<{ metadata: ImageMetadata }> = ({ metadata }) => {
+    const manifestRows = metadata.c2paManifests.flatMap((manifest, index): [string, string][] => [
+        [`Manifest ${index + 1}`, `${manifest.label}${index === metadata.c2paManifests.length - 1 ? ' (active)' : ''}`],
+        ['Generator', manifest.claimGenerator ?? 'Not stated'],
+        ...(manifest.title ? [['Title', manifest.title] as [string, string]] : []),
+        ['Assertions', manifest.assertions.join(', ') || 'None'],
+        ...manifest.actions.map((action): [string, string] => ['Action', [action.action, action.softwareAgent, action.digitalSourceType].filter(Boolean).join(' · ')]),
+    ]);
+    const xmpRows: [string, string][] = [
+        ...(metadata.xmp ? Object.entries<string>(metadata.xmp.properties) : []),
+        ...(metadata.xmp?.history ?? []).map((event): [string, string] => ['History', [event.action, event.softwareAgent, event.when].filter(Boolean).join(' · ')]),
+    ];
+    const exifRows: [string, string][] = [
+        ...(metadata.exif ? Object.entries<string>(metadata.exif) : []),
+        ...(metadata.gps ? [['GPS', `${metadata.gps.latitude.toFixed(5)}, ${metadata.gps.longitude.toFixed(5)}`] as [string, string]] : []),
+    ];
+    const textRows = Object.entries(metadata.textChunks).map(([key, value]: [string, string]): [string, string] =>
+        [key, value.length > MAX_TEXT_CHUNK_LENGTH ? `${value.slice(0, MAX_TEXT_CHUNK_LENGTH)}...` : value]);
+    const isEmpty = manifestRows.length + xmpRows.length + exifRows.length + textRows.length === 0;
+
+    return (
+        <details className="text-xs">
+            <summary className="cursor-pointer select-none text-gray-400 hover:text-white">Embedded metadata ({metadata.format.toUpperCase()})</summary>
+            <div className="mt-2 space-y-3">
+                {isEmpty && <p className="text-gray-500">The file contains no EXIF, XMP or C2PA metadata. Many sites strip it on upload.</p>}
+                <MetadataTable title="Content Credentials (C2PA)" rows={manifestRows} />
+                <MetadataTable title="EXIF" rows={exifRows} />
+                <MetadataTable title="XMP" rows={xmpRows} />
+                <MetadataTable title="PNG text" rows={textRows} />
+                {metadata.warnings.map((warning, index) => <p key={index} className="text-yellow-400">{warning}</p>)}
+            </div>
+        </details>
+    );
+};
+
+// Provenance report for an uploaded image. The embedded metadata is read locally as soon as
+// the file changes; the visual check calls the model and only runs on request.
+export const ProvenancePanel: React.FC<{ file: File; confidenceThreshold?: number }> = ({ file, confidenceThreshold }) => {
+    const [metadata, setMetadata] = useState<ImageMetadata | null>(null);
+    const [assessment, setAssessment] = useState<ImageAuthenticityAssessment | null>(null);
+    const [isAssessing, setIsAssessing] = useState<boolean>(false);
+    const [error, setError] = useState<string | Error | null>(null);
+    const fileRef = useRef(file);
+
+    useEffect(() => {
+        fileRef.current = file;
+        setMetadata(null);
+        setAssessment(null);
+        setError(null);
+        file.arrayBuffer()
+            .then(buffer => { if (fileRef.current === file) setMetadata(readImageMetadata(buffer)); })
+            .catch(e => console.error("Error reading image file:", e));
+    }, [file]);
+
+    const handleAssess = async () => {
+        setIsAssessing(true);
+        setError(null);
+        try {
+            const result = await assessImageAuthenticity(await blobToBase64(file), file.type);
+            if (fileRef.current === file) setAssessment(result);
+        } catch (e: any) {
+            setError(e);
+        } finally {
+            setIsAssessing(false);
+        }
+    };
+
+    if (!metadata) {
+        return <div className="mt-4 flex justify-center"><Spinner /></div>;
+    }
+
+    const report = buildProvenanceReport(metadata, assessment, confidenceThreshold);
+    const styles = CLASSIFICATION_STYLES[report.classification];
+
+    return (
+        <div className="mt-4 p-4 bg-gray-900/50 rounded-lg border border-gray-700 animate-fade-in space-y-3 text-left">
+            <div className="flex items-center justify-between">
+                <h4 className="font-semibold text-white">Provenance</h4>
+                <button
+                    onClick={handleAssess}
+                    disabled={isAssessing || !hasCapability('json')}
+                    className="flex items-center bg-gray-600 hover:bg-gray-500 text-white text-sm font-bold py-1 px-3 rounded-lg transition disabled:bg-gray-800 disabled:cursor-not-allowed"
+                >
+                    {isAssessing ? <Spinner /> : assessment ? 'Check Again' : 'Run Visual Check'}
+                </button>
+            </div>
+            <div className="flex items-center space-x-4">
+                <span className={`px-3 py-1 rounded-full text-white text-sm font-semibold ${styles.badge}`}>{report.classification}</span>
+                <div className="w-full bg-gray-700 rounded-full h-2">
+                    <div className={`h-2 rounded-full ${styles.bar} transition-all duration-500`} style={{ width: `${report.confidence}%` }}></div>
+                </div>
+                <span className="font-mono text-sm">{report.confidence}%</span>
+            </div>
+            <p className="text-xs text-gray-500">Real means an unaltered capture; Fake means AI-generated or manipulated.</p>
+            <p className="text-sm text-gray-300">{report.summary}</p>
+
+            {error && <ErrorBanner error={error} />}
+
+            {report.signals.length > 0 && (
+                <ul className="space-y-1">
+                    {report.signals.map((signal, index) => (
+                        <li key={index} className="flex items-start space-x-2 text-sm text-gray-300">
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-semibold flex-shrink-0 ${SIGNAL_STYLES[signal.kind].style}`}>{SIGNAL_STYLES[signal.kind].label}</span>
+                            <span><span className="text-gray-500">{signal.source}:</span> {signal.detail}</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {assessment && (
+                <div>
+                    <h5 className="text-sm font-semibold text-white mb-1">Visual Check</h5>
+                    <p className="text-sm text-gray-300">{assessment.explanation}</p>
+                    <ul className="mt-1 list-disc list-inside space-y-1 text-sm text-gray-400">
+                        {assessment.indicators.map((indicator, index) => <li key={index}>{indicator}</li>)}
+                    </ul>
+                </div>
+            )}
+
+            <EmbeddedMetadata metadata={metadata} />
+            <p className="text-xs text-gray-500">Metadata is read in your browser without uploading the file. Content credential signatures are not verified, and metadata can be stripped or forged.</p>
+        </div>
+    );
+};
+
+// The Analyzer's image mode: pick an image and get its provenance report.
+const ProvenanceInspector: React.FC<{ confidenceThreshold: number }> = ({ confidenceThreshold }) => {
+    const [imageFile, setImageFile] = useState<File | null>(null);
+    const [imagePreview, setImagePreview] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const selectImage = (file: File | undefined) => {
+        if (!file || !file.type.startsWith('image/')) return;
+        if (imagePreview) URL.revokeObjectURL(imagePreview);
+        setImageFile(file);
+        setImagePreview(URL.createObjectURL(file));
+    };
+
+    return (
+        <div>
+            <div
+                onClick={() => fileInputRef.current?.click()}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={(e) => { e.preventDefault(); selectImage(e.dataTransfer.files[0]); }}
+                className="flex justify-center w-full px-6 pt-5 pb-6 border-2 border-gray-600 border-dashed rounded-md cursor-pointer hover:border-brand-blue-light transition"
+            >
+                <div className="space-y-1 text-center">
+                    {imagePreview ? (
+                        <img src={imagePreview} alt="Image preview" className="mx-auto h-64 max-h-64 w-auto object-contain rounded-md" />
+                    ) : (
+                        <>
+                            <ImageIcon className="mx-auto h-12 w-12 text-gray-500" />
+                            <p className="text-sm text-gray-400">Click or drop an image to check where it came from</p>
+                            <p className="text-xs text-gray-500">JPG, PNG or WebP; use the original file where possible</p>
+                        </>
+                    )}
+                </div>
+            </div>
+            <input ref={fileInputRef} type="file" className="sr-only" accept="image/*" onChange={(e) => { selectImage(e.target.files?.[0]); e.target.value = ''; }} />
+            {imageFile && <ProvenancePanel file={imageFile} confidenceThreshold={confidenceThreshold} />}
+        </div>
+    );
+};
+
+export default ProvenanceInspector;
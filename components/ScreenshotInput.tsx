@@ -0,0 +1,175 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { PostEngagement, RedFlagSeverity, ScreenshotPost, VisualRedFlag } from '../types';
+import { extractScreenshotPost } from '../services/geminiService';
+import { blobToBase64 } from '../services/fileUtils';
+import { Spinner } from './Spinner';
+import { ImageIcon } from './icons/ImageIcon';
+import { ErrorBanner } from './ErrorBanner';
+
+const RED_FLAG_STYLES: Record<RedFlagSeverity, string> = {
+    low: 'bg-gray-600 text-gray-200',
+    medium: 'bg-yellow-800 text-yellow-200',
+    high: 'bg-red-800 text-red-200',
+};
+
+const ENGAGEMENT_FIELDS: [keyof PostEngagement, string][] = [['likes', 'Likes'], ['shares', 'Shares'], ['replies', 'Replies'], ['views', 'Views']];
+
+const INPUT_CLASSES = 'w-full p-2 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-brand-blue-light focus:border-brand-blue-light text-gray-200 text-sm';
+
+export const VisualRedFlagList: React.FC<{ flags: VisualRedFlag[] }> = ({ flags }) => (
+    flags.length === 0 ? (
+        <p className="text-sm text-gray-400">No signs of editing were found in the screenshot.</p>
+    ) : (
+        <ul className="space-y-2">
+            {flags.map((flag, index) => (
+                <li key={index} className="flex items-start space-x-2 text-sm text-gray-300">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-semibold uppercase flex-shrink-0 ${RED_FLAG_STYLES[flag.severity]}`}>{flag.severity}</span>
+                    <span>{flag.issue}</span>
+                </li>
+            ))}
+        </ul>
+    )
+);
+
+// Picks a screenshot, reads the post from it and lets the user correct the extraction.
+// `post` is null until a screenshot has been read.
+const ScreenshotInput: React.FC<{
+    post: ScreenshotPost | null;
+    onChange: (post: ScreenshotPost | null) => void;
+    disabled: boolean;
+}> = ({ post, onChange, disabled }) => {
+    const [imageFile, setImageFile] = useState<File | null>(null);
+    const [imagePreview, setImagePreview] = useState<string | null>(null);
+    const [isExtracting, setIsExtracting] = useState<boolean>(false);
+    const [error, setError] = useState<string | Error | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    // Revokes the previous preview when it is replaced and the last one on unmount.
+    useEffect(() => () => {
+        if (imagePreview) URL.revokeObjectURL(imagePreview);
+    }, [imagePreview]);
+
+    const selectImage = (file: File | undefined) => {
+        if (!file) return;
+        if (!file.type.startsWith('image/')) {
+            setError('Please choose an image file.');
+            return;
+        }
+        setImageFile(file);
+        setImagePreview(URL.createObjectURL(file));
+        setError(null);
+        onChange(null);
+    };
+
+    const handleExtract = async () => {
+        if (!imageFile) return;
+        setIsExtracting(true);
+        setError(null);
+        try {
+            const imageBase64 = await blobToBase64(imageFile);
+            onChange(await extractScreenshotPost(imageBase64, imageFile.type));
+        } catch (e: any) {
+            setError(e);
+        } finally {
+            setIsExtracting(false);
+        }
+    };
+
+    const update = (changes: Partial<ScreenshotPost>) => post && onChange({ ...post, ...changes });
+
+    const updateEngagement = (key: keyof PostEngagement, value: string) => {
+        if (!post) return;
+        const engagement = { ...post.engagement };
+        const count = parseInt(value, 10);
+        if (isNaN(count) || count < 0) {
+            delete engagement[key];
+        } else {
+            engagement[key] = count;
+        }
+        update({ engagement });
+    };
+
+    const isBusy = disabled || isExtracting;
+
+    return (
+        <div onPaste={(e) => !isBusy && selectImage(e.clipboardData.files[0])}>
+            <div
+                onClick={() => !isBusy && fileInputRef.current?.click()}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={(e) => {
+                    e.preventDefault();
+                    if (!isBusy) selectImage(e.dataTransfer.files[0]);
+                }}
+                className="flex justify-center w-full px-6 pt-5 pb-6 border-2 border-gray-600 border-dashed rounded-md cursor-pointer hover:border-brand-blue-light transition"
+            >
+                <div className="space-y-1 text-center">
+                    {imagePreview ? (
+                        <img src={imagePreview} alt="Screenshot preview" className="mx-auto h-64 max-h-64 w-auto object-contain rounded-md" />
+                    ) : (
+                        <>
+                            <ImageIcon className="mx-auto h-12 w-12 text-gray-500" />
+                            <p className="text-sm text-gray-400">Click, drop or paste a screenshot of a post</p>
+                            <p className="text-xs text-gray-500">PNG, JPG, etc.</p>
+                        </>
+                    )}
+                </div>
+            </div>
+            <input ref={fileInputRef} type="file" className="sr-only" accept="image/*" onChange={(e) => { selectImage(e.target.files?.[0]); e.target.value = ''; }} />
+
+            {imageFile && (
+                <button
+                    onClick={handleExtract}
+                    disabled={isBusy}
+                    className="mt-4 w-full flex items-center justify-center bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-lg transition duration-200 disabled:bg-gray-800 disabled:cursor-not-allowed"
+                >
+                    {isExtracting ? <><Spinner /><span className="ml-2">Reading screenshot...</span></> : post ? 'Read Again' : 'Read Post'}
+                </button>
+            )}
+
+            {error && <ErrorBanner error={error} />}
+
+            {post && (
+                <div className="mt-4 p-4 bg-gray-900/50 rounded-lg border border-gray-700 animate-fade-in space-y-3">
+                    <h4 className="font-semibold text-white">Extracted Post</h4>
+                    <p className="text-xs text-gray-500">Check the extraction against the screenshot and correct anything that was misread before analyzing.</p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <label className="text-sm text-gray-400">
+                            Author name
+                            <input type="text" value={post.authorName ?? ''} onChange={(e) => update({ authorName: e.target.value || null })} disabled={disabled} className={`mt-1 ${INPUT_CLASSES}`} />
+                        </label>
+                        <label className="text-sm text-gray-400">
+                            Handle
+                            <input type="text" value={post.authorHandle ?? ''} onChange={(e) => update({ authorHandle: e.target.value || null })} disabled={disabled} className={`mt-1 ${INPUT_CLASSES}`} />
+                        </label>
+                        <label className="text-sm text-gray-400">
+                            Platform
+                            <input type="text" value={post.platform ?? ''} onChange={(e) => update({ platform: e.target.value || null })} disabled={disabled} className={`mt-1 ${INPUT_CLASSES}`} />
+                        </label>
+                        <label className="text-sm text-gray-400">
+                            Posted
+                            <input type="text" value={post.postedAt ?? ''} onChange={(e) => update({ postedAt: e.target.value || null })} disabled={disabled} className={`mt-1 ${INPUT_CLASSES}`} />
+                        </label>
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        {ENGAGEMENT_FIELDS.map(([key, label]) => (
+                            <label key={key} className="text-sm text-gray-400">
+                                {label}
+                                <input type="number" min="0" value={post.engagement[key] ?? ''} onChange={(e) => updateEngagement(key, e.target.value)} disabled={disabled} className={`mt-1 ${INPUT_CLASSES}`} />
+                            </label>
+                        ))}
+                    </div>
+                    <label className="block text-sm text-gray-400">
+                        Post text
+                        <textarea value={post.text} onChange={(e) => update({ text: e.target.value })} disabled={disabled} className={`mt-1 h-32 resize-y ${INPUT_CLASSES}`} />
+                    </label>
+                    <div>
+                        <h5 className="text-sm font-semibold text-white mb-2">Visual Red Flags</h5>
+                        <VisualRedFlagList flags={post.visualRedFlags} />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ScreenshotInput;
@@ -0,0 +1,366 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Spinner } from './Spinner';
+import { ErrorBanner } from './ErrorBanner';
+import { AppError } from '../services/errors';
+import { downloadFile } from '../services/fileUtils';
+import { getProvider, VideoResolution } from '../services/providers';
+import { VideoJob } from '../services/videoJobs';
+import {
+    Storyboard, StoryboardShot, createShot, createStoryboard, frameSize, generateShot, loadStoryboard, moveShot,
+    saveStoryboard, storyboardSegments,
+} from '../services/storyboard';
+import { stitchVideos, stitchedFileExtension } from '../services/videoStitch';
+
+const SHOT_STATUS: Record<VideoJob['status'], string> = {
+    running: 'Generating...',
+    downloading: 'Downloading...',
+    done: 'Ready',
+    failed: 'Failed',
+    cancelled: 'Cancelled',
+};
+
+const needsGenerating = (job: VideoJob | undefined) => !job || job.status === 'failed' || job.status === 'cancelled';
+
+const closestDuration = (durations: number[], seconds: number): number =>
+    durations.reduce((best, d) => Math.abs(d - seconds) < Math.abs(best - seconds) ? d : best, durations[0]);
+
+const ShotCard: React.FC<{
+    shot: StoryboardShot;
+    index: number;
+    count: number;
+    job: VideoJob | undefined;
+    durations: number[];
+    disabled: boolean;
+    isStarting: boolean;
+    onChange: (changes: Partial<StoryboardShot>) => void;
+    onMove: (offset: number) => void;
+    onRemove: () => void;
+    onGenerate: () => void;
+}> = ({ shot, index, count, job, durations, disabled, isStarting, onChange, onMove, onRemove, onGenerate }) => {
+    const [keyframeUrl, setKeyframeUrl] = useState<string | null>(null);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        if (!shot.keyframe) {
+            setKeyframeUrl(null);
+            return;
+        }
+        const url = URL.createObjectURL(shot.keyframe.blob);
+        setKeyframeUrl(url);
+        return () => URL.revokeObjectURL(url);
+    }, [shot.keyframe]);
+
+    const isBusy = job?.status === 'running' || job?.status === 'downloading';
+
+    return (
+        <li className="p-4 bg-gray-900/50 rounded-lg border border-gray-700">
+            <div className="flex items-center gap-2 mb-3">
+                <h4 className="font-semibold text-white mr-auto">Shot {index + 1}</h4>
+                <span className={`text-xs ${job?.status === 'done' ? 'text-green-300' : job?.status === 'failed' ? 'text-red-400' : 'text-gray-400'}`}>
+                    {job ? SHOT_STATUS[job.status] : 'Not generated'}
+                </span>
+                <button onClick={() => onMove(-1)} disabled={disabled || index === 0} aria-label="Move shot up" className="px-2 text-gray-400 hover:text-white disabled:opacity-30">↑</button>
+                <button onClick={() => onMove(1)} disabled={disabled || index === count - 1} aria-label="Move shot down" className="px-2 text-gray-400 hover:text-white disabled:opacity-30">↓</button>
+                <button onClick={onRemove} disabled={disabled || count === 1} className="text-sm text-gray-400 hover:text-white disabled:opacity-30">Remove</button>
+            </div>
+            <input
+                type="text"
+                value={shot.title}
+                onChange={(e) => onChange({ title: e.target.value })}
+                placeholder="Title card before this shot (optional)"
+                aria-label={`Shot ${index + 1} title card`}
+                className="w-full p-2 mb-2 bg-gray-900 border border-gray-700 rounded-lg text-sm focus:ring-2 focus:ring-brand-blue-light"
+                disabled={disabled}
+            />
+            <div className="flex gap-3">
+                <button
+                    onClick={() => inputRef.current?.click()}
+                    disabled={disabled}
+                    title={shot.keyframe ? shot.keyframe.name : 'Add a keyframe image'}
+                    className="flex-shrink-0 w-24 h-24 flex items-center justify-center border-2 border-gray-600 border-dashed rounded-md hover:border-brand-blue-light transition overflow-hidden text-xs text-gray-500"
+                >
+                    {keyframeUrl ? <img src={keyframeUrl} alt="Keyframe" className="w-full h-full object-cover" /> : 'Keyframe (optional)'}
+                </button>
+                <input
+                    ref={inputRef}
+                    type="file"
+                    className="sr-only"
+                    accept="image/*"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        e.target.value = '';
+                        if (file) onChange({ keyframe: { name: file.name, blob: file } });
+                    }}
+                />
+                <textarea
+                    value={shot.prompt}
+                    onChange={(e) => onChange({ prompt: e.target.value })}
+                    placeholder="Describe the shot"
+                    aria-label={`Shot ${index + 1} prompt`}
+                    className="flex-1 h-24 p-2 bg-gray-900 border border-gray-700 rounded-lg text-sm focus:ring-2 focus:ring-brand-blue-light"
+                    disabled={disabled}
+                />
+            </div>
+            <div className="flex flex-wrap items-center gap-3 mt-2 text-sm">
+                <label className="flex items-center space-x-2 text-gray-400">
+                    <span>Duration</span>
+                    <select
+                        value={closestDuration(durations, shot.durationSeconds)}
+                        onChange={(e) => onChange({ durationSeconds: Number(e.target.value) })}
+                        className="p-1 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-brand-blue-light"
+                        disabled={disabled}
+                    >
+                        {durations.map(d => <option key={d} value={d}>{d}s</option>)}
+                    </select>
+                </label>
+                {shot.keyframe && (
+                    <button onClick={() => onChange({ keyframe: undefined })} disabled={disabled} className="text-gray-400 hover:text-white">Remove keyframe</button>
+                )}
+                <button
+                    onClick={onGenerate}
+                    disabled={disabled || isBusy || (!shot.prompt.trim() && !shot.keyframe)}
+                    className="ml-auto text-brand-blue-light hover:underline disabled:text-gray-600 disabled:no-underline disabled:cursor-not-allowed"
+                >
+                    {isStarting ? 'Starting...' : job ? 'Regenerate' : 'Generate'}
+                </button>
+            </div>
+            {job?.error && <p className="mt-1 text-xs text-red-400">{job.error}</p>}
+        </li>
+    );
+};
+
+// Builds a multi-shot video: each shot is generated as a video job, then the clips are joined
+// with optional title cards in the browser.
+const StoryboardEditor: React.FC<{
+    jobs: VideoJob[];
+    onAuthError: () => void;
+}> = ({ jobs, onAuthError }) => {
+    const videoModels = getProvider().videoModels;
+
+    const [storyboard, setStoryboard] = useState<Storyboard | null>(null);
+    const [startingShots, setStartingShots] = useState<string[]>([]);
+    const [error, setError] = useState<string | Error | null>(null);
+    // The segment being recorded while stitching.
+    const [stitchProgress, setStitchProgress] = useState<{ segment: number; total: number } | null>(null);
+    const [stitched, setStitched] = useState<{ blob: Blob; url: string } | null>(null);
+    const stitchAbortRef = useRef<AbortController | null>(null);
+
+    useEffect(() => {
+        loadStoryboard()
+            .then(saved => setStoryboard(saved ?? createStoryboard(videoModels[0])))
+            .catch((e: any) => {
+                setError(e);
+                setStoryboard(createStoryboard(videoModels[0]));
+            });
+        return () => stitchAbortRef.current?.abort();
+    }, []);
+
+    useEffect(() => () => {
+        if (stitched) URL.revokeObjectURL(stitched.url);
+    }, [stitched]);
+
+    if (!storyboard) {
+        return <div className="flex justify-center py-8"><Spinner /></div>;
+    }
+
+    const model = videoModels.find(m => m.id === storyboard.model) ?? videoModels[0];
+    const jobOf = (shot: StoryboardShot) => jobs.find(job => job.id === shot.jobId);
+    const isStitching = stitchProgress !== null;
+    const allReady = storyboard.shots.every(shot => jobOf(shot)?.status === 'done');
+    const toGenerate = storyboard.shots.filter(shot => needsGenerating(jobOf(shot)) && (shot.prompt.trim() || shot.keyframe));
+
+    const update = (change: (storyboard: Storyboard) => Storyboard) => {
+        setStoryboard(prev => {
+            if (!prev) return prev;
+            const next = change(prev);
+            saveStoryboard(next).catch((e: any) => setError(e));
+            return next;
+        });
+    };
+
+    const updateShot = (id: string, changes: Partial<StoryboardShot>) =>
+        update(sb => ({ ...sb, shots: sb.shots.map(shot => shot.id === id ? { ...shot, ...changes } : shot) }));
+
+    const handleModelChange = (id: string) => {
+        const next = videoModels.find(m => m.id === id);
+        if (!next) return;
+        update(sb => ({
+            ...sb,
+            model: next.id,
+            resolution: next.resolutions.includes(sb.resolution) ? sb.resolution : next.resolutions[0],
+            shots: sb.shots.map(shot => ({ ...shot, durationSeconds: closestDuration(next.durations, shot.durationSeconds) })),
+        }));
+    };
+
+    const generate = async (shots: StoryboardShot[]) => {
+        setError(null);
+        setStartingShots(shots.map(shot => shot.id));
+        try {
+            for (const shot of shots) {
+                const jobId = await generateShot(storyboard, { ...shot, durationSeconds: closestDuration(model.durations, shot.durationSeconds) });
+                updateShot(shot.id, { jobId });
+                setStartingShots(ids => ids.filter(id => id !== shot.id));
+            }
+        } catch (e: any) {
+            setError(e);
+            if (e instanceof AppError && e.code === 'auth') {
+                onAuthError();
+            }
+        } finally {
+            setStartingShots([]);
+        }
+    };
+
+    const handleStitch = async () => {
+        const controller = new AbortController();
+        stitchAbortRef.current = controller;
+        setError(null);
+        setStitched(null);
+        try {
+            const segments = await storyboardSegments(storyboard, jobs);
+            setStitchProgress({ segment: 0, total: segments.length });
+            const blob = await stitchVideos(segments, {
+                ...frameSize(storyboard.resolution, storyboard.aspectRatio),
+                signal: controller.signal,
+                onProgress: (segment) => setStitchProgress({ segment, total: segments.length }),
+            });
+            setStitched({ blob, url: URL.createObjectURL(blob) });
+        } catch (e: any) {
+            if (!controller.signal.aborted) setError(e);
+        } finally {
+            setStitchProgress(null);
+            stitchAbortRef.current = null;
+        }
+    };
+
+    const selectClass = "w-full p-3 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-brand-blue-light";
+    const busy = startingShots.length > 0 || isStitching;
+
+    return (
+        <div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                <div>
+                    <label htmlFor="storyboardModel" className="block text-sm font-medium text-gray-300 mb-2">Model</label>
+                    <select id="storyboardModel" value={model.id} onChange={(e) => handleModelChange(e.target.value)} className={selectClass} disabled={busy}>
+                        {videoModels.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="storyboardResolution" className="block text-sm font-medium text-gray-300 mb-2">Resolution</label>
+                    <select
+                        id="storyboardResolution"
+                        value={storyboard.resolution}
+                        onChange={(e) => update(sb => ({ ...sb, resolution: e.target.value as VideoResolution }))}
+                        className={selectClass}
+                        disabled={busy || model.resolutions.length < 2}
+                    >
+                        {model.resolutions.map(r => <option key={r} value={r}>{r}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="storyboardAspectRatio" className="block text-sm font-medium text-gray-300 mb-2">Aspect Ratio</label>
+                    <select
+                        id="storyboardAspectRatio"
+                        value={storyboard.aspectRatio}
+                        onChange={(e) => update(sb => ({ ...sb, aspectRatio: e.target.value as Storyboard['aspectRatio'] }))}
+                        className={selectClass}
+                        disabled={busy}
+                    >
+                        <option value="16:9">Landscape (16:9)</option>
+                        <option value="9:16">Portrait (9:16)</option>
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="titleCardSeconds" className="block text-sm font-medium text-gray-300 mb-2">Title Cards</label>
+                    <select
+                        id="titleCardSeconds"
+                        value={storyboard.titleCardSeconds}
+                        onChange={(e) => update(sb => ({ ...sb, titleCardSeconds: Number(e.target.value) }))}
+                        className={selectClass}
+                        disabled={busy}
+                    >
+                        {[1, 2, 3, 4, 5].map(s => <option key={s} value={s}>{s}s each</option>)}
+                    </select>
+                </div>
+            </div>
+            <p className="text-xs text-gray-500 mb-4">Changing these settings applies to shots generated afterwards.</p>
+
+            <ol className="space-y-3">
+                {storyboard.shots.map((shot, index) => (
+                    <ShotCard
+                        key={shot.id}
+                        shot={shot}
+                        index={index}
+                        count={storyboard.shots.length}
+                        job={jobOf(shot)}
+                        durations={model.durations}
+                        disabled={busy}
+                        isStarting={startingShots.includes(shot.id)}
+                        onChange={(changes) => updateShot(shot.id, changes)}
+                        onMove={(offset) => update(sb => ({ ...sb, shots: moveShot(sb.shots, index, offset) }))}
+                        onRemove={() => update(sb => ({ ...sb, shots: sb.shots.filter(s => s.id !== shot.id) }))}
+                        onGenerate={() => generate([shot])}
+                    />
+                ))}
+            </ol>
+            <button
+                onClick={() => update(sb => ({ ...sb, shots: [...sb.shots, createShot(model.durations[model.durations.length - 1])] }))}
+                disabled={busy}
+                className="mt-3 w-full py-2 border-2 border-gray-600 border-dashed rounded-lg text-sm text-gray-400 hover:border-brand-blue-light hover:text-white transition disabled:cursor-not-allowed"
+            >
+                + Add Shot
+            </button>
+
+            <div className="mt-6 grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <button
+                    onClick={() => generate(toGenerate)}
+                    disabled={busy || toGenerate.length === 0}
+                    className="w-full flex items-center justify-center bg-brand-blue-light hover:bg-brand-blue text-white font-bold py-3 px-4 rounded-lg transition disabled:bg-gray-600 disabled:cursor-not-allowed"
+                >
+                    {startingShots.length > 0 ? <Spinner /> : `Generate ${toGenerate.length === 1 ? '1 Shot' : `${toGenerate.length} Shots`}`}
+                </button>
+                {isStitching ? (
+                    <button
+                        onClick={() => stitchAbortRef.current?.abort()}
+                        className="w-full flex items-center justify-center bg-gray-600 hover:bg-gray-500 text-white font-bold py-3 px-4 rounded-lg transition"
+                    >
+                        Cancel Stitching ({stitchProgress.segment + 1}/{stitchProgress.total})
+                    </button>
+                ) : (
+                    <button
+                        onClick={handleStitch}
+                        disabled={busy || !allReady}
+                        title={allReady ? undefined : 'Every shot needs a finished clip first'}
+                        className="w-full flex items-center justify-center bg-gray-600 hover:bg-gray-500 text-white font-bold py-3 px-4 rounded-lg transition disabled:bg-gray-800 disabled:cursor-not-allowed"
+                    >
+                        Stitch Video
+                    </button>
+                )}
+            </div>
+            {isStitching && (
+                <p className="mt-2 text-sm text-gray-500 text-center">
+                    The video is recorded as it plays, so this takes as long as the video. Keep this tab visible until it finishes.
+                </p>
+            )}
+
+            {error && <ErrorBanner error={error} />}
+
+            {stitched && (
+                <div className="mt-6">
+                    <div className="flex items-center justify-between mb-4">
+                        <h3 className="text-xl font-bold">Storyboard Video</h3>
+                        <button
+                            onClick={() => downloadFile(stitched.blob, `storyboard.${stitchedFileExtension(stitched.blob)}`, stitched.blob.type)}
+                            className="text-sm text-brand-blue-light hover:underline"
+                        >
+                            Download
+                        </button>
+                    </div>
+                    <video src={stitched.url} controls className="rounded-lg shadow-lg w-full" />
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default StoryboardEditor;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { ChatToolCall, ToolCallStatus } from '../types';
+import { CHAT_TOOLS } from '../services/tools';
+import { Spinner } from './Spinner';
+
+const STATUS_LABELS: Record<ToolCallStatus, string> = {
+    running: 'Running...',
+    awaitingConfirmation: 'Needs your approval',
+    done: 'Done',
+    denied: 'Skipped',
+    error: 'Failed',
+};
+
+const STATUS_STYLES: Record<ToolCallStatus, string> = {
+    running: 'text-gray-300',
+    awaitingConfirmation: 'text-yellow-400',
+    done: 'text-green-400',
+    denied: 'text-gray-400',
+    error: 'text-red-400',
+};
+
+export const ToolCallCard: React.FC<{
+    call: ChatToolCall;
+    onConfirm: (id: string, approved: boolean) => void;
+}> = ({ call, onConfirm }) => {
+    const label = CHAT_TOOLS.find(tool => tool.name === call.name)?.label ?? call.name;
+    return (
+        <div className="mb-2 p-2 rounded-lg bg-gray-800 border border-gray-600 text-xs">
+            <div className="flex items-center justify-between">
+                <span className="font-semibold text-gray-200">{label}</span>
+                <span className={`flex items-center ${STATUS_STYLES[call.status]}`}>
+                    {call.status === 'running' && <span className="mr-1 scale-75"><Spinner /></span>}
+                    {STATUS_LABELS[call.status]}
+                </span>
+            </div>
+            <details className="mt-1 text-gray-400">
+                <summary className="cursor-pointer select-none">Arguments</summary>
+                <pre className="mt-1 whitespace-pre-wrap break-words">{JSON.stringify(call.args, null, 2)}</pre>
+            </details>
+            {call.summary && <p className="mt-1 text-gray-300">{call.summary}</p>}
+            {call.error && <p className="mt-1 text-red-400">{call.error}</p>}
+            {call.imageUrl && <img src={call.imageUrl} alt={String(call.args.prompt ?? label)} className="mt-2 rounded-lg max-h-64" />}
+            {call.status === 'awaitingConfirmation' && (
+                <div className="flex space-x-2 mt-2">
+                    <button onClick={() => onConfirm(call.id, true)} className="bg-brand-blue-light hover:bg-brand-blue text-white font-bold py-1 px-3 rounded-lg transition">
+                        Run
+                    </button>
+                    <button onClick={() => onConfirm(call.id, false)} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-1 px-3 rounded-lg transition">
+                        Skip
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
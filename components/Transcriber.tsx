@@ -1,21 +1,96 @@
-import React, { useState, useRef } from 'react';
-import { transcribeAudio } from '../services/geminiService';
+import React, { useState, useRef, useEffect } from 'react';
 import { Spinner } from './Spinner';
 import { MicrophoneIcon } from './icons/MicrophoneIcon';
 import { StopIcon } from './icons/StopIcon';
+import { AudioWaveIcon } from './icons/AudioWaveIcon';
+import { ErrorBanner } from './ErrorBanner';
+import { TranscriptEditor } from './TranscriptEditor';
+import { TranscriptSegment } from '../types';
+import { AudioChunk, ChunkProgress, ChunkStatus, formatChunkRange, transcribeFile, transcribeFileSegments } from '../services/transcription';
+
+type SourceMode = 'record' | 'upload';
+
+const SOURCE_MODES: [SourceMode, string][] = [['record', 'Record'], ['upload', 'Upload File']];
+
+type OutputMode = 'text' | 'segments';
+
+const OUTPUT_MODES: [OutputMode, string][] = [['text', 'Plain Text'], ['segments', 'Timestamped']];
+
+const CHUNK_STYLES: Record<ChunkStatus, string> = {
+    pending: 'bg-gray-800 text-gray-400',
+    running: 'bg-blue-900/60 text-blue-300 animate-pulse',
+    done: 'bg-green-900/60 text-green-300',
+    error: 'bg-red-900/60 text-red-300',
+    cancelled: 'bg-gray-700 text-gray-400',
+};
+
+const formatSize = (bytes: number): string =>
+    bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
 
 const Transcriber: React.FC = () => {
+    const [mode, setMode] = useState<SourceMode>('record');
     const [isRecording, setIsRecording] = useState<boolean>(false);
     const [isLoading, setIsLoading] = useState<boolean>(false);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<string | Error | null>(null);
     const [transcription, setTranscription] = useState<string>('');
+    const [file, setFile] = useState<File | null>(null);
+    const [isDragging, setIsDragging] = useState<boolean>(false);
+    const [progress, setProgress] = useState<ChunkProgress[]>([]);
+    const [output, setOutput] = useState<OutputMode>('text');
+    const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+    // The recording the segments were transcribed from, for playback.
+    const [media, setMedia] = useState<{ url: string; isVideo: boolean } | null>(null);
 
     const mediaRecorderRef = useRef<MediaRecorder | null>(null);
     const audioChunksRef = useRef<Blob[]>([]);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const abortRef = useRef<AbortController | null>(null);
 
-    const handleStartRecording = async () => {
+    useEffect(() => () => {
+        if (media) URL.revokeObjectURL(media.url);
+    }, [media]);
+
+    const clearResults = () => {
         setError(null);
         setTranscription('');
+        setSegments([]);
+        setMedia(null);
+        setProgress([]);
+    };
+
+    const runTranscription = async (audio: Blob) => {
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setIsLoading(true);
+        clearResults();
+        try {
+            const options = { signal: controller.signal, onUpdate: setProgress };
+            let failedChunks: AudioChunk[];
+            if (output === 'segments') {
+                const result = await transcribeFileSegments(audio, options);
+                setSegments(result.segments);
+                setMedia({ url: URL.createObjectURL(audio), isVideo: audio.type.startsWith('video/') });
+                failedChunks = result.failedChunks;
+            } else {
+                const result = await transcribeFile(audio, options);
+                setTranscription(result.text);
+                failedChunks = result.failedChunks;
+            }
+            if (controller.signal.aborted) {
+                setError('Transcription was cancelled; only the parts finished before then are shown.');
+            } else if (failedChunks.length > 0) {
+                setError(`${failedChunks.length} of the parts could not be transcribed (${failedChunks.map(formatChunkRange).join(', ')}). They are marked in the transcript.`);
+            }
+        } catch (e: any) {
+            setError(e);
+        } finally {
+            setIsLoading(false);
+            abortRef.current = null;
+        }
+    };
+
+    const handleStartRecording = async () => {
+        clearResults();
         if (navigator.mediaDevices && navigator.mediaDevices.getUserMedia) {
             try {
                 const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
@@ -26,30 +101,11 @@ const Transcriber: React.FC = () => {
                     audioChunksRef.current.push(event.data);
                 };
 
-                mediaRecorderRef.current.onstop = async () => {
-                    setIsLoading(true);
-                    const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
-                    
-                    const reader = new FileReader();
-                    reader.readAsDataURL(audioBlob);
-                    reader.onloadend = async () => {
-                        try {
-                            const resultStr = reader.result as string;
-                            if (!resultStr || !resultStr.includes(',')) {
-                                throw new Error("Failed to read audio data correctly.");
-                            }
-                            const base64Audio = resultStr.split(',')[1];
-                            const result = await transcribeAudio(base64Audio, 'audio/webm');
-                            setTranscription(result);
-                        } catch (e: any) {
-                             setError(e.message || 'An unknown error occurred during transcription.');
-                        } finally {
-                            setIsLoading(false);
-                        }
-                    };
-                    
+                mediaRecorderRef.current.onstop = () => {
+                    const type = mediaRecorderRef.current?.mimeType.split(';')[0] || 'audio/webm';
                     // Stop all tracks to release the microphone
                     stream.getTracks().forEach(track => track.stop());
+                    runTranscription(new Blob(audioChunksRef.current, { type }));
                 };
 
                 mediaRecorderRef.current.start();
@@ -62,7 +118,7 @@ const Transcriber: React.FC = () => {
             setError('Audio recording is not supported by your browser.');
         }
     };
-    
+
     const handleStopRecording = () => {
         if (mediaRecorderRef.current) {
             mediaRecorderRef.current.stop();
@@ -70,6 +126,18 @@ const Transcriber: React.FC = () => {
         }
     };
 
+    const selectFile = (selected: File | undefined) => {
+        if (!selected) return;
+        if (!selected.type.startsWith('audio/') && !selected.type.startsWith('video/')) {
+            setError('Please choose an audio or video file.');
+            return;
+        }
+        setFile(selected);
+        setError(null);
+    };
+
+    const doneCount = progress.filter(p => p.status === 'done').length;
+
     return (
          <div className="p-6 bg-brand-gray-dark rounded-xl shadow-2xl border border-white/10 max-w-4xl mx-auto">
             <h2 className="text-2xl font-bold mb-4 text-white flex items-center">
@@ -77,34 +145,130 @@ const Transcriber: React.FC = () => {
                 Audio Transcriber
             </h2>
             <p className="text-gray-400 mb-6">
-                Click the record button to start capturing audio from your microphone. Click stop when you're done.
+                Record from your microphone or upload an audio or video file. Long recordings are split into parts that are transcribed in parallel and joined back together. Choose Timestamped for a transcript split by speaker that you can edit against the recording and export as subtitles.
             </p>
 
-            <div className="flex justify-center items-center space-x-4">
-                <button
-                    onClick={handleStartRecording}
-                    disabled={isRecording || isLoading}
-                    className="flex items-center justify-center bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-6 rounded-lg transition disabled:bg-gray-600 disabled:cursor-not-allowed"
-                >
-                    <MicrophoneIcon className="w-6 h-6 mr-2" />
-                    Record
-                </button>
-                <button
-                    onClick={handleStopRecording}
-                    disabled={!isRecording || isLoading}
-                    className="flex items-center justify-center bg-red-600 hover:bg-red-700 text-white font-bold py-3 px-6 rounded-lg transition disabled:bg-gray-600 disabled:cursor-not-allowed"
-                >
-                    <StopIcon className="w-6 h-6 mr-2" />
-                    Stop
-                </button>
+            <div className="flex flex-wrap justify-between gap-2 mb-4">
+                <div className="flex space-x-2">
+                    {SOURCE_MODES.map(([value, label]) => (
+                        <button
+                            key={value}
+                            onClick={() => setMode(value)}
+                            disabled={isRecording || isLoading}
+                            className={`px-4 py-1.5 text-sm font-medium rounded-lg transition-colors ${mode === value ? 'bg-brand-blue-light text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex space-x-2">
+                    {OUTPUT_MODES.map(([value, label]) => (
+                        <button
+                            key={value}
+                            onClick={() => setOutput(value)}
+                            disabled={isRecording || isLoading}
+                            className={`px-4 py-1.5 text-sm font-medium rounded-lg transition-colors ${output === value ? 'bg-brand-blue-light text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
             </div>
-            
+
+            {mode === 'record' ? (
+                <div className="flex justify-center items-center space-x-4">
+                    <button
+                        onClick={handleStartRecording}
+                        disabled={isRecording || isLoading}
+                        className="flex items-center justify-center bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-6 rounded-lg transition disabled:bg-gray-600 disabled:cursor-not-allowed"
+                    >
+                        <MicrophoneIcon className="w-6 h-6 mr-2" />
+                        Record
+                    </button>
+                    <button
+                        onClick={handleStopRecording}
+                        disabled={!isRecording || isLoading}
+                        className="flex items-center justify-center bg-red-600 hover:bg-red-700 text-white font-bold py-3 px-6 rounded-lg transition disabled:bg-gray-600 disabled:cursor-not-allowed"
+                    >
+                        <StopIcon className="w-6 h-6 mr-2" />
+                        Stop
+                    </button>
+                </div>
+            ) : (
+                <div>
+                    <div
+                        onClick={() => !isLoading && fileInputRef.current?.click()}
+                        onDragOver={(e) => {
+                            e.preventDefault();
+                            setIsDragging(true);
+                        }}
+                        onDragLeave={() => setIsDragging(false)}
+                        onDrop={(e) => {
+                            e.preventDefault();
+                            setIsDragging(false);
+                            if (!isLoading) selectFile(e.dataTransfer.files[0]);
+                        }}
+                        className={`flex justify-center w-full px-6 pt-5 pb-6 border-2 border-dashed rounded-md cursor-pointer hover:border-brand-blue-light transition ${isDragging ? 'border-brand-blue-light' : 'border-gray-600'}`}
+                    >
+                        <div className="space-y-1 text-center">
+                            <AudioWaveIcon className="mx-auto h-12 w-12 text-gray-500" />
+                            {file ? (
+                                <p className="text-sm text-gray-200">{file.name} <span className="text-gray-500">({formatSize(file.size)})</span></p>
+                            ) : (
+                                <p className="text-sm text-gray-400">Click to choose a file or drop it here</p>
+                            )}
+                            <p className="text-xs text-gray-500">MP3, WAV, M4A, OGG, WebM, MP4 and other formats your browser can play</p>
+                        </div>
+                    </div>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        className="sr-only"
+                        accept="audio/*,video/*"
+                        onChange={(e) => {
+                            selectFile(e.target.files?.[0]);
+                            e.target.value = '';
+                        }}
+                    />
+                    <button
+                        onClick={() => file && runTranscription(file)}
+                        disabled={!file || isLoading}
+                        className="mt-4 w-full flex items-center justify-center bg-brand-blue-light hover:bg-brand-blue text-white font-bold py-3 px-4 rounded-lg transition disabled:bg-gray-600 disabled:cursor-not-allowed"
+                    >
+                        {isLoading ? <Spinner /> : 'Transcribe File'}
+                    </button>
+                </div>
+            )}
+
+            {progress.length > 1 && (
+                <div className="mt-6">
+                    <div className="flex items-center justify-between mb-2 text-sm">
+                        <span className="text-gray-300">{doneCount} of {progress.length} parts transcribed</span>
+                        {isLoading && (
+                            <button onClick={() => abortRef.current?.abort()} className="text-gray-400 hover:text-white">Cancel</button>
+                        )}
+                    </div>
+                    <div className="w-full h-2 bg-gray-700 rounded-full overflow-hidden mb-3">
+                        <div className="h-full bg-brand-blue-light transition-all" style={{ width: `${(doneCount / progress.length) * 100}%` }} />
+                    </div>
+                    <ul className="flex flex-wrap gap-2">
+                        {progress.map(({ chunk, status, error: chunkError }) => (
+                            <li key={chunk.index} title={chunkError ?? status} className={`px-2 py-1 rounded text-xs font-mono ${CHUNK_STYLES[status]}`}>
+                                {formatChunkRange(chunk)}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
             <div className="mt-6 min-h-[200px] p-4 bg-gray-900 border border-gray-700 rounded-lg">
                 {isLoading ? (
                     <div className="flex flex-col items-center justify-center text-gray-400 h-full">
                         <Spinner />
-                        <p className="mt-2">Transcribing audio...</p>
+                        <p className="mt-2">{progress.length > 1 ? 'Transcribing audio in parts...' : 'Transcribing audio...'}</p>
                     </div>
+                ) : segments.length > 0 && media ? (
+                    <TranscriptEditor segments={segments} onChange={setSegments} audioUrl={media.url} isVideo={media.isVideo} />
                 ) : (
                     <>
                         <h3 className="font-semibold text-lg mb-2">Transcription:</h3>
@@ -115,9 +279,9 @@ const Transcriber: React.FC = () => {
                 )}
             </div>
 
-            {error && <div className="mt-4 text-center text-red-400 bg-red-900/50 p-3 rounded-lg">{error}</div>}
+            {error && <ErrorBanner error={error} />}
         </div>
     );
 };
 
-export default Transcriber;
\ No newline at end of file
+export default Transcriber;
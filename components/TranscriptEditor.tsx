@@ -0,0 +1,117 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TranscriptSegment } from '../types';
+import { downloadFile } from '../services/fileUtils';
+import { TRANSCRIPT_FORMATS, TranscriptFormat, exportTranscript, formatTime } from '../services/transcription';
+
+interface TranscriptEditorProps {
+    segments: TranscriptSegment[];
+    onChange: (segments: TranscriptSegment[]) => void;
+    // The transcribed recording; segments seek it when clicked and follow it while it plays.
+    audioUrl: string;
+    isVideo?: boolean;
+}
+
+// Segments below this confidence are flagged for review.
+const LOW_CONFIDENCE = 0.6;
+
+export const TranscriptEditor: React.FC<TranscriptEditorProps> = ({ segments, onChange, audioUrl, isVideo = false }) => {
+    const playerRef = useRef<HTMLMediaElement | null>(null);
+    const activeRef = useRef<HTMLLIElement>(null);
+    const [currentTime, setCurrentTime] = useState<number>(0);
+    const [format, setFormat] = useState<TranscriptFormat>('srt');
+
+    const activeIndex = segments.findIndex(segment => currentTime >= segment.start && currentTime < segment.end);
+    const speakers = [...new Set(segments.map(segment => segment.speaker).filter(Boolean))];
+
+    useEffect(() => {
+        activeRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }, [activeIndex]);
+
+    const seek = (seconds: number) => {
+        const player = playerRef.current;
+        if (!player) return;
+        player.currentTime = seconds;
+        player.play().catch(() => undefined);
+    };
+
+    const updateSegment = (index: number, changes: Partial<TranscriptSegment>) => {
+        onChange(segments.map((segment, i) => (i === index ? { ...segment, ...changes } : segment)));
+    };
+
+    const handleExport = () => {
+        const { mimeType } = TRANSCRIPT_FORMATS[format];
+        downloadFile(exportTranscript(segments, format), `transcript.${format}`, mimeType);
+    };
+
+    const playerProps = {
+        src: audioUrl,
+        controls: true,
+        onTimeUpdate: (e: React.SyntheticEvent<HTMLMediaElement>) => setCurrentTime(e.currentTarget.currentTime),
+    };
+
+    return (
+        <div className="space-y-4">
+            {isVideo
+                ? <video ref={el => { playerRef.current = el; }} {...playerProps} className="w-full max-h-64 rounded-lg bg-black" />
+                : <audio ref={el => { playerRef.current = el; }} {...playerProps} className="w-full" />}
+
+            <ul className="max-h-[28rem] overflow-y-auto space-y-2 pr-1">
+                {segments.map((segment, index) => (
+                    <li
+                        key={index}
+                        ref={index === activeIndex ? activeRef : undefined}
+                        className={`p-3 rounded-lg border transition-colors ${index === activeIndex ? 'border-brand-blue-light bg-brand-blue/10' : 'border-gray-700 bg-gray-800/50'}`}
+                    >
+                        <div className="flex items-center gap-2 mb-2 text-xs">
+                            <button
+                                onClick={() => seek(segment.start)}
+                                title="Play from here"
+                                className="font-mono text-brand-blue-light hover:underline"
+                            >
+                                {formatTime(segment.start)}–{formatTime(segment.end)}
+                            </button>
+                            <input
+                                value={segment.speaker}
+                                onChange={(e) => updateSegment(index, { speaker: e.target.value })}
+                                list="transcript-speakers"
+                                placeholder="Speaker"
+                                className="w-32 px-2 py-1 bg-gray-900 border border-gray-700 rounded focus:ring-2 focus:ring-brand-blue-light"
+                            />
+                            <span className={`ml-auto ${segment.confidence < LOW_CONFIDENCE ? 'text-yellow-400' : 'text-gray-500'}`} title="Model confidence">
+                                {Math.round(segment.confidence * 100)}%
+                            </span>
+                        </div>
+                        <textarea
+                            value={segment.text}
+                            onChange={(e) => updateSegment(index, { text: e.target.value })}
+                            rows={Math.max(1, Math.ceil(segment.text.length / 90))}
+                            className="w-full p-2 bg-gray-900 border border-gray-700 rounded-lg text-gray-200 text-sm focus:ring-2 focus:ring-brand-blue-light resize-y"
+                        />
+                    </li>
+                ))}
+            </ul>
+            <datalist id="transcript-speakers">
+                {speakers.map(speaker => <option key={speaker} value={speaker} />)}
+            </datalist>
+
+            <div className="flex items-center gap-2">
+                <select
+                    value={format}
+                    onChange={(e) => setFormat(e.target.value as TranscriptFormat)}
+                    className="flex-grow p-3 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-brand-blue-light"
+                >
+                    {Object.entries(TRANSCRIPT_FORMATS).map(([value, { label }]) => (
+                        <option key={value} value={value}>{label} (.{value})</option>
+                    ))}
+                </select>
+                <button
+                    onClick={handleExport}
+                    disabled={segments.length === 0}
+                    className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-3 px-4 rounded-lg transition disabled:bg-gray-800 disabled:cursor-not-allowed"
+                >
+                    Export
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,15 @@
+import React from 'react';
+import { Classification } from '../types';
+
+export const CLASSIFICATION_STYLES: Record<Classification, { badge: string; bar: string; text: string }> = {
+    Real: { badge: 'bg-green-600', bar: 'bg-green-500', text: 'text-green-400' },
+    Fake: { badge: 'bg-red-600', bar: 'bg-red-500', text: 'text-red-400' },
+    Inconclusive: { badge: 'bg-yellow-600', bar: 'bg-yellow-500', text: 'text-yellow-400' },
+};
+
+export const VerdictBadge: React.FC<{ classification: Classification; confidence?: number }> = ({ classification, confidence }) => (
+    <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold text-white whitespace-nowrap ${CLASSIFICATION_STYLES[classification].badge}`}>
+        {classification}
+        {confidence !== undefined && <span className="ml-1 font-mono opacity-80">{confidence}%</span>}
+    </span>
+);
@@ -1,9 +1,16 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { generateVideo } from '../services/geminiService';
 import { Spinner } from './Spinner';
 import { SparklesIcon } from './icons/SparklesIcon';
 import { VideoIcon } from './icons/VideoIcon';
 import { ImageIcon } from './icons/ImageIcon';
+import { ErrorBanner } from './ErrorBanner';
+import { ProvenancePanel } from './ProvenanceInspector';
+import { blobToBase64 } from '../services/fileUtils';
+import { AppError } from '../services/errors';
+import { getProvider, VideoResolution } from '../services/providers';
+import { VideoJob, VideoJobSource, getVideoBlob, listVideoJobs, startVideoJobs, subscribeToVideoJobs } from '../services/videoJobs';
+import { VideoJobQueue, VideoRef } from './VideoJobQueue';
+import StoryboardEditor from './StoryboardEditor';
 
 // Fix: Resolve conflicting global type for `window.aistudio`.
 // The original inline type for `aistudio` conflicted with an existing global
@@ -17,34 +24,100 @@ declare global {
     }
 }
 
-const blobToBase64 = (blob: Blob): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-            if (typeof reader.result === 'string') {
-                resolve(reader.result.split(',')[1]);
-            } else {
-                reject(new Error("Failed to read blob as base64 string."));
-            }
-        };
-        reader.onerror = reject;
-        reader.readAsDataURL(blob);
-    });
+const MAX_VARIATIONS = 4;
+
+type VideoMode = 'clip' | 'storyboard';
+
+const VIDEO_MODES: [VideoMode, string][] = [['clip', 'Single Clip'], ['storyboard', 'Storyboard']];
+
+// An optional image picker for the first or last frame, with a preview.
+const FramePicker: React.FC<{
+    id: string;
+    label: string;
+    file: File | null;
+    onChange: (file: File | null) => void;
+    disabled: boolean;
+}> = ({ id, label, file, onChange, disabled }) => {
+    const [preview, setPreview] = useState<string | null>(null);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        if (!file) {
+            setPreview(null);
+            return;
+        }
+        const url = URL.createObjectURL(file);
+        setPreview(url);
+        return () => URL.revokeObjectURL(url);
+    }, [file]);
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-2">
+                <label htmlFor={id} className="block text-sm font-medium text-gray-300">{label}</label>
+                {file && (
+                    <button onClick={() => onChange(null)} disabled={disabled} className="text-sm text-gray-400 hover:text-white transition-colors">
+                        Remove
+                    </button>
+                )}
+            </div>
+            <div
+                onClick={() => !disabled && inputRef.current?.click()}
+                className="mt-1 flex justify-center px-6 pt-5 pb-6 border-2 border-gray-600 border-dashed rounded-md cursor-pointer hover:border-brand-blue-light transition"
+            >
+                <div className="space-y-1 text-center">
+                    {preview ? (
+                        <img src={preview} alt={label} className="mx-auto h-48 w-auto object-contain rounded-md" />
+                    ) : (
+                        <>
+                            <ImageIcon className="mx-auto h-12 w-12 text-gray-500" />
+                            <div className="flex text-sm text-gray-400">
+                                <p className="pl-1">Click to upload an image</p>
+                            </div>
+                            <p className="text-xs text-gray-500">PNG, JPG, GIF up to 10MB</p>
+                        </>
+                    )}
+                </div>
+            </div>
+            <input
+                ref={inputRef}
+                id={id}
+                type="file"
+                className="sr-only"
+                accept="image/*"
+                onChange={(e) => {
+                    const selected = e.target.files?.[0];
+                    e.target.value = '';
+                    if (selected) onChange(selected);
+                }}
+            />
+        </div>
+    );
 };
 
 const VideoGenerator: React.FC = () => {
+    const videoModels = getProvider().videoModels;
+
+    const [mode, setMode] = useState<VideoMode>('clip');
     const [prompt, setPrompt] = useState<string>('');
+    const [negativePrompt, setNegativePrompt] = useState<string>('');
     const [aspectRatio, setAspectRatio] = useState<'16:9' | '9:16'>('16:9');
+    const [modelId, setModelId] = useState<string>(videoModels[0]?.id ?? '');
+    const [resolution, setResolution] = useState<VideoResolution>('720p');
+    const [variations, setVariations] = useState<number>(1);
     const [imageFile, setImageFile] = useState<File | null>(null);
-    const [imagePreview, setImagePreview] = useState<string | null>(null);
-    
-    const [isLoading, setIsLoading] = useState<boolean>(false);
-    const [loadingMessage, setLoadingMessage] = useState<string>('');
-    const [error, setError] = useState<string | null>(null);
+    const [lastFrameFile, setLastFrameFile] = useState<File | null>(null);
+    // A finished video to continue instead of starting from an image or text.
+    const [extendSource, setExtendSource] = useState<VideoRef | null>(null);
+
+    const [isStarting, setIsStarting] = useState<boolean>(false);
+    const [error, setError] = useState<string | Error | null>(null);
+    const [jobs, setJobs] = useState<VideoJob[]>([]);
+    // The finished video being played; defaults to the most recent one.
+    const [selectedVideo, setSelectedVideo] = useState<VideoRef | null>(null);
     const [videoUrl, setVideoUrl] = useState<string | null>(null);
 
     const [isKeySelected, setIsKeySelected] = useState<boolean | null>(null);
-    const fileInputRef = useRef<HTMLInputElement>(null);
 
     useEffect(() => {
         const checkKey = async () => {
@@ -59,6 +132,50 @@ const VideoGenerator: React.FC = () => {
         checkKey();
     }, []);
 
+    useEffect(() => {
+        const loadJobs = () => listVideoJobs().then(setJobs).catch((e: any) => setError(e));
+        loadJobs();
+        return subscribeToVideoJobs(loadJobs);
+    }, []);
+
+    const finishedVideo = (ref: VideoRef | null): VideoRef | null => {
+        const job = ref && jobs.find(j => j.id === ref.jobId && j.status === 'done');
+        return job && job.videoUris && ref.index < job.videoUris.length ? ref : null;
+    };
+    const latestDone = jobs.find(job => job.status === 'done');
+    const shownVideo = finishedVideo(selectedVideo) ?? (latestDone ? { jobId: latestDone.id, index: 0 } : null);
+    const shownKey = shownVideo && `${shownVideo.jobId}:${shownVideo.index}`;
+
+    useEffect(() => {
+        if (!shownVideo) {
+            setVideoUrl(null);
+            return;
+        }
+        let url: string | null = null;
+        let cancelled = false;
+        getVideoBlob(shownVideo.jobId, shownVideo.index).then(blob => {
+            if (blob && !cancelled) {
+                url = URL.createObjectURL(blob);
+                setVideoUrl(url);
+            }
+        }).catch((e: any) => setError(e));
+        return () => {
+            cancelled = true;
+            if (url) URL.revokeObjectURL(url);
+        };
+    }, [shownKey]);
+
+    // Extension keeps the source's aspect ratio, is limited to 720p and to the models that support it.
+    const extendJob = extendSource ? jobs.find(job => job.id === extendSource.jobId) : undefined;
+    const extendUri = extendSource && extendJob?.videoUris?.[extendSource.index];
+    const availableModels = extendSource ? videoModels.filter(model => model.supportsExtension) : videoModels;
+    const model = availableModels.find(m => m.id === modelId) ?? availableModels[0];
+    const resolutions: VideoResolution[] = extendSource ? ['720p'] : model?.resolutions ?? ['720p'];
+    const effectiveResolution = resolutions.includes(resolution) ? resolution : resolutions[0];
+    const effectiveAspectRatio = extendJob?.aspectRatio ?? aspectRatio;
+    const usesLastFrame = !extendSource && !!imageFile && !!lastFrameFile && !!model?.supportsLastFrame;
+    const canGenerate = !!model && (extendSource ? !!extendUri : !!imageFile || !!prompt.trim());
+
     const handleSelectKey = async () => {
         if (window.aistudio && typeof window.aistudio.openSelectKey === 'function') {
             await window.aistudio.openSelectKey();
@@ -67,42 +184,53 @@ const VideoGenerator: React.FC = () => {
         }
     };
 
-    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0];
-        if (file) {
-            setImageFile(file);
-            setImagePreview(URL.createObjectURL(file));
-        }
+    const handleExtend = (video: VideoRef) => {
+        setMode('clip');
+        setExtendSource(video);
+        setError(null);
+        window.scrollTo({ top: 0, behavior: 'smooth' });
     };
 
     const handleGenerate = async () => {
-        if (!imageFile) {
-            setError('Please upload an image.');
+        if (!model) return;
+        if (extendSource && !extendUri) {
+            setError('The video to extend is no longer available.');
             return;
         }
-        setIsLoading(true);
+        if (!extendSource && !imageFile && !prompt.trim()) {
+            setError('Please upload a starting image or describe the video.');
+            return;
+        }
+        setIsStarting(true);
         setError(null);
-        setVideoUrl(null);
 
         try {
-            const imageBase64 = await blobToBase64(imageFile);
-            const url = await generateVideo(
-                prompt,
-                imageBase64,
-                imageFile.type,
-                aspectRatio,
-                (message) => setLoadingMessage(message)
-            );
-            setVideoUrl(url);
+            const toFrame = async (file: File) => ({ mimeType: file.type, data: await blobToBase64(file) });
+            const source: VideoJobSource = extendSource
+                ? { extends: extendSource }
+                : {
+                    ...(imageFile && { imageName: imageFile.name }),
+                    ...(usesLastFrame && { lastFrameName: lastFrameFile.name }),
+                };
+            await startVideoJobs({
+                model: model.id,
+                prompt: prompt.trim(),
+                ...(negativePrompt.trim() && { negativePrompt: negativePrompt.trim() }),
+                ...(!extendSource && imageFile && { image: await toFrame(imageFile) }),
+                ...(usesLastFrame && { lastFrame: await toFrame(lastFrameFile) }),
+                ...(extendUri && { extendVideoUri: extendUri }),
+                aspectRatio: effectiveAspectRatio,
+                resolution: effectiveResolution,
+            }, variations, source);
+            setExtendSource(null);
         } catch (e: any) {
-            setError(e.message || 'An unknown error occurred.');
+            setError(e);
             // If API key is invalid, prompt user to select again
-            if (e.message?.includes("API Key not found")) {
+            if (e instanceof AppError && e.code === 'auth') {
                 setIsKeySelected(false);
             }
         } finally {
-            setIsLoading(false);
-            setLoadingMessage('');
+            setIsStarting(false);
         }
     };
     
@@ -132,6 +260,8 @@ const VideoGenerator: React.FC = () => {
          )
     }
 
+    const selectClass = "w-full p-3 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-brand-blue-light";
+
     return (
         <div className="p-6 bg-brand-gray-dark rounded-xl shadow-2xl border border-white/10 max-w-4xl mx-auto">
             <h2 className="text-2xl font-bold mb-4 text-white flex items-center">
@@ -139,71 +269,136 @@ const VideoGenerator: React.FC = () => {
                 Video Generator
             </h2>
             <p className="text-gray-400 mb-6">
-                Upload a starting image, provide a prompt, and generate a short video.
+                Generate a short video from a prompt, a starting image or both, extend a video you made earlier, or plan a sequence of shots as a storyboard. Videos keep generating while you use other tabs or reload the page, and finished videos are saved in your browser.
             </p>
-            
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div>
-                    <label className="block text-sm font-medium text-gray-300 mb-2">1. Upload Starting Image</label>
-                    <div 
-                        onClick={() => fileInputRef.current?.click()}
-                        className="mt-1 flex justify-center px-6 pt-5 pb-6 border-2 border-gray-600 border-dashed rounded-md cursor-pointer hover:border-brand-blue-light transition"
+            <div className="flex space-x-2 mb-4">
+                {VIDEO_MODES.map(([value, label]) => (
+                    <button
+                        key={value}
+                        onClick={() => setMode(value)}
+                        className={`px-4 py-1.5 text-sm font-medium rounded-lg transition-colors ${mode === value ? 'bg-brand-blue-light text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
                     >
-                        <div className="space-y-1 text-center">
-                            {imagePreview ? (
-                                <img src={imagePreview} alt="Preview" className="mx-auto h-48 w-auto object-contain rounded-md" />
+                        {label}
+                    </button>
+                ))}
+            </div>
+
+            {mode === 'storyboard' ? (
+                <StoryboardEditor jobs={jobs} onAuthError={() => setIsKeySelected(false)} />
+            ) : (
+                <>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <div>
+                            {extendSource ? (
+                                <div className="p-4 bg-gray-900/50 rounded-lg border border-brand-blue-light">
+                                    <p className="text-sm font-medium text-gray-300">Extending a video</p>
+                                    <p className="mt-1 text-sm text-gray-400">
+                                        Job {jobs.length - jobs.findIndex(job => job.id === extendSource.jobId)}, video {extendSource.index + 1}
+                                        {extendJob?.prompt && <>: <span className="italic">{extendJob.prompt}</span></>}
+                                    </p>
+                                    <p className="mt-2 text-xs text-gray-500">The new clip continues from the end of this video. Describe what happens next.</p>
+                                    <button onClick={() => setExtendSource(null)} disabled={isStarting} className="mt-3 text-sm text-gray-400 hover:text-white transition-colors">
+                                        Start from an image or text instead
+                                    </button>
+                                </div>
                             ) : (
                                 <>
-                                    <ImageIcon className="mx-auto h-12 w-12 text-gray-500" />
-                                    <div className="flex text-sm text-gray-400">
-                                        <p className="pl-1">Click to upload an image</p>
-                                    </div>
-                                    <p className="text-xs text-gray-500">PNG, JPG, GIF up to 10MB</p>
+                                    <FramePicker id="file-upload" label="1. Starting Image (optional)" file={imageFile} onChange={setImageFile} disabled={isStarting} />
+                                    {imageFile && <ProvenancePanel file={imageFile} />}
+                                    {imageFile && model?.supportsLastFrame && (
+                                        <div className="mt-4">
+                                            <FramePicker id="last-frame-upload" label="Last Frame (optional)" file={lastFrameFile} onChange={setLastFrameFile} disabled={isStarting} />
+                                            <p className="mt-1 text-xs text-gray-500">The video moves from the starting image to this one.</p>
+                                        </div>
+                                    )}
                                 </>
                             )}
                         </div>
+                        <div>
+                            <label htmlFor="prompt" className="block text-sm font-medium text-gray-300 mb-2">
+                                2. Describe the {extendSource ? 'continuation' : 'video'}{imageFile && !extendSource ? ' (optional)' : ''}
+                            </label>
+                            <textarea
+                                id="prompt"
+                                value={prompt}
+                                onChange={(e) => setPrompt(e.target.value)}
+                                placeholder="e.g., The astronaut slowly floats away"
+                                className="w-full h-24 p-4 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-brand-blue-light"
+                                disabled={isStarting}
+                            />
+                            <label htmlFor="negativePrompt" className="block text-sm font-medium text-gray-300 mb-2 mt-4">Avoid (optional)</label>
+                            <input
+                                id="negativePrompt"
+                                type="text"
+                                value={negativePrompt}
+                                onChange={(e) => setNegativePrompt(e.target.value)}
+                                placeholder="e.g., text overlays, blurry motion"
+                                className="w-full p-3 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-brand-blue-light"
+                                disabled={isStarting}
+                            />
+                            <div className="grid grid-cols-2 gap-4 mt-4">
+                                <div>
+                                    <label htmlFor="videoModel" className="block text-sm font-medium text-gray-300 mb-2">Model</label>
+                                    <select id="videoModel" value={model?.id ?? ''} onChange={(e) => setModelId(e.target.value)} className={selectClass} disabled={isStarting}>
+                                        {availableModels.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label htmlFor="videoResolution" className="block text-sm font-medium text-gray-300 mb-2">Resolution</label>
+                                    <select id="videoResolution" value={effectiveResolution} onChange={(e) => setResolution(e.target.value as VideoResolution)} className={selectClass} disabled={isStarting || resolutions.length < 2}>
+                                        {resolutions.map(r => <option key={r} value={r}>{r}</option>)}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label htmlFor="aspectRatioVideo" className="block text-sm font-medium text-gray-300 mb-2">Aspect Ratio</label>
+                                    <select
+                                        id="aspectRatioVideo"
+                                        value={effectiveAspectRatio}
+                                        onChange={(e) => setAspectRatio(e.target.value as '16:9' | '9:16')}
+                                        className={selectClass}
+                                        disabled={isStarting || !!extendSource}
+                                    >
+                                        <option value="16:9">Landscape (16:9)</option>
+                                        <option value="9:16">Portrait (9:16)</option>
+                                    </select>
+                                </div>
+                                <div>
+                                    <label htmlFor="videoVariations" className="block text-sm font-medium text-gray-300 mb-2">Variations</label>
+                                    <select id="videoVariations" value={variations} onChange={(e) => setVariations(Number(e.target.value))} className={selectClass} disabled={isStarting}>
+                                        {Array.from({ length: MAX_VARIATIONS }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+                                    </select>
+                                </div>
+                            </div>
+                            {model && variations > model.maxVideos && (
+                                <p className="mt-2 text-xs text-gray-500">
+                                    {model.label} makes {model.maxVideos === 1 ? 'one video' : `up to ${model.maxVideos} videos`} per request, so this starts {Math.ceil(variations / model.maxVideos)} jobs.
+                                </p>
+                            )}
+                        </div>
                     </div>
-                    <input ref={fileInputRef} id="file-upload" name="file-upload" type="file" className="sr-only" accept="image/*" onChange={handleFileChange} />
-                </div>
-                <div>
-                    <label htmlFor="prompt" className="block text-sm font-medium text-gray-300 mb-2">2. Describe the action (optional)</label>
-                    <textarea
-                        id="prompt"
-                        value={prompt}
-                        onChange={(e) => setPrompt(e.target.value)}
-                        placeholder="e.g., The astronaut slowly floats away"
-                        className="w-full h-24 p-4 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-brand-blue-light"
-                        disabled={isLoading}
-                    />
-                     <label htmlFor="aspectRatioVideo" className="block text-sm font-medium text-gray-300 mb-2 mt-4">3. Select Aspect Ratio</label>
-                    <select
-                        id="aspectRatioVideo"
-                        value={aspectRatio}
-                        onChange={(e) => setAspectRatio(e.target.value as '16:9' | '9:16')}
-                        className="w-full p-3 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-brand-blue-light"
-                        disabled={isLoading}
-                    >
-                        <option value="16:9">Landscape (16:9)</option>
-                        <option value="9:16">Portrait (9:16)</option>
-                    </select>
-                </div>
-            </div>
             
-            <button
-                onClick={handleGenerate}
-                disabled={isLoading || !imageFile}
-                className="mt-6 w-full flex items-center justify-center bg-brand-blue-light hover:bg-brand-blue text-white font-bold py-3 px-4 rounded-lg transition disabled:bg-gray-600 disabled:cursor-not-allowed"
-            >
-                {isLoading ? <Spinner /> : 'Generate Video'}
-            </button>
+                    <button
+                        onClick={handleGenerate}
+                        disabled={isStarting || !canGenerate}
+                        className="mt-6 w-full flex items-center justify-center bg-brand-blue-light hover:bg-brand-blue text-white font-bold py-3 px-4 rounded-lg transition disabled:bg-gray-600 disabled:cursor-not-allowed"
+                    >
+                        {isStarting ? <Spinner /> : extendSource ? 'Extend Video' : 'Generate Video'}
+                    </button>
 
-            {error && <div className="mt-4 text-center text-red-400 bg-red-900/50 p-3 rounded-lg">{error}</div>}
-            
-            {isLoading && (
-                 <div className="mt-6 flex flex-col items-center justify-center text-gray-400">
-                    <Spinner />
-                    <p className="mt-2 font-semibold">{loadingMessage}</p>
-                    <p className="text-sm text-gray-500">Video generation can take several minutes. Please be patient.</p>
+                    {error && <ErrorBanner error={error} />}
+                </>
+            )}
+
+            {jobs.length > 0 && (
+                <div className="mt-6">
+                    <h3 className="text-xl font-bold mb-1">Video Jobs</h3>
+                    <p className="text-sm text-gray-500 mb-4">Each video can take several minutes. You can start more while earlier ones are generating.</p>
+                    <VideoJobQueue
+                        jobs={jobs}
+                        selected={shownVideo}
+                        onSelect={setSelectedVideo}
+                        onExtend={videoModels.some(m => m.supportsExtension) ? handleExtend : undefined}
+                    />
                 </div>
             )}
 
@@ -217,4 +412,4 @@ const VideoGenerator: React.FC = () => {
     );
 };
 
-export default VideoGenerator;
\ No newline at end of file
+export default VideoGenerator;
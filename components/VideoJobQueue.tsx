@@ -0,0 +1,121 @@
+import React, { useState, useEffect } from 'react';
+import { VideoJob, VideoJobStatus, cancelVideoJob, deleteVideoJob, getVideoBlob, retryVideoJob } from '../services/videoJobs';
+import { downloadFile } from '../services/fileUtils';
+
+const STATUS_STYLES: Record<VideoJobStatus, [string, string]> = {
+    running: ['Generating', 'bg-blue-900/60 text-blue-300'],
+    downloading: ['Downloading', 'bg-blue-900/60 text-blue-300'],
+    done: ['Ready', 'bg-green-900/60 text-green-300'],
+    failed: ['Failed', 'bg-red-900/60 text-red-300'],
+    cancelled: ['Cancelled', 'bg-gray-700 text-gray-300'],
+};
+
+const isActive = (job: VideoJob) => job.status === 'running' || job.status === 'downloading';
+
+const formatElapsed = (ms: number): string => {
+    const seconds = Math.max(0, Math.floor(ms / 1000));
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export interface VideoRef {
+    jobId: string;
+    index: number;
+}
+
+const describeSource = (job: VideoJob, jobs: VideoJob[]): string => {
+    if (job.extends) {
+        const sourceIndex = jobs.findIndex(other => other.id === job.extends?.jobId);
+        return sourceIndex === -1 ? 'Extension of a removed video' : `Extension of job ${jobs.length - sourceIndex}, video ${job.extends.index + 1}`;
+    }
+    if (job.imageName && job.lastFrameName) return `${job.imageName} → ${job.lastFrameName}`;
+    return job.imageName ?? 'Text only';
+};
+
+// The queue of video jobs, newest first. `selected` is the video being played; `onExtend` is
+// omitted when no model can extend videos.
+export const VideoJobQueue: React.FC<{
+    jobs: VideoJob[];
+    selected: VideoRef | null;
+    onSelect: (video: VideoRef) => void;
+    onExtend?: (video: VideoRef) => void;
+}> = ({ jobs, selected, onSelect, onExtend }) => {
+    const [now, setNow] = useState<number>(Date.now());
+    const hasActiveJobs = jobs.some(isActive);
+
+    useEffect(() => {
+        if (!hasActiveJobs) return;
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [hasActiveJobs]);
+
+    const handleDownload = async (job: VideoJob, index: number) => {
+        const blob = await getVideoBlob(job.id, index);
+        if (blob) {
+            const suffix = job.numberOfVideos > 1 ? `-${index + 1}` : '';
+            downloadFile(blob, `video-${new Date(job.createdAt).toISOString().slice(0, 19).replace(/:/g, '-')}${suffix}.mp4`, blob.type || 'video/mp4');
+        }
+    };
+
+    if (jobs.length === 0) return null;
+
+    return (
+        <ul className="space-y-2">
+            {jobs.map((job, position) => {
+                const [label, style] = STATUS_STYLES[job.status];
+                return (
+                    <li
+                        key={job.id}
+                        className={`p-3 rounded-lg border ${job.id === selected?.jobId ? 'border-brand-blue-light bg-gray-800' : 'border-gray-700 bg-gray-900/50'}`}
+                    >
+                        <div className="flex flex-wrap items-center gap-2">
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-semibold flex items-center ${style}`}>
+                                {isActive(job) && <span className="w-2 h-2 mr-1.5 rounded-full bg-current animate-pulse" />}
+                                {label}
+                            </span>
+                            <span className="font-mono text-sm text-gray-400" title="Elapsed time">
+                                {formatElapsed((job.finishedAt ?? now) - job.createdAt)}
+                            </span>
+                            <span className="text-xs text-gray-500">
+                                Job {jobs.length - position} · {describeSource(job, jobs)} · {job.aspectRatio} {job.resolution}
+                            </span>
+                            <div className="ml-auto flex items-center space-x-3 text-sm">
+                                {job.status === 'failed' && (
+                                    <button onClick={() => retryVideoJob(job.id)} className="text-brand-blue-light hover:underline">Retry</button>
+                                )}
+                                {isActive(job) ? (
+                                    <button onClick={() => cancelVideoJob(job.id)} title="Stop waiting for this video. Generation already started cannot be stopped and may still be billed." className="text-gray-400 hover:text-white">Cancel</button>
+                                ) : (
+                                    <button onClick={() => deleteVideoJob(job.id)} className="text-gray-400 hover:text-white">Remove</button>
+                                )}
+                            </div>
+                        </div>
+                        <p className="mt-1 text-sm text-gray-300 truncate" title={job.prompt}>{job.prompt || <span className="italic text-gray-500">No prompt</span>}</p>
+                        {job.status === 'done' && (
+                            <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-sm">
+                                {(job.videoUris ?? []).map((_, index) => (
+                                    <span key={index} className={`flex items-center space-x-2 ${job.id === selected?.jobId && index === selected.index ? 'font-semibold' : ''}`}>
+                                        {job.numberOfVideos > 1 && <span className="text-gray-400">Video {index + 1}:</span>}
+                                        <button onClick={() => onSelect({ jobId: job.id, index })} className="text-brand-blue-light hover:underline">Play</button>
+                                        <button onClick={() => handleDownload(job, index)} className="text-brand-blue-light hover:underline">Download</button>
+                                        {onExtend && job.resolution === '720p' && (
+                                            <button onClick={() => onExtend({ jobId: job.id, index })} title="Continue this video in a new job" className="text-brand-blue-light hover:underline">Extend</button>
+                                        )}
+                                    </span>
+                                ))}
+                            </div>
+                        )}
+                        {job.filteredCount > 0 && (
+                            <p className="mt-1 text-xs text-yellow-400">
+                                {job.filteredCount} of {job.filteredCount + (job.videoUris?.length ?? 0)} videos were removed by the safety filters.
+                            </p>
+                        )}
+                        {job.status === 'running' && job.checks > 0 && (
+                            <p className="text-xs text-gray-500">Checked {job.checks} {job.checks === 1 ? 'time' : 'times'}</p>
+                        )}
+                        {job.error && <p className="mt-1 text-xs text-red-400">{job.error}</p>}
+                    </li>
+                );
+            })}
+        </ul>
+    );
+};
@@ -0,0 +1,115 @@
+// Minimal CORS proxy for the News Analyzer's URL mode.
+//
+//   npm run proxy                                   forwards requests to the live site
+//   ARTICLE_FIXTURES_DIR=./fixtures npm run proxy   serves saved HTML instead
+//
+// Fixture files are looked up by a slug of the requested URL's host and path,
+// e.g. https://example.com/news/story-1 -> example.com_news_story_1.html
+//
+// The proxy only listens on 127.0.0.1, only answers the dev server's origin (PROXY_ALLOWED_ORIGINS,
+// comma-separated) and only fetches public http(s) addresses, so other pages open in the browser
+// cannot use it to read the local network.
+import http from 'node:http';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import net from 'node:net';
+import dns from 'node:dns/promises';
+
+const PORT = Number(process.env.PROXY_PORT || 8787);
+const HOST = '127.0.0.1';
+const FIXTURES_DIR = process.env.ARTICLE_FIXTURES_DIR;
+const ALLOWED_ORIGINS = (process.env.PROXY_ALLOWED_ORIGINS || 'http://localhost:3000,http://127.0.0.1:3000')
+    .split(',')
+    .map(origin => origin.trim())
+    .filter(Boolean);
+const MAX_REDIRECTS = 5;
+
+// Loopback, private, link-local, shared, multicast and other non-public ranges.
+const blocked = new net.BlockList();
+for (const [address, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+]) {
+    blocked.addSubnet(address, prefix, 'ipv4');
+}
+// IPv4-mapped IPv6 addresses are blocked outright rather than checked against the IPv4 list.
+for (const [address, prefix] of [['::', 127], ['::ffff:0:0', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]]) {
+    blocked.addSubnet(address, prefix, 'ipv6');
+}
+
+const isPublicAddress = (address) => !blocked.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+
+// Throws unless the URL is http(s) and every address its host resolves to is public. The host is
+// resolved again by fetch, so this does not stop DNS rebinding, only direct and redirected requests.
+const checkTarget = async (target) => {
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+        throw new Error(`Only http and https URLs can be loaded, not ${target.protocol}`);
+    }
+    const host = target.hostname.replace(/^\[|\]$/g, '');
+    const addresses = net.isIP(host) ? [host] : (await dns.lookup(host, { all: true })).map(entry => entry.address);
+    if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+        throw new Error(`${target.hostname} is not a public address`);
+    }
+};
+
+// Follows redirects by hand so that every hop is checked.
+const fetchPublic = async (target) => {
+    let url = target;
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+        await checkTarget(url);
+        const upstream = await fetch(url, { redirect: 'manual', headers: { 'User-Agent': 'Mozilla/5.0 (VerityLens article proxy)' } });
+        const location = upstream.headers.get('location');
+        if (upstream.status < 300 || upstream.status >= 400 || !location) {
+            return upstream;
+        }
+        url = new URL(location, url);
+    }
+    throw new Error('Too many redirects');
+};
+
+const fixturePath = (target) => {
+    const slug = `${target.hostname}${target.pathname}`.replace(/[^a-z0-9.]+/gi, '_').replace(/_+$/, '');
+    return path.join(FIXTURES_DIR, `${slug}.html`);
+};
+
+const send = (req, res, status, body) => {
+    const origin = req.headers.origin;
+    res.writeHead(status, {
+        'Content-Type': 'text/html; charset=utf-8',
+        ...(origin && ALLOWED_ORIGINS.includes(origin) && { 'Access-Control-Allow-Origin': origin, Vary: 'Origin' }),
+    });
+    res.end(body);
+};
+
+http.createServer(async (req, res) => {
+    // Requests without an Origin come from tools such as curl on this machine.
+    if (req.headers.origin && !ALLOWED_ORIGINS.includes(req.headers.origin)) {
+        return send(req, res, 403, 'Origin not allowed.');
+    }
+
+    const requested = new URL(req.url, `http://localhost:${PORT}`).searchParams.get('url');
+    let target;
+    try {
+        target = new URL(requested);
+    } catch {
+        return send(req, res, 400, 'Missing or invalid "url" query parameter.');
+    }
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+        return send(req, res, 400, 'Only http and https URLs can be loaded.');
+    }
+
+    try {
+        if (FIXTURES_DIR) {
+            return send(req, res, 200, await fs.readFile(fixturePath(target), 'utf8'));
+        }
+        const upstream = await fetchPublic(target);
+        send(req, res, upstream.status, await upstream.text());
+    } catch (error) {
+        console.error(`Failed to load ${target}:`, error.message);
+        send(req, res, FIXTURES_DIR ? 404 : 502, `Could not load ${target}`);
+    }
+}).listen(PORT, HOST, () => {
+    console.log(`Article proxy listening on http://${HOST}:${PORT}/?url=`);
+    console.log(`Accepting requests from ${ALLOWED_ORIGINS.join(', ')}`);
+    if (FIXTURES_DIR) console.log(`Serving fixtures from ${path.resolve(FIXTURES_DIR)}`);
+});
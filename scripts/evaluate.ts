@@ -0,0 +1,93 @@
+// Headless evaluation of the fake-news classifier against a labeled dataset.
+//
+//   npm run evaluate -- --dataset data.jsonl                                   live API (needs GEMINI_API_KEY)
+//   npm run evaluate -- --dataset data.jsonl --recordings rec.json --record    live API, saving raw responses
+//   npm run evaluate -- --dataset data.jsonl --recordings rec.json             offline replay of saved responses
+//
+// Datasets are CSV or JSONL with id, text and label (Real/Fake) columns.
+// Writes <out>.json and <out>.html (default: evaluation-report).
+import fs from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { AnalysisOptions, LinguisticCue } from '../types';
+import { createGeminiProvider, ModelProvider } from '../services/providers';
+import { CUE_LABELS } from '../services/geminiService';
+import {
+    parseLabeledDataset, runEvaluation, computeReport, renderHtmlReport,
+    createReplayProvider, createRecordingProvider, Recordings,
+} from '../services/evaluationService';
+
+const { values: args } = parseArgs({
+    options: {
+        dataset: { type: 'string' },
+        recordings: { type: 'string' },
+        record: { type: 'boolean', default: false },
+        out: { type: 'string', default: 'evaluation-report' },
+        threshold: { type: 'string', default: '0' },
+        cues: { type: 'string', default: '' },
+        thinking: { type: 'boolean', default: false },
+        concurrency: { type: 'string', default: '3' },
+    },
+});
+
+const KNOWN_CUES = Object.keys(CUE_LABELS) as LinguisticCue[];
+
+const parseCues = (value: string): LinguisticCue[] => {
+    const cues = value.split(',').map(cue => cue.trim()).filter(Boolean);
+    const unknown = cues.filter(cue => !KNOWN_CUES.includes(cue as LinguisticCue));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown --cues value ${unknown.map(cue => `"${cue}"`).join(', ')}. Use a comma-separated list of: ${KNOWN_CUES.join(', ')}.`);
+    }
+    return cues as LinguisticCue[];
+};
+
+const main = async () => {
+    if (!args.dataset) {
+        throw new Error('Missing --dataset <file>.');
+    }
+    if (args.record && !args.recordings) {
+        throw new Error('--record needs --recordings <file> to write to.');
+    }
+    // The Gemini provider is only asked for a key on first use, so replay works without one.
+    const provider = createGeminiProvider(process.env.API_KEY ?? process.env.GEMINI_API_KEY);
+
+    const examples = parseLabeledDataset(await fs.readFile(args.dataset, 'utf8'), args.dataset);
+    const options: AnalysisOptions = {
+        useThinkingMode: args.thinking,
+        confidenceThreshold: Number(args.threshold),
+        cues: parseCues(args.cues),
+        checkClaims: false,
+    };
+
+    let recordings: Recordings = {};
+    let providerFor: (id: string) => ModelProvider = () => provider;
+    if (args.record) {
+        if (provider.unavailableReason) throw new Error('Recording needs GEMINI_API_KEY to be set.');
+        providerFor = id => createRecordingProvider(provider, recordings, id);
+    } else if (args.recordings) {
+        recordings = JSON.parse(await fs.readFile(args.recordings, 'utf8'));
+        providerFor = id => createReplayProvider(provider, recordings, id);
+    }
+
+    console.log(`Evaluating ${examples.length} examples${args.recordings && !args.record ? ' (offline replay)' : ''}...`);
+    const predictions = await runEvaluation(examples, options, {
+        concurrency: Number(args.concurrency),
+        providerFor,
+        onProgress: (completed, total) => process.stdout.write(`\r${completed}/${total}`),
+    });
+    process.stdout.write('\n');
+
+    const report = computeReport(predictions, provider.models.pro, options);
+    await fs.writeFile(`${args.out}.json`, JSON.stringify(report, null, 2));
+    await fs.writeFile(`${args.out}.html`, renderHtmlReport(report));
+    if (args.record) {
+        await fs.writeFile(args.recordings!, JSON.stringify(recordings, null, 2));
+    }
+
+    console.log(`Accuracy ${(report.accuracy * 100).toFixed(1)}%, coverage ${(report.coverage * 100).toFixed(1)}%, ECE ${report.calibration.ece.toFixed(4)}, errors ${report.errors}`);
+    console.log(`Wrote ${args.out}.json and ${args.out}.html`);
+};
+
+main().catch(error => {
+    console.error(error.message || error);
+    process.exit(1);
+});
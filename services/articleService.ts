@@ -0,0 +1,144 @@
+import { ArticleMetadata, ExtractedArticle } from '../types';
+
+// Browsers cannot fetch arbitrary news sites directly because of CORS, so pages are
+// requested through a proxy that takes the target URL as a query parameter.
+// See scripts/article-proxy.mjs for a local implementation that can also serve saved fixtures.
+const PROXY_URL = process.env.ARTICLE_PROXY_URL || 'http://127.0.0.1:8787/?url=';
+
+const NOISE_SELECTORS = 'script, style, noscript, template, iframe, svg, nav, header, footer, aside, form, figure, [role="navigation"], [role="complementary"], [aria-hidden="true"]';
+
+export const isLikelyUrl = (value: string): boolean => {
+    const trimmed = value.trim();
+    if (/\s/.test(trimmed)) return false;
+    try {
+        const url = new URL(trimmed);
+        return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+        return false;
+    }
+};
+
+const fetchArticleHtml = async (url: string, signal?: AbortSignal): Promise<string> => {
+    let response: Response;
+    try {
+        response = await fetch(`${PROXY_URL}${encodeURIComponent(url)}`, { signal });
+    } catch (error) {
+        if (signal?.aborted) throw error;
+        console.error("Error reaching article proxy:", error);
+        throw new Error(`Could not reach the article proxy at ${PROXY_URL}. Is it running?`);
+    }
+    if (!response.ok) {
+        throw new Error(`Failed to fetch article: ${response.status} ${response.statusText}`);
+    }
+    return response.text();
+};
+
+const metaContent = (doc: Document, ...selectors: string[]): string | null => {
+    for (const selector of selectors) {
+        const content = doc.querySelector(selector)?.getAttribute('content')?.trim();
+        if (content) return content;
+    }
+    return null;
+};
+
+const textContent = (doc: Document, ...selectors: string[]): string | null => {
+    for (const selector of selectors) {
+        const text = doc.querySelector(selector)?.textContent?.replace(/\s+/g, ' ').trim();
+        if (text) return text;
+    }
+    return null;
+};
+
+// Flattens all JSON-LD blocks (including @graph arrays) and returns the first article-like entry.
+const findJsonLdArticle = (doc: Document): Record<string, any> | null => {
+    const entries: any[] = [];
+    doc.querySelectorAll('script[type="application/ld+json"]').forEach(script => {
+        try {
+            const data = JSON.parse(script.textContent || '');
+            const items = Array.isArray(data) ? data : [data];
+            for (const item of items) {
+                entries.push(item, ...(Array.isArray(item?.['@graph']) ? item['@graph'] : []));
+            }
+        } catch {
+            // Ignore malformed JSON-LD; many sites ship broken blocks.
+        }
+    });
+    return entries.find(entry => {
+        const type = entry?.['@type'];
+        const types: string[] = Array.isArray(type) ? type : [type];
+        return types.some(t => typeof t === 'string' && /(News)?Article|BlogPosting|Report/.test(t));
+    }) ?? null;
+};
+
+const jsonLdName = (value: any): string | null => {
+    const items = Array.isArray(value) ? value : [value];
+    const names = items
+        .map(item => typeof item === 'string' ? item : item?.name)
+        .filter((name): name is string => typeof name === 'string' && name.trim().length > 0);
+    return names.length > 0 ? names.join(', ') : null;
+};
+
+// Picks the element whose direct paragraphs hold the most text, which is usually the article body.
+const findBodyElement = (doc: Document): Element => {
+    const article = doc.querySelector('article, [itemprop="articleBody"], main');
+    if (article && article.querySelectorAll('p').length >= 3) {
+        return article;
+    }
+
+    let best: Element = doc.body;
+    let bestLength = 0;
+    const scores = new Map<Element, number>();
+    doc.querySelectorAll('p').forEach(p => {
+        const parent = p.parentElement;
+        if (!parent) return;
+        const score = (scores.get(parent) ?? 0) + (p.textContent?.trim().length ?? 0);
+        scores.set(parent, score);
+        if (score > bestLength) {
+            best = parent;
+            bestLength = score;
+        }
+    });
+    return best;
+};
+
+const extractBodyText = (doc: Document): string => {
+    doc.querySelectorAll(NOISE_SELECTORS).forEach(el => el.remove());
+    const body = findBodyElement(doc);
+    const blocks = Array.from(body.querySelectorAll('h2, h3, p, li, blockquote'))
+        .map(el => el.textContent?.replace(/\s+/g, ' ').trim() ?? '')
+        .filter(text => text.length > 0);
+    return blocks.length > 0 ? blocks.join('\n\n') : (body.textContent ?? '').replace(/\s+/g, ' ').trim();
+};
+
+export const extractArticle = (html: string, url: string): ExtractedArticle => {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const jsonLd = findJsonLdArticle(doc);
+
+    const metadata: ArticleMetadata = {
+        url,
+        headline: (typeof jsonLd?.headline === 'string' ? jsonLd.headline : null)
+            ?? metaContent(doc, 'meta[property="og:title"]', 'meta[name="twitter:title"]')
+            ?? textContent(doc, 'h1', 'title'),
+        byline: jsonLdName(jsonLd?.author)
+            ?? metaContent(doc, 'meta[name="author"]', 'meta[property="article:author"]')
+            ?? textContent(doc, '[rel="author"]', '[itemprop="author"]', '.byline'),
+        publishedAt: (typeof jsonLd?.datePublished === 'string' ? jsonLd.datePublished : null)
+            ?? metaContent(doc, 'meta[property="article:published_time"]', 'meta[name="date"]', 'meta[itemprop="datePublished"]')
+            ?? doc.querySelector('time[datetime]')?.getAttribute('datetime')
+            ?? null,
+        outlet: jsonLdName(jsonLd?.publisher)
+            ?? metaContent(doc, 'meta[property="og:site_name"]', 'meta[name="application-name"]')
+            ?? new URL(url).hostname.replace(/^www\./, ''),
+    };
+
+    const text = extractBodyText(doc);
+    if (!text) {
+        throw new Error("No article text could be extracted from this page.");
+    }
+    return { metadata, text };
+};
+
+export const fetchArticle = async (url: string, signal?: AbortSignal): Promise<ExtractedArticle> => {
+    const html = await fetchArticleHtml(url, signal);
+    return extractArticle(html, url);
+};
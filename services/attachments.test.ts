@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChatMessage } from '../types';
+import { MAX_CONVERSATION_INLINE_BYTES, inlineAttachmentIds } from './attachments';
+import { encodedSize } from './fileUtils';
+import { toProviderMessages } from './geminiService';
+
+const MB = 1024 * 1024;
+
+const userMessage = (id: number, ...sizes: number[]): ChatMessage => ({
+    id,
+    text: `message ${id}`,
+    sender: 'user',
+    attachments: sizes.map((size, index) => ({ id: `${id}-${index}`, name: `file-${id}-${index}.pdf`, mimeType: 'application/pdf', size, data: 'AAAA' })),
+});
+
+const botMessage = (id: number): ChatMessage => ({ id, text: `reply ${id}`, sender: 'bot' });
+
+test('inlineAttachmentIds keeps the newest attachments within the budget', () => {
+    const messages = [userMessage(1, 8 * MB), botMessage(2), userMessage(3, 6 * MB, 4 * MB), botMessage(4), userMessage(5)];
+    const ids = inlineAttachmentIds(messages);
+    assert.deepEqual([...ids].sort(), ['3-0', '3-1']);
+});
+
+test('inlineAttachmentIds always keeps the latest message', () => {
+    const ids = inlineAttachmentIds([userMessage(1, 1 * MB), botMessage(2), userMessage(3, MAX_CONVERSATION_INLINE_BYTES * 3 / 4)]);
+    assert.deepEqual([...ids], ['3-0']);
+});
+
+test('toProviderMessages stays within the budget and notes omitted attachments', () => {
+    const messages = [
+        userMessage(1, 10 * MB), botMessage(2),
+        userMessage(3, 10 * MB), botMessage(4),
+        userMessage(5),
+    ];
+    const sent = toProviderMessages(messages);
+    assert.equal(sent.length, 5);
+    assert.equal(sent[0].attachments, undefined);
+    assert.match(sent[0].text, /\[attachment: file-1-0\.pdf, omitted\]/);
+    assert.equal(sent[2].attachments?.length, 1);
+    assert.doesNotMatch(sent[2].text, /omitted/);
+
+    const inlineBytes = messages
+        .filter((_, index) => sent[index].attachments)
+        .flatMap(msg => msg.attachments ?? [])
+        .reduce((sum, attachment) => sum + encodedSize(attachment.size), 0);
+    assert.ok(inlineBytes <= MAX_CONVERSATION_INLINE_BYTES);
+});
+
+test('attachment sizes are counted as base64', () => {
+    assert.equal(encodedSize(3), 4);
+    assert.equal(encodedSize(4), 8);
+    // 12 MB of files is 16 MB once encoded, which fills the budget on its own.
+    const ids = inlineAttachmentIds([userMessage(1, 1 * MB), botMessage(2), userMessage(3, 12 * MB)]);
+    assert.deepEqual([...ids], ['3-0']);
+});
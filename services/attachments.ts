@@ -0,0 +1,87 @@
+import { ChatAttachment, ChatMessage } from '../types';
+import { blobToBase64, encodedSize } from './fileUtils';
+
+// Files attached to chat messages are sent inline with the request, which Gemini caps at about
+// 20 MB in total. Inline data is base64, a third larger than the file, so the message and
+// conversation limits count the encoded size and leave room for the prompt and history. Every
+// turn resends the conversation, so the whole conversation shares one budget too.
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_MESSAGE_INLINE_BYTES = 16 * 1024 * 1024;
+export const MAX_CONVERSATION_INLINE_BYTES = MAX_MESSAGE_INLINE_BYTES;
+
+export type AttachmentKind = 'image' | 'pdf' | 'audio' | 'text';
+
+export const ACCEPTED_ATTACHMENT_TYPES = 'image/*,application/pdf,audio/*,text/*,.md,.csv,.json';
+
+// Browsers often report no type for plain-text formats such as Markdown.
+const TEXT_EXTENSIONS = /\.(txt|md|markdown|csv|tsv|json|log|xml|html?)$/i;
+
+export const attachmentKind = (mimeType: string): AttachmentKind | null => {
+    if (mimeType.startsWith('image/')) return 'image';
+    if (mimeType === 'application/pdf') return 'pdf';
+    if (mimeType.startsWith('audio/')) return 'audio';
+    if (mimeType.startsWith('text/') || mimeType === 'application/json') return 'text';
+    return null;
+};
+
+const mimeTypeOf = (file: File): string => {
+    if (file.type) return file.type;
+    return TEXT_EXTENSIONS.test(file.name) ? 'text/plain' : 'application/octet-stream';
+};
+
+export const formatBytes = (bytes: number): string =>
+    bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export const toDataUrl = (attachment: ChatAttachment): string => `data:${attachment.mimeType};base64,${attachment.data}`;
+
+// Reads dropped, pasted or picked files, skipping the ones that cannot be attached. `current`
+// are the attachments already waiting to be sent, which count towards the per-message limit.
+export const readAttachments = async (
+    files: File[],
+    current: ChatAttachment[]
+): Promise<{ attachments: ChatAttachment[]; errors: string[] }> => {
+    const attachments: ChatAttachment[] = [];
+    const errors: string[] = [];
+    let total = current.reduce((sum, attachment) => sum + encodedSize(attachment.size), 0);
+
+    for (const file of files) {
+        const mimeType = mimeTypeOf(file);
+        if (!attachmentKind(mimeType)) {
+            errors.push(`${file.name}: only images, PDFs, audio and text files can be attached.`);
+        } else if (file.size > MAX_ATTACHMENT_BYTES) {
+            errors.push(`${file.name} is larger than ${formatBytes(MAX_ATTACHMENT_BYTES)}.`);
+        } else if (total + encodedSize(file.size) > MAX_MESSAGE_INLINE_BYTES) {
+            errors.push(`${file.name}: attachments are limited to about ${formatBytes(MAX_MESSAGE_INLINE_BYTES * 3 / 4)} per message.`);
+        } else {
+            try {
+                attachments.push({
+                    id: crypto.randomUUID(),
+                    name: file.name || `pasted-${attachmentKind(mimeType)}`,
+                    mimeType,
+                    size: file.size,
+                    data: await blobToBase64(file),
+                });
+                total += encodedSize(file.size);
+            } catch (error) {
+                console.error("Error reading attachment:", error);
+                errors.push(`${file.name} could not be read.`);
+            }
+        }
+    }
+    return { attachments, errors };
+};
+
+// The ids of the attachments that still fit in the conversation budget, newest first. A
+// message's attachments are kept or dropped together, so the latest message always fits.
+export const inlineAttachmentIds = (messages: ChatMessage[], budget = MAX_CONVERSATION_INLINE_BYTES): Set<string> => {
+    const ids = new Set<string>();
+    let total = 0;
+    for (const msg of [...messages].reverse()) {
+        const attachments = msg.attachments ?? [];
+        const size = attachments.reduce((sum, attachment) => sum + encodedSize(attachment.size), 0);
+        if (total + size > budget) break;
+        total += size;
+        attachments.forEach(attachment => ids.add(attachment.id));
+    }
+    return ids;
+};
@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AnalysisResult } from '../types';
+import { BatchRow, exportBatchCsv, exportBatchJsonl, parseBatchFile, parseCsv, runBatch } from './batchService';
+
+const result: AnalysisResult = {
+    classification: 'Fake',
+    confidence: 91,
+    explanation: 'Says "miracle", cites nobody.',
+    keywords: ['miracle', 'cure'],
+};
+
+test('parseCsv handles quoted commas, newlines and doubled quotes', () => {
+    const rows = parseCsv('id,text\r\n1,"Hello, ""world""\nagain"\r\n2,plain\n');
+    assert.deepEqual(rows, [['id', 'text'], ['1', 'Hello, "world"\nagain'], ['2', 'plain']]);
+});
+
+test('parseCsv skips blank lines and keeps a last row without a newline', () => {
+    assert.deepEqual(parseCsv('a,b\n\n ,\n1,2'), [['a', 'b'], ['1', '2']]);
+});
+
+test('parseBatchFile reads CSV columns by header name and numbers rows without an id', () => {
+    const items = parseBatchFile('\uFEFFURL,Text\nhttps://example.com/a,\n,Some post\n,\n', 'posts.csv');
+    assert.deepEqual(items, [
+        { id: '1', text: '', url: 'https://example.com/a' },
+        { id: '2', text: 'Some post' },
+    ]);
+});
+
+test('parseBatchFile rejects a CSV without a text or url column', () => {
+    assert.throws(() => parseBatchFile('id,body\n1,hello', 'posts.csv'), /"text" or "url" column/);
+});
+
+test('parseBatchFile reads JSONL and reports the line of invalid JSON', () => {
+    assert.deepEqual(parseBatchFile('{"id":7,"text":"A post"}\n\n{"url":"https://example.com"}', 'posts.jsonl'), [
+        { id: '7', text: 'A post' },
+        { id: '3', text: '', url: 'https://example.com' },
+    ]);
+    assert.throws(() => parseBatchFile('{"text":"ok"}\n{oops', 'posts.jsonl'), /line 2/);
+});
+
+test('parseBatchFile rejects files without any posts', () => {
+    assert.throws(() => parseBatchFile('text\n\n', 'posts.csv'), /No posts/);
+});
+
+const rows: BatchRow[] = [
+    { item: { id: '1', text: 'Post' }, status: 'done', attempts: 1, result },
+    { item: { id: '2', text: '', url: 'https://example.com/b' }, status: 'error', attempts: 3, error: 'Quota, again', errorCode: 'quota' },
+];
+
+test('exportBatchCsv escapes values so that parseCsv reads them back', () => {
+    const [header, ...lines] = parseCsv(exportBatchCsv(rows));
+    assert.deepEqual(header, ['id', 'url', 'status', 'classification', 'confidence', 'keywords', 'explanation', 'error']);
+    assert.deepEqual(lines, [
+        ['1', '', 'done', 'Fake', '91', 'miracle; cure', 'Says "miracle", cites nobody.', ''],
+        ['2', 'https://example.com/b', 'error', '', '', '', '', 'Quota, again'],
+    ]);
+});
+
+test('exportBatchJsonl writes one record per row with nulls for missing values', () => {
+    const records = exportBatchJsonl(rows).split('\n').map(line => JSON.parse(line));
+    assert.equal(records.length, 2);
+    assert.deepEqual(records[0].keywords, ['miracle', 'cure']);
+    assert.equal(records[1].classification, null);
+    assert.equal(records[1].error, 'Quota, again');
+});
+
+test('runBatch passes the signal to each call and marks the rest cancelled once it is aborted', async () => {
+    const controller = new AbortController();
+    const items = [1, 2, 3].map(id => ({ id: String(id), text: `Post ${id}` }));
+    const received: (AbortSignal | undefined)[] = [];
+    const done = await runBatch(items, async (item, signal) => {
+        received.push(signal);
+        if (item.id === '2') {
+            controller.abort();
+            throw new Error('The operation was aborted');
+        }
+        return result;
+    }, { concurrency: 1, retries: 0, signal: controller.signal, onUpdate: () => undefined });
+
+    assert.deepEqual(received, [controller.signal, controller.signal]);
+    assert.deepEqual(done.map(row => row.status), ['done', 'cancelled', 'cancelled']);
+});
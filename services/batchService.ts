@@ -0,0 +1,183 @@
+import { AnalysisResult, BatchItem } from '../types';
+import { ErrorCode, toAppError } from './errors';
+import { withRetry } from './retry';
+
+export type BatchStatus = 'pending' | 'running' | 'retrying' | 'done' | 'error' | 'cancelled';
+
+export interface BatchRow {
+    item: BatchItem;
+    status: BatchStatus;
+    attempts: number;
+    result?: AnalysisResult;
+    error?: string;
+    errorCode?: ErrorCode;
+}
+
+export interface BatchRunOptions {
+    concurrency: number;
+    // Additional attempts after the first failure; only retryable errors are retried.
+    retries: number;
+    signal?: AbortSignal;
+    onUpdate: (index: number, row: BatchRow) => void;
+}
+
+// --- Import ---
+
+// RFC 4180 CSV: quoted fields may contain commas, newlines and doubled quotes.
+export const parseCsv = (content: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (inQuotes) {
+            if (char === '"' && content[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(value => value.trim() !== ''));
+};
+
+const toBatchItem = (raw: Record<string, unknown>, index: number): BatchItem | null => {
+    const text = typeof raw.text === 'string' ? raw.text.trim() : '';
+    const url = typeof raw.url === 'string' && raw.url.trim() ? raw.url.trim() : undefined;
+    if (!text && !url) return null;
+    const id = raw.id !== undefined && raw.id !== null && String(raw.id).trim() ? String(raw.id).trim() : String(index + 1);
+    return { id, text, ...(url && { url }) };
+};
+
+const parseCsvItems = (content: string): BatchItem[] => {
+    const [header, ...rows] = parseCsv(content.replace(/^\uFEFF/, ''));
+    if (!header) return [];
+    const columns = header.map(name => name.trim().toLowerCase());
+    if (!columns.includes('text') && !columns.includes('url')) {
+        throw new Error('CSV file must have a header row with a "text" or "url" column.');
+    }
+    return rows
+        .map((values, index) => toBatchItem(Object.fromEntries(columns.map((name, i) => [name, values[i] ?? ''])), index))
+        .filter((item): item is BatchItem => item !== null);
+};
+
+const parseJsonlItems = (content: string): BatchItem[] => {
+    return content
+        .split(/\r?\n/)
+        .map((line, index) => {
+            if (!line.trim()) return null;
+            try {
+                return toBatchItem(JSON.parse(line), index);
+            } catch {
+                throw new Error(`Invalid JSON on line ${index + 1}.`);
+            }
+        })
+        .filter((item): item is BatchItem => item !== null);
+};
+
+export const parseBatchFile = (content: string, fileName: string): BatchItem[] => {
+    const items = /\.jsonl?$/i.test(fileName) ? parseJsonlItems(content) : parseCsvItems(content);
+    if (items.length === 0) {
+        throw new Error('No posts with text or a URL were found in the file.');
+    }
+    return items;
+};
+
+// --- Run ---
+
+export const runBatch = async (
+    items: BatchItem[],
+    analyze: (item: BatchItem, signal?: AbortSignal) => Promise<AnalysisResult>,
+    { concurrency, retries, signal, onUpdate }: BatchRunOptions
+): Promise<BatchRow[]> => {
+    const rows: BatchRow[] = items.map(item => ({ item, status: 'pending', attempts: 0 }));
+    const update = (index: number, changes: Partial<BatchRow>) => {
+        rows[index] = { ...rows[index], ...changes };
+        onUpdate(index, rows[index]);
+    };
+
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            if (signal?.aborted) {
+                update(index, { status: 'cancelled' });
+                continue;
+            }
+            let attempts = 1;
+            update(index, { status: 'running', attempts });
+            try {
+                const result = await withRetry(() => analyze(items[index], signal), {
+                    retries,
+                    signal,
+                    onRetry: () => update(index, { status: 'retrying', attempts: ++attempts }),
+                });
+                update(index, { status: 'done', result, error: undefined, errorCode: undefined });
+            } catch (e) {
+                // Keep the message of plain errors, such as a failed article fetch, that cannot be classified.
+                const error = toAppError(e, e instanceof Error ? e.message : undefined);
+                // An aborted provider call can surface as any kind of error, so the signal decides.
+                const cancelled = error.code === 'cancelled' || !!signal?.aborted;
+                update(index, { status: cancelled ? 'cancelled' : 'error', error: error.message, errorCode: error.code });
+            }
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+    return rows;
+};
+
+// --- Export ---
+
+const EXPORT_COLUMNS = ['id', 'url', 'status', 'classification', 'confidence', 'keywords', 'explanation', 'error'] as const;
+
+const toExportRecord = (row: BatchRow): Record<typeof EXPORT_COLUMNS[number], string | number | string[] | null> => ({
+    id: row.item.id,
+    url: row.item.url ?? null,
+    status: row.status,
+    classification: row.result?.classification ?? null,
+    confidence: row.result?.confidence ?? null,
+    keywords: row.result?.keywords ?? [],
+    explanation: row.result?.explanation ?? null,
+    error: row.error ?? null,
+});
+
+const escapeCsv = (value: string): string =>
+    /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const exportBatchCsv = (rows: BatchRow[]): string => {
+    const lines = rows.map(row => {
+        const record = toExportRecord(row);
+        return EXPORT_COLUMNS.map(column => {
+            const value = record[column];
+            if (value === null) return '';
+            return escapeCsv(Array.isArray(value) ? value.join('; ') : String(value));
+        }).join(',');
+    });
+    return [EXPORT_COLUMNS.join(','), ...lines].join('\r\n');
+};
+
+export const exportBatchJsonl = (rows: BatchRow[]): string =>
+    rows.map(row => JSON.stringify(toExportRecord(row))).join('\n');
@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeCbor } from './cbor';
+
+const decode = (...bytes: number[]) => decodeCbor(new Uint8Array(bytes));
+
+test('decodeCbor reads integers of every length encoding', () => {
+    assert.equal(decode(0x17), 23);
+    assert.equal(decode(0x18, 0x64), 100);
+    assert.equal(decode(0x19, 0x03, 0xe8), 1000);
+    assert.equal(decode(0x1a, 0x00, 0x0f, 0x42, 0x40), 1000000);
+    assert.equal(decode(0x1b, 0, 0, 0, 0xe8, 0xd4, 0xa5, 0x10, 0x00), 1000000000000);
+    assert.equal(decode(0x38, 0x63), -100);
+});
+
+test('decodeCbor reads strings, byte strings and their indefinite-length forms', () => {
+    assert.equal(decode(0x64, 0x49, 0x45, 0x54, 0x46), 'IETF');
+    assert.deepEqual(decode(0x43, 0x01, 0x02, 0x03), new Uint8Array([1, 2, 3]));
+    assert.equal(decode(0x7f, 0x62, 0x61, 0x62, 0x61, 0x63, 0xff), 'abc');
+    assert.deepEqual(decode(0x5f, 0x41, 0x01, 0x42, 0x02, 0x03, 0xff), new Uint8Array([1, 2, 3]));
+});
+
+test('decodeCbor reads arrays and maps with stringified keys', () => {
+    assert.deepEqual(decode(0x83, 0x01, 0x82, 0x02, 0x03, 0x9f, 0x04, 0xff), [1, [2, 3], [4]]);
+    assert.deepEqual(decode(0xa2, 0x01, 0x82, 0xf5, 0xf6, 0x61, 0x61, 0xf4), { 1: [true, null], a: false });
+    assert.deepEqual(decode(0xbf, 0x61, 0x61, 0x01, 0xff), { a: 1 });
+});
+
+test('decodeCbor drops tags and reads floats', () => {
+    assert.equal(decode(0xc1, 0x1a, 0x51, 0x4b, 0x67, 0xb0), 1363896240);
+    assert.equal(decode(0xf9, 0x3c, 0x00), 1);
+    assert.equal(decode(0xf9, 0xc4, 0x00), -4);
+    assert.equal(decode(0xf9, 0x7c, 0x00), Infinity);
+    assert.equal(decode(0xfa, 0x47, 0xc3, 0x50, 0x00), 100000);
+    assert.equal(decode(0xfb, 0x3f, 0xf1, 0x99, 0x99, 0x99, 0x99, 0x99, 0x9a), 1.1);
+});
+
+test('decodeCbor throws on truncated data', () => {
+    assert.throws(() => decode(0x62, 0x61), /Unexpected end of CBOR data/);
+    assert.throws(() => decode(0x82, 0x01), /Unexpected end of CBOR data/);
+});
@@ -0,0 +1,114 @@
+// A minimal CBOR (RFC 8949) decoder, enough to read the claims and assertions of C2PA content
+// credentials. Tags are dropped in favour of their content, byte strings are returned as
+// Uint8Array and maps as plain objects with stringified keys.
+
+const BREAK = Symbol('break');
+
+export const decodeCbor = (bytes: Uint8Array): unknown => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 0;
+
+    const need = (length: number) => {
+        if (offset + length > bytes.length) throw new Error('Unexpected end of CBOR data.');
+    };
+
+    const readArgument = (info: number): number => {
+        if (info < 24) return info;
+        if (info === 24) { need(1); return view.getUint8(offset++); }
+        if (info === 25) { need(2); const value = view.getUint16(offset); offset += 2; return value; }
+        if (info === 26) { need(4); const value = view.getUint32(offset); offset += 4; return value; }
+        if (info === 27) { need(8); const value = Number(view.getBigUint64(offset)); offset += 8; return value; }
+        throw new Error(`Unsupported CBOR length encoding ${info}.`);
+    };
+
+    const readBytes = (length: number): Uint8Array => {
+        need(length);
+        const slice = bytes.subarray(offset, offset + length);
+        offset += length;
+        return slice;
+    };
+
+    // Indefinite-length strings are sent as a sequence of definite-length chunks.
+    const readChunks = (major: number): Uint8Array[] => {
+        const chunks: Uint8Array[] = [];
+        for (;;) {
+            const chunk = readItem();
+            if (chunk === BREAK) return chunks;
+            chunks.push(major === 2 ? chunk as Uint8Array : new TextEncoder().encode(chunk as string));
+        }
+    };
+
+    const concat = (chunks: Uint8Array[]): Uint8Array => {
+        const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+        let position = 0;
+        for (const chunk of chunks) {
+            result.set(chunk, position);
+            position += chunk.length;
+        }
+        return result;
+    };
+
+    const readItem = (): unknown => {
+        need(1);
+        const initial = view.getUint8(offset++);
+        const major = initial >> 5;
+        const info = initial & 0x1f;
+        const indefinite = info === 31;
+
+        switch (major) {
+            case 0:
+                return readArgument(info);
+            case 1:
+                return -1 - readArgument(info);
+            case 2:
+                return indefinite ? concat(readChunks(2)) : readBytes(readArgument(info));
+            case 3:
+                return new TextDecoder().decode(indefinite ? concat(readChunks(3)) : readBytes(readArgument(info)));
+            case 4: {
+                const items: unknown[] = [];
+                const length = indefinite ? Infinity : readArgument(info);
+                while (items.length < length) {
+                    const item = readItem();
+                    if (item === BREAK) break;
+                    items.push(item);
+                }
+                return items;
+            }
+            case 5: {
+                const map: Record<string, unknown> = {};
+                const length = indefinite ? Infinity : readArgument(info);
+                for (let i = 0; i < length; i++) {
+                    const key = readItem();
+                    if (key === BREAK) break;
+                    map[String(key)] = readItem();
+                }
+                return map;
+            }
+            case 6:
+                readArgument(info);
+                return readItem();
+            default:
+                if (info === 20) return false;
+                if (info === 21) return true;
+                if (info === 22 || info === 23) return null;
+                if (info === 25) { need(2); const bits = view.getUint16(offset); offset += 2; return halfToNumber(bits); }
+                if (info === 26) { need(4); const value = view.getFloat32(offset); offset += 4; return value; }
+                if (info === 27) { need(8); const value = view.getFloat64(offset); offset += 8; return value; }
+                if (info === 31) return BREAK;
+                if (info < 24) return info;
+                if (info === 24) { need(1); return view.getUint8(offset++); }
+                throw new Error(`Unsupported CBOR simple value ${info}.`);
+        }
+    };
+
+    return readItem();
+};
+
+const halfToNumber = (bits: number): number => {
+    const exponent = (bits >> 10) & 0x1f;
+    const fraction = bits & 0x3ff;
+    const sign = bits & 0x8000 ? -1 : 1;
+    if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+    if (exponent === 31) return fraction ? NaN : sign * Infinity;
+    return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+};
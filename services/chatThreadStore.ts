@@ -0,0 +1,113 @@
+import { ChatMessage, ChatThread } from '../types';
+import { STORES, getAllRecords, getRecord, putRecord, deleteRecord } from './db';
+
+export const DEFAULT_THREAD_TITLE = 'New chat';
+
+const GREETING = "Hello! How can I help you today? You can enable Google Search or Maps for up-to-date information.";
+
+// A new, unsaved thread. It is only stored once the first message is sent.
+export const createThread = (): ChatThread => {
+    const now = Date.now();
+    return {
+        id: crypto.randomUUID(),
+        title: DEFAULT_THREAD_TITLE,
+        createdAt: now,
+        updatedAt: now,
+        pinned: false,
+        messages: [{ id: now, text: GREETING, sender: 'bot' }],
+        options: { useSearch: false, useMaps: false, useThinkingMode: false, useTools: true },
+    };
+};
+
+// Pinned threads first, then the most recently active.
+export const sortThreads = (threads: ChatThread[]): ChatThread[] =>
+    [...threads].sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.updatedAt - a.updatedAt);
+
+export const listThreads = async (): Promise<ChatThread[]> =>
+    sortThreads(await getAllRecords<ChatThread>(STORES.chatThreads));
+
+export const getThread = (id: string): Promise<ChatThread | null> =>
+    getRecord<ChatThread>(STORES.chatThreads, id);
+
+const deriveTitle = (messages: ChatMessage[]): string => {
+    const firstPrompt = messages.find(msg => msg.sender === 'user' && msg.text.trim())?.text.trim().replace(/\s+/g, ' ');
+    if (!firstPrompt) return DEFAULT_THREAD_TITLE;
+    return firstPrompt.length > 60 ? `${firstPrompt.slice(0, 57)}...` : firstPrompt;
+};
+
+// Stores the thread, naming it after its first prompt unless it has been renamed.
+export const saveThread = (thread: ChatThread): Promise<ChatThread> =>
+    putRecord(STORES.chatThreads, {
+        ...thread,
+        title: thread.title === DEFAULT_THREAD_TITLE ? deriveTitle(thread.messages) : thread.title,
+        updatedAt: Date.now(),
+    });
+
+// Metadata changes such as renaming or pinning do not move the thread up the list.
+export const updateThread = (thread: ChatThread): Promise<ChatThread> =>
+    putRecord(STORES.chatThreads, thread);
+
+export const deleteThread = (id: string): Promise<void> => deleteRecord(STORES.chatThreads, id);
+
+export const filterThreads = (threads: ChatThread[], search: string): ChatThread[] => {
+    const terms = search.trim().toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return threads;
+    return threads.filter(thread => {
+        const haystack = [thread.title, ...thread.messages.map(msg => msg.text)].join('\n').toLowerCase();
+        return terms.every(term => haystack.includes(term));
+    });
+};
+
+// --- Export ---
+
+// Error notices and the greeting are left out of exports.
+const exportedMessages = (thread: ChatThread): ChatMessage[] => {
+    const firstUser = thread.messages.findIndex(msg => msg.sender === 'user');
+    return firstUser === -1 ? [] : thread.messages.slice(firstUser).filter(msg => !msg.isError);
+};
+
+export const exportThreadMarkdown = (thread: ChatThread): string => {
+    const lines = [`# ${thread.title}`, '', `_Exported from Verity Lens on ${new Date().toLocaleString()}_`, ''];
+    for (const msg of exportedMessages(thread)) {
+        lines.push(`## ${msg.sender === 'user' ? 'You' : 'Assistant'}`, '');
+        if (msg.reasoning) {
+            lines.push('<details><summary>Reasoning</summary>', '', msg.reasoning.trim(), '', '</details>', '');
+        }
+        if (msg.attachments && msg.attachments.length > 0) {
+            lines.push(`_Attachments: ${msg.attachments.map(a => a.name).join(', ')}_`, '');
+        }
+        for (const call of msg.toolCalls ?? []) {
+            lines.push(`> Tool \`${call.name}\`: ${call.summary ?? call.error ?? call.status}`, '');
+        }
+        lines.push(msg.text.trim(), '');
+        if (msg.sources && msg.sources.length > 0) {
+            lines.push('**Sources:**', '');
+            for (const source of msg.sources) {
+                lines.push(`- [${source.title.replace(/[[\]]/g, '')}](${source.uri})`);
+            }
+            lines.push('');
+        }
+    }
+    return lines.join('\n');
+};
+
+export const exportThreadJson = (thread: ChatThread): string =>
+    JSON.stringify({
+        id: thread.id,
+        title: thread.title,
+        createdAt: new Date(thread.createdAt).toISOString(),
+        updatedAt: new Date(thread.updatedAt).toISOString(),
+        messages: exportedMessages(thread).map(msg => ({
+            role: msg.sender === 'user' ? 'user' : 'assistant',
+            text: msg.text,
+            ...(msg.reasoning && { reasoning: msg.reasoning }),
+            // Attachment contents stay in the app, like generated images.
+            ...(msg.attachments && msg.attachments.length > 0 && {
+                attachments: msg.attachments.map(({ name, mimeType, size }) => ({ name, mimeType, size })),
+            }),
+            ...(msg.sources && msg.sources.length > 0 && { sources: msg.sources }),
+            ...(msg.citations && msg.citations.length > 0 && { citations: msg.citations }),
+            // Generated images are left out; they are only kept in the app.
+            ...(msg.toolCalls && msg.toolCalls.length > 0 && { toolCalls: msg.toolCalls.map(({ imageUrl, ...call }) => call) }),
+        })),
+    }, null, 2);
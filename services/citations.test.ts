@@ -0,0 +1,24 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GroundingSource } from '../types';
+import { annotateCitations, renderCitationMarkers } from './citations';
+
+const render = (sources: GroundingSource[]): string => {
+    const text = 'The bridge opened in 1937 after four years of work.';
+    return renderCitationMarkers(annotateCitations(text, sources, [{ start: 0, end: text.length, sourceIndices: sources.map((_, i) => i) }]), sources);
+};
+
+test('citation markers link web sources', () => {
+    const html = render([{ uri: 'https://example.com/bridge', title: 'Bridge history', type: 'web' }]);
+    assert.match(html, /<a href="https:\/\/example\.com\/bridge"[^>]*>\[1\]<\/a>/);
+});
+
+test('citation markers do not link other schemes', () => {
+    const html = render([
+        { uri: 'javascript:alert(1)', title: 'Script', type: 'web' },
+        { uri: 'data:text/html,<script>alert(1)</script>', title: 'Data', type: 'web' },
+    ]);
+    assert.doesNotMatch(html, /href=/);
+    assert.doesNotMatch(html, /<script>/);
+    assert.match(html, /\[1\].*\[2\]/);
+});
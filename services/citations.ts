@@ -0,0 +1,125 @@
+import { GroundingCitation, GroundingSource } from '../types';
+
+// Turns the citations of a grounded answer into inline markers. Each cited passage is followed by
+// numbered markers ([1], [2], ...) matching the order of the sources list, and hovering a marker
+// shows the source. Sentences that no citation overlaps get an [?] marker, since in a fact-checking
+// tool an unsourced sentence deserves as much attention as a sourced one.
+//
+// annotateCitations only inserts empty placeholders, which survive sanitizing; the markers
+// themselves are filled in by renderCitationMarkers once the markdown has been rendered. The
+// placeholder attribute name is random per page load, so text quoted by the model cannot forge one.
+
+// Shorter fragments, such as "Sure!" or a lead-in ending in a colon, are not worth flagging.
+const MIN_FLAGGED_WORDS = 4;
+
+const SENTENCE_END = /[.!?]+["'”’)\]*_]*(?=\s|$)/g;
+
+const escapeHtml = (value: string): string =>
+    value.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]!));
+
+const hostOf = (uri: string): string => {
+    try {
+        return new URL(uri).hostname.replace(/^www\./, '');
+    } catch {
+        return uri;
+    }
+};
+
+// Character spans of the prose sentences in `text`. Code blocks, headings and table rows are
+// skipped, as they are not claims.
+export const findSentences = (text: string): { start: number; end: number }[] => {
+    const sentences: { start: number; end: number }[] = [];
+    let inCodeBlock = false;
+    let lineStart = 0;
+    for (const line of text.split('\n')) {
+        const trimmed = line.trim();
+        if (trimmed.startsWith('```')) {
+            inCodeBlock = !inCodeBlock;
+        } else if (!inCodeBlock && trimmed && !trimmed.startsWith('#') && !trimmed.startsWith('|')) {
+            let sentenceStart = 0;
+            const ends = [...line.matchAll(SENTENCE_END)].map(match => match.index! + match[0].length);
+            if (line.trimEnd().length > (ends[ends.length - 1] ?? 0)) ends.push(line.trimEnd().length);
+            for (const end of ends) {
+                if (line.slice(sentenceStart, end).trim().split(/\s+/).length >= MIN_FLAGGED_WORDS) {
+                    sentences.push({ start: lineStart + sentenceStart, end: lineStart + end });
+                }
+                sentenceStart = end;
+            }
+        }
+        lineStart += line.length + 1;
+    }
+    return sentences;
+};
+
+export const findUnsupportedSentences = (text: string, citations: GroundingCitation[]): { start: number; end: number }[] =>
+    findSentences(text).filter(sentence =>
+        !citations.some(citation => citation.start < sentence.end && citation.end > sentence.start)
+    );
+
+const PLACEHOLDER_ATTR = `data-cite-${Math.random().toString(36).slice(2, 10)}`;
+const CITATION_PLACEHOLDER = new RegExp(`<sup ${PLACEHOLDER_ATTR}="([\\d ]*)"></sup>`, 'g');
+
+// The markers are added after sanitizing, so only web links are made clickable; a source with any
+// other scheme, such as javascript: or data:, is shown without a link.
+const isWebUrl = (uri: string): boolean => {
+    try {
+        const { protocol } = new URL(uri);
+        return protocol === 'http:' || protocol === 'https:';
+    } catch {
+        return false;
+    }
+};
+
+const citationMarker = (source: GroundingSource, index: number): string =>
+    `<span class="relative inline-block group align-super text-[0.7em] leading-none">` +
+    (isWebUrl(source.uri)
+        ? `<a href="${escapeHtml(source.uri)}" target="_blank" rel="noopener noreferrer" class="text-blue-400 no-underline hover:underline">[${index + 1}]</a>`
+        : `<span class="text-blue-400">[${index + 1}]</span>`) +
+    `<span class="absolute z-20 bottom-full left-1/2 -translate-x-1/2 mb-1 hidden group-hover:block w-56 p-2 rounded-lg bg-gray-900 border border-gray-600 shadow-xl text-xs text-left text-gray-200 whitespace-normal">` +
+    `<span class="block font-semibold">${escapeHtml(source.title)}</span>` +
+    `<span class="block text-gray-400 truncate">${source.type === 'maps' ? 'Google Maps' : escapeHtml(hostOf(source.uri))}</span>` +
+    `</span></span>`;
+
+const UNSUPPORTED_MARKER =
+    `<sup class="text-amber-400 cursor-help" title="No source supports this sentence">[?]</sup>`;
+
+// Moves an offset that falls inside a run of emphasis markers such as `**` to the end of the run,
+// so that a marker does not split it.
+const outsideEmphasis = (text: string, at: number): number => {
+    let end = at;
+    while (end > 0 && end < text.length && /[*_~]/.test(text[end - 1]) && /[*_~]/.test(text[end])) end++;
+    return end;
+};
+
+// Inserts citation placeholders after each cited passage and after each unsupported sentence.
+export const annotateCitations = (text: string, sources: GroundingSource[], citations: GroundingCitation[]): string => {
+    const markers = new Map<number, Set<number>>();
+    for (const citation of citations) {
+        const at = outsideEmphasis(text, citation.end);
+        const indices = markers.get(at) ?? new Set<number>();
+        citation.sourceIndices.filter(index => sources[index]).forEach(index => indices.add(index));
+        markers.set(at, indices);
+    }
+
+    const insertions: { at: number; html: string }[] = [];
+    for (const [at, indices] of markers) {
+        insertions.push({ at, html: `<sup ${PLACEHOLDER_ATTR}="${[...indices].sort((a, b) => a - b).join(' ')}"></sup>` });
+    }
+    for (const sentence of findUnsupportedSentences(text, citations)) {
+        insertions.push({ at: sentence.end, html: `<sup ${PLACEHOLDER_ATTR}=""></sup>` });
+    }
+
+    // Insert from the end so earlier offsets stay valid.
+    let annotated = text;
+    for (const { at, html } of insertions.sort((a, b) => b.at - a.at)) {
+        annotated = annotated.slice(0, at) + html + annotated.slice(at);
+    }
+    return annotated;
+};
+
+// An empty placeholder marks an unsupported sentence.
+export const renderCitationMarkers = (html: string, sources: GroundingSource[]): string =>
+    html.replace(CITATION_PLACEHOLDER, (_, list: string) => {
+        if (!list) return UNSUPPORTED_MARKER;
+        return list.split(' ').map(Number).filter(index => sources[index]).map(index => citationMarker(sources[index], index)).join('');
+    });
@@ -0,0 +1,75 @@
+// Thin promise wrapper around the app's IndexedDB database.
+// Add new object stores to STORES and bump DB_VERSION; missing stores are created on upgrade.
+
+const DB_NAME = 'verity-lens';
+const DB_VERSION = 4;
+
+export const STORES = {
+    analyses: 'analyses',
+    chatThreads: 'chatThreads',
+    videoJobs: 'videoJobs',
+    videos: 'videos',
+    storyboards: 'storyboards',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error("IndexedDB is not supported by your browser."));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                for (const name of Object.values(STORES)) {
+                    if (!db.objectStoreNames.contains(name)) {
+                        db.createObjectStore(name, { keyPath: 'id' });
+                    }
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error ?? new Error("Failed to open the local database."));
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const withStore = async <T>(
+    storeName: StoreName,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+    const db = await openDatabase();
+    const store = db.transaction(storeName, mode).objectStore(storeName);
+    return promisifyRequest(run(store));
+};
+
+export const getAllRecords = <T>(storeName: StoreName): Promise<T[]> =>
+    withStore(storeName, 'readonly', store => store.getAll() as IDBRequest<T[]>);
+
+export const getRecord = async <T>(storeName: StoreName, id: string): Promise<T | null> =>
+    (await withStore(storeName, 'readonly', store => store.get(id) as IDBRequest<T | undefined>)) ?? null;
+
+export const putRecord = async <T extends { id: string }>(storeName: StoreName, record: T): Promise<T> => {
+    await withStore(storeName, 'readwrite', store => store.put(record));
+    return record;
+};
+
+export const deleteRecord = async (storeName: StoreName, id: string): Promise<void> => {
+    await withStore(storeName, 'readwrite', store => store.delete(id));
+};
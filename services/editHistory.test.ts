@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    addVersion, canRedo, canUndo, childrenOf, createEditTree, currentVersion, EditTree, exportEditChain,
+    pathTo, redo, selectVersion, undo, updateVersion,
+} from './editHistory';
+
+const edit = (tree: EditTree, prompt: string): EditTree =>
+    addVersion(tree, tree.currentId, { prompt, imageUrl: `data:image/png;base64,${prompt}` });
+
+test('undo and redo walk back and forth along the current path', () => {
+    const original = createEditTree('data:image/png;base64,original');
+    const twice = edit(edit(original, 'warmer'), 'crop');
+    assert.equal(canUndo(original), false);
+    assert.equal(canRedo(twice), false);
+
+    const back = undo(undo(twice));
+    assert.equal(back.currentId, original.currentId);
+    assert.equal(undo(back), back);
+    assert.equal(currentVersion(redo(back)).prompt, 'warmer');
+    assert.equal(currentVersion(redo(redo(back))).prompt, 'crop');
+    assert.equal(canRedo(redo(redo(back))), false);
+});
+
+test('editing after undo starts a branch and keeps the undone versions', () => {
+    const first = edit(createEditTree('data:image/png;base64,original'), 'warmer');
+    const undone = undo(edit(first, 'crop'));
+    const branched = edit(undone, 'black and white');
+
+    assert.equal(canRedo(branched), false);
+    assert.equal(branched.versions.length, 4);
+    assert.deepEqual(childrenOf(branched, first.currentId).map(version => version.prompt), ['crop', 'black and white']);
+    assert.deepEqual(pathTo(branched, branched.currentId).map(version => version.prompt), [null, 'warmer', 'black and white']);
+});
+
+test('selectVersion jumps to any version and clears redo, ignoring unknown ids', () => {
+    const first = edit(createEditTree('data:image/png;base64,original'), 'warmer');
+    const undone = undo(edit(first, 'crop'));
+    const selected = selectVersion(undone, first.versions[0].id);
+    assert.equal(selected.currentId, first.versions[0].id);
+    assert.deepEqual(selected.redoIds, []);
+    assert.equal(selectVersion(undone, 'missing'), undone);
+});
+
+test('updateVersion changes one version without touching the original tree', () => {
+    const tree = edit(createEditTree('data:image/png;base64,original'), 'warmer');
+    const updated = updateVersion(tree, tree.currentId, { imageUrl: 'data:image/png;base64,composited' });
+    assert.equal(currentVersion(updated).imageUrl, 'data:image/png;base64,composited');
+    assert.equal(currentVersion(tree).imageUrl, 'data:image/png;base64,warmer');
+});
+
+test('exportEditChain lists the steps from the original to the chosen version', () => {
+    const first = edit(createEditTree('data:image/png;base64,original'), 'warmer');
+    const masked = addVersion(first, first.currentId, {
+        prompt: 'remove the sign',
+        imageUrl: 'data:image/png;base64,final',
+        masked: { maskUrl: 'data:image/png;base64,mask', rawImageUrl: 'data:image/png;base64,raw', feather: 8 },
+    });
+    const exported = JSON.parse(exportEditChain(masked, masked.currentId, 'photo.png'));
+    assert.equal(exported.source, 'photo.png');
+    assert.deepEqual(exported.steps.map((step: { step: number; prompt: string | null }) => [step.step, step.prompt]), [
+        [0, null], [1, 'warmer'], [2, 'remove the sign'],
+    ]);
+    assert.equal(exported.steps[2].mask, 'data:image/png;base64,mask');
+    assert.equal(exported.steps[2].feather, 8);
+    assert.equal(exported.steps[1].mask, undefined);
+});
@@ -0,0 +1,93 @@
+// The versions of an image in the editor, kept as a tree: every edit is a child of the version
+// it was made from, so going back and editing again starts a new branch instead of discarding
+// later work. Trees are immutable; every update returns a new tree.
+
+export interface MaskedEdit {
+    // Data URLs of the mask as painted and of the model output before compositing.
+    maskUrl: string;
+    rawImageUrl: string;
+    feather: number;
+}
+
+export interface EditVersion {
+    id: string;
+    parentId: string | null;
+    // The instruction that produced this version; null for the uploaded original.
+    prompt: string | null;
+    // A data URL, so versions can be edited further and exported without the original file.
+    imageUrl: string;
+    masked?: MaskedEdit;
+    createdAt: number;
+}
+
+export interface EditTree {
+    versions: EditVersion[];
+    currentId: string;
+    // Versions left by undo, most recent last; cleared when a new path is taken.
+    redoIds: string[];
+}
+
+export const createEditTree = (imageUrl: string): EditTree => {
+    const root: EditVersion = { id: crypto.randomUUID(), parentId: null, prompt: null, imageUrl, createdAt: Date.now() };
+    return { versions: [root], currentId: root.id, redoIds: [] };
+};
+
+export const getVersion = (tree: EditTree, id: string): EditVersion | undefined =>
+    tree.versions.find(version => version.id === id);
+
+export const currentVersion = (tree: EditTree): EditVersion => getVersion(tree, tree.currentId) ?? tree.versions[0];
+
+export const childrenOf = (tree: EditTree, id: string): EditVersion[] =>
+    tree.versions.filter(version => version.parentId === id);
+
+// The chain of versions from the original to `id`, inclusive.
+export const pathTo = (tree: EditTree, id: string): EditVersion[] => {
+    const path: EditVersion[] = [];
+    for (let version = getVersion(tree, id); version; version = version.parentId ? getVersion(tree, version.parentId) : undefined) {
+        path.unshift(version);
+    }
+    return path;
+};
+
+export const addVersion = (tree: EditTree, parentId: string, edit: Pick<EditVersion, 'prompt' | 'imageUrl' | 'masked'>): EditTree => {
+    const version: EditVersion = { id: crypto.randomUUID(), parentId, createdAt: Date.now(), ...edit };
+    return { versions: [...tree.versions, version], currentId: version.id, redoIds: [] };
+};
+
+export const updateVersion = (tree: EditTree, id: string, changes: Partial<Pick<EditVersion, 'imageUrl' | 'masked'>>): EditTree => ({
+    ...tree,
+    versions: tree.versions.map(version => version.id === id ? { ...version, ...changes } : version),
+});
+
+export const selectVersion = (tree: EditTree, id: string): EditTree =>
+    id === tree.currentId || !getVersion(tree, id) ? tree : { ...tree, currentId: id, redoIds: [] };
+
+export const canUndo = (tree: EditTree): boolean => currentVersion(tree).parentId !== null;
+
+export const canRedo = (tree: EditTree): boolean => tree.redoIds.length > 0;
+
+export const undo = (tree: EditTree): EditTree => {
+    const parentId = currentVersion(tree).parentId;
+    return parentId ? { ...tree, currentId: parentId, redoIds: [...tree.redoIds, tree.currentId] } : tree;
+};
+
+export const redo = (tree: EditTree): EditTree => {
+    const next = tree.redoIds[tree.redoIds.length - 1];
+    return next ? { ...tree, currentId: next, redoIds: tree.redoIds.slice(0, -1) } : tree;
+};
+
+// The chain leading to `id` as JSON, each step with its prompt and resulting image.
+export const exportEditChain = (tree: EditTree, id: string, fileName: string): string =>
+    JSON.stringify({
+        source: fileName,
+        exportedAt: new Date().toISOString(),
+        steps: pathTo(tree, id).map((version, index) => ({
+            step: index,
+            id: version.id,
+            parentId: version.parentId,
+            prompt: version.prompt,
+            createdAt: new Date(version.createdAt).toISOString(),
+            ...(version.masked && { mask: version.masked.maskUrl, feather: version.masked.feather }),
+            image: version.imageUrl,
+        })),
+    }, null, 2);
@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AppError, QuotaError, toAppError } from './errors';
+
+test('toAppError passes AppErrors through unchanged', () => {
+    const error = new QuotaError();
+    assert.equal(toAppError(error), error);
+});
+
+test('toAppError classifies by HTTP status, including statuses only found in the message', () => {
+    const cases: [unknown, string, boolean][] = [
+        [Object.assign(new Error('Forbidden'), { status: 403 }), 'auth', false],
+        [new Error('{"error":{"code":429,"status":"RESOURCE_EXHAUSTED"}}'), 'quota', true],
+        [new Error('https://api.example.com/chat/completions returned 404 Not Found: {}'), 'notFound', false],
+        [new Error('Request failed with status code 503'), 'server', true],
+    ];
+    for (const [error, code, retryable] of cases) {
+        const appError = toAppError(error);
+        assert.equal(appError.code, code, String(error));
+        assert.equal(appError.retryable, retryable, String(error));
+        assert.equal(appError.cause, error);
+    }
+});
+
+test('toAppError classifies by message and error type when there is no status', () => {
+    assert.equal(toAppError(new Error('API key not valid. Please pass a valid API key.')).code, 'auth');
+    assert.equal(toAppError(new Error('Response was blocked due to SAFETY')).code, 'safety');
+    assert.equal(toAppError(new SyntaxError('Unexpected end of JSON input')).code, 'invalidResponse');
+    assert.equal(toAppError(new TypeError('Failed to fetch')).code, 'network');
+    assert.equal(toAppError(new DOMException('The operation was aborted.', 'AbortError')).code, 'cancelled');
+});
+
+test('toAppError falls back to an unknown error with the given message', () => {
+    const appError = toAppError('something odd', 'Failed to analyze.');
+    assert.ok(appError instanceof AppError);
+    assert.equal(appError.code, 'unknown');
+    assert.equal(appError.message, 'Failed to analyze.');
+    assert.equal(appError.retryable, false);
+});
@@ -0,0 +1,165 @@
+// Errors surfaced by the model services. Every failure that reaches the UI is an AppError,
+// so components can pick guidance by `code` and the retry policy can check `retryable`.
+
+export type ErrorCode =
+    | 'auth'
+    | 'quota'
+    | 'safety'
+    | 'invalidResponse'
+    | 'network'
+    | 'server'
+    | 'notFound'
+    | 'unsupported'
+    | 'config'
+    | 'cancelled'
+    | 'unknown';
+
+export class AppError extends Error {
+    readonly code: ErrorCode;
+    readonly retryable: boolean;
+
+    constructor(code: ErrorCode, message: string, retryable: boolean, cause?: unknown) {
+        super(message, { cause });
+        this.name = 'AppError';
+        this.code = code;
+        this.retryable = retryable;
+    }
+}
+
+export class AuthError extends AppError {
+    constructor(message = 'The API key is missing, invalid or not allowed to use this model.', cause?: unknown) {
+        super('auth', message, false, cause);
+        this.name = 'AuthError';
+    }
+}
+
+export class QuotaError extends AppError {
+    constructor(message = 'The rate limit or quota for the model API was exceeded.', cause?: unknown) {
+        super('quota', message, true, cause);
+        this.name = 'QuotaError';
+    }
+}
+
+export class SafetyError extends AppError {
+    constructor(message = 'The request or response was blocked by the safety filters.', cause?: unknown) {
+        super('safety', message, false, cause);
+        this.name = 'SafetyError';
+    }
+}
+
+export class InvalidResponseError extends AppError {
+    constructor(message = 'The model returned a response that could not be understood.', cause?: unknown) {
+        super('invalidResponse', message, true, cause);
+        this.name = 'InvalidResponseError';
+    }
+}
+
+// Structured output that still did not match its schema after a repair attempt.
+export class ValidationError extends AppError {
+    readonly issues: string[];
+
+    constructor(issues: string[], message = 'The model response did not match the expected format.', cause?: unknown) {
+        super('invalidResponse', message, false, cause);
+        this.name = 'ValidationError';
+        this.issues = issues;
+    }
+}
+
+export class NetworkError extends AppError {
+    constructor(message = 'The model API could not be reached.', cause?: unknown) {
+        super('network', message, true, cause);
+        this.name = 'NetworkError';
+    }
+}
+
+export class ServerError extends AppError {
+    constructor(message = 'The model API is temporarily unavailable.', cause?: unknown) {
+        super('server', message, true, cause);
+        this.name = 'ServerError';
+    }
+}
+
+export class NotFoundError extends AppError {
+    constructor(message = 'The requested model or resource was not found.', cause?: unknown) {
+        super('notFound', message, false, cause);
+        this.name = 'NotFoundError';
+    }
+}
+
+export class UnsupportedError extends AppError {
+    constructor(message: string, cause?: unknown) {
+        super('unsupported', message, false, cause);
+        this.name = 'UnsupportedError';
+    }
+}
+
+export class ConfigurationError extends AppError {
+    constructor(message: string, cause?: unknown) {
+        super('config', message, false, cause);
+        this.name = 'ConfigurationError';
+    }
+}
+
+export class CancelledError extends AppError {
+    constructor(message = 'The request was cancelled.', cause?: unknown) {
+        super('cancelled', message, false, cause);
+        this.name = 'CancelledError';
+    }
+}
+
+// What the user can do about each kind of failure; shown under the error message.
+export const ERROR_GUIDANCE: Record<ErrorCode, string> = {
+    auth: 'Check that GEMINI_API_KEY (or OPENAI_API_KEY) in .env.local is set to a valid key with access to this model, then restart the app.',
+    quota: 'Wait a minute and try again, or check the usage limits and billing for your API key.',
+    safety: 'Rephrase the prompt or use different input. Content that violates the usage policies cannot be processed.',
+    invalidResponse: 'Try again. If it keeps happening, shorten the input or turn off some analysis options.',
+    network: 'Check your internet connection and any proxy or firewall settings, then try again.',
+    server: 'The service is having problems. Try again in a few minutes.',
+    notFound: 'The model may not be available for your API key or region. Select a different key or model.',
+    unsupported: 'Switch to a provider that supports this feature with MODEL_PROVIDER.',
+    config: 'Check the model provider settings in .env.local against the README, then restart the app.',
+    cancelled: 'Start the request again when you are ready.',
+    unknown: 'Try again. Details are in the browser console.',
+};
+
+const statusOf = (error: any): number | undefined => {
+    if (typeof error?.status === 'number') return error.status;
+    const match = String(error?.message ?? '').match(/"code":\s*(\d{3})|status(?: code)?:? (\d{3})|returned (\d{3})/);
+    return match ? Number(match[1] ?? match[2] ?? match[3]) : undefined;
+};
+
+// Classifies any thrown value. Already-typed errors pass through unchanged; anything that
+// cannot be classified becomes an 'unknown' AppError with `fallbackMessage`.
+export const toAppError = (error: unknown, fallbackMessage = 'An unknown error occurred.'): AppError => {
+    if (error instanceof AppError) {
+        return error;
+    }
+    const message = error instanceof Error ? error.message : String(error ?? '');
+    const status = statusOf(error);
+
+    if (error instanceof DOMException && error.name === 'AbortError') {
+        return new CancelledError(undefined, error);
+    }
+    if (status === 401 || status === 403 || /API[ _]?key/i.test(message)) {
+        return new AuthError(undefined, error);
+    }
+    if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+        return new QuotaError(undefined, error);
+    }
+    if (status === 404 || /Requested entity was not found/i.test(message)) {
+        return new NotFoundError(undefined, error);
+    }
+    if (status !== undefined && status >= 500) {
+        return new ServerError(undefined, error);
+    }
+    if (/SAFETY|PROHIBITED_CONTENT|BLOCKLIST|blocked/i.test(message)) {
+        return new SafetyError(undefined, error);
+    }
+    if (error instanceof SyntaxError) {
+        return new InvalidResponseError(undefined, error);
+    }
+    if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) {
+        return new NetworkError(undefined, error);
+    }
+    return new AppError('unknown', fallbackMessage, false, error);
+};
@@ -0,0 +1,84 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AnalysisOptions } from '../types';
+import { createMockProvider, ModelProvider } from './providers';
+import { computeReport, createRecordingProvider, createReplayProvider, EvaluationPrediction, Recordings, runEvaluation } from './evaluationService';
+
+const options: AnalysisOptions = { useThinkingMode: false, confidenceThreshold: 0, cues: [], checkClaims: false };
+const examples = [{ id: 'a', text: 'An article.', label: 'Fake' as const }];
+
+// Answers with an invalid response first, so the analysis has to make a repair call.
+const needsRepair = (): ModelProvider => {
+    const responses = [
+        JSON.stringify({ classification: 'Maybe', confidence: 40, explanation: 'Unsure.', keywords: [] }),
+        JSON.stringify({ classification: 'Fake', confidence: 80, explanation: 'Repaired.', keywords: ['article'] }),
+    ];
+    return { ...createMockProvider(), generateJson: async () => responses.shift() ?? '{}' };
+};
+
+test('recordings replay every response of an analysis in order', async () => {
+    const recordings: Recordings = {};
+    const live = needsRepair();
+    const recorded = await runEvaluation(examples, options, { providerFor: id => createRecordingProvider(live, recordings, id) });
+    assert.equal(recordings.a.length, 2);
+    assert.equal(recorded[0].predicted, 'Fake');
+
+    const offline: ModelProvider = { ...createMockProvider(), generateJson: async () => { throw new Error('not recorded'); } };
+    const replayed = await runEvaluation(examples, options, { providerFor: id => createReplayProvider(offline, recordings, id) });
+    assert.deepEqual(replayed, recorded);
+});
+
+const close = (actual: number, expected: number) => assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} is not ${expected}`);
+
+const predictions: EvaluationPrediction[] = [
+    { id: 'a', label: 'Fake', predicted: 'Fake', confidence: 90 },
+    { id: 'b', label: 'Fake', predicted: 'Real', confidence: 80 },
+    { id: 'c', label: 'Real', predicted: 'Real', confidence: 70 },
+    { id: 'd', label: 'Real', predicted: 'Inconclusive', confidence: 40 },
+    { id: 'e', label: 'Fake', predicted: null, confidence: null, error: 'Quota exceeded.' },
+];
+
+test('computeReport counts errors and Inconclusive as wrong but not as decided', () => {
+    const report = computeReport(predictions, 'test-model', options);
+    assert.equal(report.total, 5);
+    assert.equal(report.errors, 1);
+    close(report.accuracy, 2 / 5);
+    close(report.coverage, 3 / 5);
+    close(report.decidedAccuracy, 2 / 3);
+    assert.deepEqual(report.confusionMatrix, {
+        Real: { Real: 1, Fake: 0, Inconclusive: 1 },
+        Fake: { Real: 1, Fake: 1, Inconclusive: 0 },
+    });
+});
+
+test('computeReport gives precision, recall and F1 per ground-truth label', () => {
+    const { perClass } = computeReport(predictions, 'test-model', options);
+    assert.equal(perClass.Fake.support, 3);
+    close(perClass.Fake.precision, 1);
+    close(perClass.Fake.recall, 1 / 3);
+    close(perClass.Fake.f1, 0.5);
+    assert.equal(perClass.Real.support, 2);
+    close(perClass.Real.precision, 0.5);
+    close(perClass.Real.recall, 0.5);
+    close(perClass.Real.f1, 0.5);
+});
+
+test('computeReport bins only Real/Fake verdicts and weights the calibration error by bin size', () => {
+    const { calibration } = computeReport(predictions, 'test-model', options);
+    assert.equal(calibration.bins.length, 10);
+    assert.deepEqual(calibration.bins.map(bin => bin.count), [0, 0, 0, 0, 0, 0, 0, 1, 1, 1]);
+    close(calibration.bins[8].avgConfidence, 0.8);
+    assert.equal(calibration.bins[8].accuracy, 0);
+    // |1 - 0.9| + |0 - 0.8| + |1 - 0.7|, each over three scored predictions.
+    close(calibration.ece, (0.1 + 0.8 + 0.3) / 3);
+});
+
+test('computeReport puts a confidence of 100 in the top bin and handles an empty run', () => {
+    const sure = computeReport([{ id: 'a', label: 'Real', predicted: 'Real', confidence: 100 }], 'test-model', options, 4);
+    assert.equal(sure.calibration.bins[3].count, 1);
+    assert.equal(sure.calibration.ece, 0);
+
+    const empty = computeReport([], 'test-model', options);
+    assert.equal(empty.accuracy, 0);
+    assert.equal(empty.calibration.ece, 0);
+});
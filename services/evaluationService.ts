@@ -0,0 +1,331 @@
+import { AnalysisOptions, Classification } from '../types';
+import { analyzeNewsArticle } from './geminiService';
+import { ModelProvider } from './providers';
+import { parseCsv, runBatch } from './batchService';
+
+export type GroundTruth = 'Real' | 'Fake';
+
+export interface LabeledExample {
+    id: string;
+    text: string;
+    label: GroundTruth;
+}
+
+export interface EvaluationPrediction {
+    id: string;
+    label: GroundTruth;
+    predicted: Classification | null;
+    confidence: number | null;
+    error?: string;
+}
+
+export interface ClassMetrics {
+    precision: number;
+    recall: number;
+    f1: number;
+    support: number;
+}
+
+export interface ReliabilityBin {
+    lower: number;
+    upper: number;
+    count: number;
+    avgConfidence: number;
+    accuracy: number;
+}
+
+export interface EvaluationReport {
+    generatedAt: string;
+    model: string;
+    options: AnalysisOptions;
+    total: number;
+    errors: number;
+    // Correct predictions over all examples; errors and 'Inconclusive' count as wrong.
+    accuracy: number;
+    // Share of examples that received a Real/Fake verdict.
+    coverage: number;
+    // Accuracy over the examples that received a Real/Fake verdict.
+    decidedAccuracy: number;
+    perClass: Record<GroundTruth, ClassMetrics>;
+    // Rows are ground-truth labels, columns are predicted classifications.
+    confusionMatrix: Record<GroundTruth, Record<Classification, number>>;
+    calibration: {
+        bins: ReliabilityBin[];
+        // Expected calibration error on a 0-1 scale.
+        ece: number;
+    };
+    predictions: EvaluationPrediction[];
+}
+
+// Raw model response texts per example id, in the order the provider's `generateJson` returned
+// them. An analysis can make more than one call, e.g. when a structured response is repaired.
+export type Recordings = Record<string, string[]>;
+
+const LABELS: GroundTruth[] = ['Real', 'Fake'];
+const PREDICTIONS: Classification[] = ['Real', 'Fake', 'Inconclusive'];
+
+// --- Dataset ---
+
+const normalizeLabel = (value: unknown): GroundTruth | null => {
+    const label = String(value ?? '').trim().toLowerCase();
+    if (['real', 'true', '1'].includes(label)) return 'Real';
+    if (['fake', 'false', '0'].includes(label)) return 'Fake';
+    return null;
+};
+
+const toExample = (raw: Record<string, unknown>, index: number): LabeledExample => {
+    const label = normalizeLabel(raw.label);
+    const text = typeof raw.text === 'string' ? raw.text.trim() : '';
+    if (!label || !text) {
+        throw new Error(`Example ${index + 1} needs a "text" and a "label" of Real or Fake.`);
+    }
+    const id = raw.id !== undefined && raw.id !== null && String(raw.id).trim() ? String(raw.id).trim() : String(index + 1);
+    return { id, text, label };
+};
+
+export const parseLabeledDataset = (content: string, fileName: string): LabeledExample[] => {
+    if (/\.jsonl?$/i.test(fileName)) {
+        return content
+            .split(/\r?\n/)
+            .filter(line => line.trim())
+            .map((line, index) => toExample(JSON.parse(line), index));
+    }
+    const [header, ...rows] = parseCsv(content.replace(/^\uFEFF/, ''));
+    const columns = (header ?? []).map(name => name.trim().toLowerCase());
+    return rows.map((values, index) => toExample(Object.fromEntries(columns.map((name, i) => [name, values[i]])), index));
+};
+
+// --- Providers ---
+
+// Wraps a provider so that analysis responses come from the recordings instead of the model,
+// replayed in the order they were recorded.
+export const createReplayProvider = (inner: ModelProvider, recordings: Recordings, id: string): ModelProvider => {
+    let next = 0;
+    return {
+        ...inner,
+        generateJson: async () => {
+            const responses = recordings[id];
+            if (!responses) {
+                throw new Error(`No recorded response for example "${id}".`);
+            }
+            if (next >= responses.length) {
+                throw new Error(`Example "${id}" made more calls than were recorded (${responses.length}).`);
+            }
+            return responses[next++];
+        },
+    };
+};
+
+// A new recording provider is made for every attempt at an example, so only the responses of the
+// last attempt are kept and replay starts from the first of them.
+export const createRecordingProvider = (inner: ModelProvider, recordings: Recordings, id: string): ModelProvider => {
+    const responses: string[] = [];
+    recordings[id] = responses;
+    return {
+        ...inner,
+        generateJson: async (request) => {
+            const text = await inner.generateJson(request);
+            responses.push(text);
+            return text;
+        },
+    };
+};
+
+// --- Runner ---
+
+export const runEvaluation = async (
+    examples: LabeledExample[],
+    options: AnalysisOptions,
+    {
+        concurrency = 3,
+        retries = 1,
+        providerFor,
+        onProgress,
+    }: {
+        concurrency?: number;
+        retries?: number;
+        // Returns the provider for one example, or undefined to use the active provider.
+        providerFor?: (id: string) => ModelProvider | undefined;
+        onProgress?: (completed: number, total: number) => void;
+    } = {}
+): Promise<EvaluationPrediction[]> => {
+    // Claim checks make grounded calls that cannot be recorded per example, and
+    // do not affect the verdict being measured.
+    const evalOptions: AnalysisOptions = { ...options, checkClaims: false };
+    let completed = 0;
+
+    const rows = await runBatch(
+        examples.map(({ id, text }) => ({ id, text })),
+        item => analyzeNewsArticle(item.text, evalOptions, undefined, providerFor?.(item.id)),
+        {
+            concurrency,
+            retries,
+            onUpdate: (_, row) => {
+                if (row.status === 'done' || row.status === 'error') {
+                    onProgress?.(++completed, examples.length);
+                }
+            },
+        }
+    );
+
+    return rows.map((row, index) => ({
+        id: examples[index].id,
+        label: examples[index].label,
+        predicted: row.result?.classification ?? null,
+        confidence: row.result?.confidence ?? null,
+        ...(row.error && { error: row.error }),
+    }));
+};
+
+// --- Metrics ---
+
+const ratio = (numerator: number, denominator: number) => denominator === 0 ? 0 : numerator / denominator;
+
+export const computeReport = (
+    predictions: EvaluationPrediction[],
+    model: string,
+    options: AnalysisOptions,
+    binCount = 10
+): EvaluationReport => {
+    const confusionMatrix = Object.fromEntries(
+        LABELS.map(label => [label, Object.fromEntries(PREDICTIONS.map(p => [p, 0]))])
+    ) as EvaluationReport['confusionMatrix'];
+
+    for (const prediction of predictions) {
+        if (prediction.predicted) {
+            confusionMatrix[prediction.label][prediction.predicted]++;
+        }
+    }
+
+    const total = predictions.length;
+    const correct = LABELS.reduce((sum, label) => sum + confusionMatrix[label][label], 0);
+    const decided = LABELS.reduce((sum, label) => sum + confusionMatrix[label].Real + confusionMatrix[label].Fake, 0);
+
+    const perClass = Object.fromEntries(LABELS.map(label => {
+        const truePositives = confusionMatrix[label][label];
+        const predictedCount = LABELS.reduce((sum, actual) => sum + confusionMatrix[actual][label], 0);
+        const support = predictions.filter(p => p.label === label).length;
+        const precision = ratio(truePositives, predictedCount);
+        const recall = ratio(truePositives, support);
+        return [label, { precision, recall, f1: ratio(2 * precision * recall, precision + recall), support }];
+    })) as Record<GroundTruth, ClassMetrics>;
+
+    // Calibration treats the confidence as the probability that the Real/Fake verdict is correct.
+    const bins: ReliabilityBin[] = Array.from({ length: binCount }, (_, i) => ({
+        lower: i / binCount,
+        upper: (i + 1) / binCount,
+        count: 0,
+        avgConfidence: 0,
+        accuracy: 0,
+    }));
+    const scored = predictions.filter(p => (p.predicted === 'Real' || p.predicted === 'Fake') && p.confidence !== null);
+    for (const prediction of scored) {
+        const confidence = Math.min(Math.max(prediction.confidence! / 100, 0), 1);
+        const bin = bins[Math.min(Math.floor(confidence * binCount), binCount - 1)];
+        bin.count++;
+        bin.avgConfidence += confidence;
+        bin.accuracy += prediction.predicted === prediction.label ? 1 : 0;
+    }
+    let ece = 0;
+    for (const bin of bins) {
+        if (bin.count > 0) {
+            bin.avgConfidence /= bin.count;
+            bin.accuracy /= bin.count;
+            ece += (bin.count / scored.length) * Math.abs(bin.accuracy - bin.avgConfidence);
+        }
+    }
+
+    return {
+        generatedAt: new Date().toISOString(),
+        model,
+        options,
+        total,
+        errors: predictions.filter(p => p.error).length,
+        accuracy: ratio(correct, total),
+        coverage: ratio(decided, total),
+        decidedAccuracy: ratio(correct, decided),
+        perClass,
+        confusionMatrix,
+        calibration: { bins, ece },
+        predictions,
+    };
+};
+
+// --- HTML report ---
+
+const escapeHtml = (value: string): string =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const renderReliabilityDiagram = (bins: ReliabilityBin[]): string => {
+    const size = 300;
+    const padding = 30;
+    const scale = (value: number) => padding + value * (size - 2 * padding);
+    const bars = bins.filter(bin => bin.count > 0).map(bin => {
+        const x = scale(bin.lower);
+        const width = scale(bin.upper) - x - 2;
+        const y = size - scale(bin.accuracy);
+        return `<rect x="${x + 1}" y="${y}" width="${width}" height="${size - padding - y}" fill="#2563eb"><title>${bin.count} examples, accuracy ${percent(bin.accuracy)}, confidence ${percent(bin.avgConfidence)}</title></rect>`;
+    }).join('');
+    return `<svg width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">
+        <rect x="${padding}" y="${padding}" width="${size - 2 * padding}" height="${size - 2 * padding}" fill="none" stroke="#9ca3af" />
+        ${bars}
+        <line x1="${scale(0)}" y1="${size - scale(0)}" x2="${scale(1)}" y2="${size - scale(1)}" stroke="#ef4444" stroke-dasharray="4" />
+        <text x="${size / 2}" y="${size - 8}" text-anchor="middle" font-size="11">Confidence</text>
+        <text x="10" y="${size / 2}" text-anchor="middle" font-size="11" transform="rotate(-90 10 ${size / 2})">Accuracy</text>
+    </svg>`;
+};
+
+export const renderHtmlReport = (report: EvaluationReport): string => {
+    const classRows = LABELS.map(label => {
+        const metrics = report.perClass[label];
+        return `<tr><th>${label}</th><td>${percent(metrics.precision)}</td><td>${percent(metrics.recall)}</td><td>${percent(metrics.f1)}</td><td>${metrics.support}</td></tr>`;
+    }).join('');
+    const confusionRows = LABELS.map(label =>
+        `<tr><th>${label}</th>${PREDICTIONS.map(p => `<td>${report.confusionMatrix[label][p]}</td>`).join('')}</tr>`
+    ).join('');
+    const binRows = report.calibration.bins.map(bin =>
+        `<tr><td>${percent(bin.lower)}–${percent(bin.upper)}</td><td>${bin.count}</td><td>${bin.count ? percent(bin.avgConfidence) : '–'}</td><td>${bin.count ? percent(bin.accuracy) : '–'}</td></tr>`
+    ).join('');
+    const mistakes = report.predictions.filter(p => p.predicted !== p.label).map(p =>
+        `<tr><td>${escapeHtml(p.id)}</td><td>${p.label}</td><td>${p.predicted ?? 'error'}</td><td>${p.confidence ?? '–'}</td><td>${escapeHtml(p.error ?? '')}</td></tr>`
+    ).join('');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>Verity Lens evaluation – ${escapeHtml(report.generatedAt)}</title>
+<style>
+    body { font-family: system-ui, sans-serif; margin: 2rem; color: #111827; }
+    table { border-collapse: collapse; margin-bottom: 2rem; }
+    th, td { border: 1px solid #d1d5db; padding: 0.35rem 0.75rem; text-align: right; }
+    th:first-child, td:first-child { text-align: left; }
+    .summary td { font-weight: 600; }
+</style>
+</head>
+<body>
+<h1>Verity Lens evaluation</h1>
+<p>${escapeHtml(report.generatedAt)} · model <code>${escapeHtml(report.model)}</code> · threshold ${report.options.confidenceThreshold}%${report.options.useThinkingMode ? ' · thinking mode' : ''}${report.options.cues.length ? ` · cues: ${report.options.cues.join(', ')}` : ''}</p>
+<table class="summary">
+    <tr><th>Examples</th><td>${report.total}</td></tr>
+    <tr><th>Errors</th><td>${report.errors}</td></tr>
+    <tr><th>Accuracy</th><td>${percent(report.accuracy)}</td></tr>
+    <tr><th>Coverage</th><td>${percent(report.coverage)}</td></tr>
+    <tr><th>Accuracy (decided only)</th><td>${percent(report.decidedAccuracy)}</td></tr>
+    <tr><th>ECE</th><td>${report.calibration.ece.toFixed(4)}</td></tr>
+</table>
+<h2>Per-class metrics</h2>
+<table><tr><th>Class</th><th>Precision</th><th>Recall</th><th>F1</th><th>Support</th></tr>${classRows}</table>
+<h2>Confusion matrix</h2>
+<table><tr><th>Actual \\ Predicted</th>${PREDICTIONS.map(p => `<th>${p}</th>`).join('')}</tr>${confusionRows}</table>
+<h2>Calibration</h2>
+${renderReliabilityDiagram(report.calibration.bins)}
+<table><tr><th>Confidence</th><th>Count</th><th>Avg. confidence</th><th>Accuracy</th></tr>${binRows}</table>
+<h2>Misclassified examples</h2>
+<table><tr><th>ID</th><th>Label</th><th>Predicted</th><th>Confidence</th><th>Error</th></tr>${mistakes}</table>
+</body>
+</html>
+`;
+};
@@ -0,0 +1,34 @@
+export const downloadFile = (content: BlobPart, fileName: string, mimeType: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+// The size of `bytes` once base64-encoded, as inline request data is.
+export const encodedSize = (bytes: number): number => Math.ceil(bytes / 3) * 4;
+
+export const blobToBase64 = (blob: Blob): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => {
+            if (typeof reader.result === 'string') {
+                resolve(reader.result.split(',')[1]);
+            } else {
+                reject(new Error("Failed to read blob as base64 string."));
+            }
+        };
+        reader.onerror = reject;
+        reader.readAsDataURL(blob);
+    });
+};
+
+export const parseDataUrl = (dataUrl: string): { mimeType: string; data: string } => {
+    const match = /^data:([^;,]+)(?:;[^,]*)?;base64,(.*)$/.exec(dataUrl);
+    if (!match) {
+        throw new Error("Expected a base64 data URL.");
+    }
+    return { mimeType: match[1], data: match[2] };
+};
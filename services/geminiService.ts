@@ -1,104 +1,474 @@
-import { GoogleGenAI, Type, Chat, Modality, Content } from "@google/genai";
-import { AnalysisResult, GroundingSource, ChatMessage } from '../types';
+import { AnalysisResult, AnalysisOptions, ArticleMetadata, CueAnalysis, LinguisticCue, ClaimCheck, ClaimVerdict, GroundingSource, ChatMessage, ConversationOptions, WebContext, ScreenshotPost, RedFlagSeverity, PostEngagement, ImageAuthenticityAssessment, TranscriptSegment } from '../types';
+import { getProvider, ModelProvider, ProviderMessage, StreamEvent, ToolCall, ToolResult, VideoOperationStatus, VideoRequest } from './providers';
+import { AppError, AuthError, toAppError } from './errors';
+import { withRetry } from './retry';
+import { array, Infer, InferShape, number, object, optional, SchemaNode, string, toGeminiSchema, validate } from './schema';
+import { generateStructured } from './structuredOutput';
+import { inlineAttachmentIds } from './attachments';
+// Type-only: the tool registry itself imports this module.
+import type { ChatTool, ToolOutput } from './tools';
+
+// The model that analyzeNewsArticle uses with the active provider; recorded in the analysis history.
+export const getAnalysisModel = (provider: ModelProvider = getProvider()): string => provider.models.pro;
+
+const analysisFields = {
+    classification: string({
+        enum: ['Real', 'Fake'],
+        description: 'The classification of the news. Must be either "Real" or "Fake".'
+    }),
+    confidence: number({
+        minimum: 0,
+        maximum: 100,
+        description: 'A confidence score from 0 to 100 for the classification.'
+    }),
+    explanation: string({
+        description: 'A detailed analysis explaining the reasoning behind the classification. Mention linguistic cues, semantic context, and potential biases.'
+    }),
+    keywords: array(string(), {
+        description: 'A list of 5-10 keywords or key phrases from the article text that were most influential in the classification decision. These keywords should be exact quotes from the text.'
+    }),
+};
 
-const API_KEY = process.env.API_KEY;
+const buildCueSchema = (cue: LinguisticCue) => object({
+    score: number({
+        minimum: 0,
+        maximum: 100,
+        description: 'A score from 0 to 100 for this cue.'
+    }),
+    findings: array(string(), {
+        description: 'Short, specific observations from the text that support the score.'
+    }),
+}, { description: `${CUE_LABELS[cue]}: ${CUE_DESCRIPTIONS[cue]}` });
+
+// The selected cues are added as extra required fields, so they are optional in the static type.
+type AnalysisResponse = InferShape<typeof analysisFields> & Partial<Record<LinguisticCue, Infer<ReturnType<typeof buildCueSchema>>>>;
+
+export const CUE_LABELS: Record<LinguisticCue, string> = {
+    emotionalLanguage: 'Emotional Language',
+    sourceCiting: 'Source Citing',
+    biasDetection: 'Bias Detection',
+    factuality: 'Factuality',
+};
 
-if (!API_KEY) {
-    throw new Error("API_KEY environment variable is not set");
-}
+const CUE_DESCRIPTIONS: Record<LinguisticCue, string> = {
+    emotionalLanguage: 'Use of sensational, fear-inducing or emotionally charged wording. A higher score means more manipulative emotional language.',
+    sourceCiting: 'Whether claims are attributed to named, verifiable sources. A higher score means better sourcing.',
+    biasDetection: 'One-sided framing, loaded terms or omission of opposing views. A higher score means stronger bias.',
+    factuality: 'Consistency of the stated facts with well-established knowledge. A higher score means more factually reliable.',
+};
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
-
-const analysisSchema = {
-    type: Type.OBJECT,
-    properties: {
-        classification: {
-            type: Type.STRING,
-            description: 'The classification of the news. Must be either "Real" or "Fake".'
-        },
-        confidence: {
-            type: Type.NUMBER,
-            description: 'A confidence score from 0 to 100 for the classification.'
-        },
-        explanation: {
-            type: Type.STRING,
-            description: 'A detailed analysis explaining the reasoning behind the classification. Mention linguistic cues, semantic context, and potential biases.'
-        },
-        keywords: {
-            type: Type.ARRAY,
-            items: { type: Type.STRING },
-            description: 'A list of 5-10 keywords or key phrases from the article text that were most influential in the classification decision. These keywords should be exact quotes from the text.'
-        }
-    },
-    required: ['classification', 'confidence', 'explanation', 'keywords']
+const buildAnalysisSchema = (cues: LinguisticCue[]): SchemaNode<AnalysisResponse> => object({
+    ...analysisFields,
+    ...Object.fromEntries(cues.map(cue => [cue, buildCueSchema(cue)])),
+});
+
+const describeMetadata = (metadata: ArticleMetadata): string => {
+    const lines = [
+        `URL: ${metadata.url}`,
+        `Outlet: ${metadata.outlet ?? 'unknown'}`,
+        `Headline: ${metadata.headline ?? 'none'}`,
+        `Byline: ${metadata.byline ?? 'none'}`,
+        `Published: ${metadata.publishedAt ?? 'unknown'}`,
+    ];
+    return ` The article was extracted from a web page with the following metadata. Use it as additional signals (e.g. outlet reputation, missing author or date, headline/body mismatch):\n${lines.join('\n')}\n`;
 };
 
-export const analyzeNewsArticle = async (articleText: string, useThinkingMode: boolean): Promise<AnalysisResult> => {
+export const analyzeNewsArticle = async (
+    articleText: string,
+    options: AnalysisOptions,
+    metadata?: ArticleMetadata,
+    provider: ModelProvider = getProvider(),
+    signal?: AbortSignal
+): Promise<AnalysisResult> => {
     try {
-        const config: any = {
-            systemInstruction: "You are an expert fact-checker and fake news detection system. Your task is to analyze news articles or social media posts and classify them as 'Real' or 'Fake'. Provide a confidence score, a detailed explanation for your reasoning, and a list of keywords from the article that led to your decision. You must only respond with a valid JSON object matching the provided schema, without any markdown formatting.",
-            responseMimeType: "application/json",
-            responseSchema: analysisSchema,
+        const cueInstruction = options.cues.length > 0
+            ? ` Pay particular attention to the following linguistic cues and score each one: ${options.cues.map(cue => CUE_LABELS[cue]).join(', ')}.`
+            : '';
+
+        const [result, claims] = await Promise.all([
+            generateStructured(provider, {
+                tier: 'pro',
+                systemInstruction: "You are an expert fact-checker and fake news detection system. Your task is to analyze news articles or social media posts and classify them as 'Real' or 'Fake'. Provide a confidence score, a detailed explanation for your reasoning, and a list of keywords from the article that led to your decision. You must only respond with a valid JSON object matching the provided schema, without any markdown formatting.",
+                contents: `Analyze the following text and determine if it is real or fake news.${cueInstruction}${metadata ? describeMetadata(metadata) : ''} Return your analysis in the specified JSON format. Article: "${articleText}"`,
+                thinking: options.useThinkingMode,
+                signal,
+            }, buildAnalysisSchema(options.cues)),
+            options.checkClaims ? factCheckClaims(articleText, provider, signal) : Promise.resolve(undefined),
+        ]);
+
+        const cueAnalyses: CueAnalysis[] = options.cues
+            .filter(cue => result[cue])
+            .map(cue => ({ cue, score: result[cue].score, findings: result[cue].findings }));
+
+        return {
+            classification: result.confidence < options.confidenceThreshold ? 'Inconclusive' : result.classification,
+            confidence: result.confidence,
+            explanation: result.explanation,
+            keywords: result.keywords,
+            ...(cueAnalyses.length > 0 && { cueAnalyses }),
+            ...(claims && { claims }),
         };
 
-        if (useThinkingMode) {
-            config.thinkingConfig = { thinkingBudget: 32768 };
-        }
+    } catch (error) {
+        console.error("Error analyzing news article:", error);
+        throw toAppError(error, `Failed to get analysis from ${provider.label}. Please check the console for details.`);
+    }
+};
 
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-pro",
-            contents: `Analyze the following text and determine if it is real or fake news. Return your analysis in the specified JSON format. Article: "${articleText}"`,
-            config,
-        });
 
-        const jsonString = response.text.trim();
-        const result = JSON.parse(jsonString);
+const claimExtractionSchema = object({
+    claims: array(object({
+        claim: string({
+            description: 'The claim restated as a single, self-contained, checkable statement.'
+        }),
+        quote: string({
+            description: 'The exact, verbatim span of the article text that makes this claim.'
+        }),
+    }), {
+        maxItems: 10,
+        description: 'Up to 10 individual factual claims from the article that can be checked against external sources. Exclude opinions and predictions.'
+    }),
+});
+
+const CLAIM_VERDICTS: readonly ClaimVerdict[] = ['True', 'False', 'Misleading', 'Unverifiable'];
+
+const claimVerdictSchema = object({
+    verdict: string({
+        enum: CLAIM_VERDICTS,
+        description: 'Must be one of "True", "False", "Misleading" or "Unverifiable".'
+    }),
+    confidence: number({
+        minimum: 0,
+        maximum: 100,
+        description: 'A confidence score from 0 to 100 for the verdict.'
+    }),
+    explanation: string({
+        description: 'A short explanation of the verdict based on the evidence.'
+    }),
+    supportingSourceIds: array(number({ integer: true }), {
+        description: 'The ids of the sources that support the claim.'
+    }),
+    contradictingSourceIds: array(number({ integer: true }), {
+        description: 'The ids of the sources that contradict the claim.'
+    }),
+});
+
+const locateQuote = (articleText: string, quote: string): ClaimCheck['span'] => {
+    let start = articleText.indexOf(quote);
+    if (start === -1) {
+        start = articleText.toLowerCase().indexOf(quote.toLowerCase());
+    }
+    return start === -1 ? null : { start, end: start + quote.length };
+};
 
-        // Basic validation
-        if (typeof result.classification !== 'string' || typeof result.confidence !== 'number' || typeof result.explanation !== 'string' || !Array.isArray(result.keywords)) {
-            throw new Error("Invalid response structure from API.");
-        }
-        
-        return result as AnalysisResult;
+const checkSingleClaim = async (claim: string, quote: string, articleText: string, provider: ModelProvider, signal?: AbortSignal): Promise<ClaimCheck> => {
+    const evidence = await withRetry(() => provider.generateGrounded({
+        tier: 'fast',
+        contents: `Find evidence that supports or contradicts the following claim. Summarize what reliable sources say about it. Claim: "${claim}"`,
+        useSearch: true,
+        useMaps: false,
+        signal,
+    }), { signal });
+
+    const sourceList = evidence.sources.map((source, index) => `[${index}] ${source.title} (${source.uri})`).join('\n');
+    const result = await generateStructured(provider, {
+        tier: 'fast',
+        systemInstruction: 'You are an expert fact-checker. Judge a single claim against the evidence provided. You must only respond with a valid JSON object matching the provided schema.',
+        contents: `Claim: "${claim}"\n\nEvidence summary:\n${evidence.text}\n\nSources:\n${sourceList || '(none)'}\n\nGive a verdict for the claim based only on this evidence, and list which source ids support or contradict it.`,
+        signal,
+    }, claimVerdictSchema);
+
+    const pickSources = (ids: number[]): GroundingSource[] =>
+        ids.map(id => evidence.sources[id]).filter((source): source is GroundingSource => !!source);
+
+    return {
+        claim,
+        quote,
+        span: locateQuote(articleText, quote),
+        verdict: result.verdict,
+        confidence: result.confidence,
+        explanation: result.explanation,
+        supportingSources: pickSources(result.supportingSourceIds),
+        contradictingSources: pickSources(result.contradictingSourceIds),
+    };
+};
 
+export const factCheckClaims = async (articleText: string, provider: ModelProvider = getProvider(), signal?: AbortSignal): Promise<ClaimCheck[]> => {
+    try {
+        const result = await generateStructured(provider, {
+            tier: 'fast',
+            systemInstruction: 'You are an expert fact-checker. Extract the distinct factual claims made by a text. You must only respond with a valid JSON object matching the provided schema.',
+            contents: `Split the following article into its individual checkable factual claims. Article: "${articleText}"`,
+            signal,
+        }, claimExtractionSchema);
+
+        return await Promise.all(
+            result.claims.map(entry => checkSingleClaim(entry.claim, entry.quote, articleText, provider, signal))
+        );
     } catch (error) {
-        console.error("Error analyzing news article:", error);
-        throw new Error("Failed to get analysis from Gemini API. Please check the console for details.");
+        console.error("Error fact-checking claims:", error);
+        throw toAppError(error, `Failed to fact-check claims with ${provider.label}.`);
     }
 };
 
+const RED_FLAG_SEVERITIES: readonly RedFlagSeverity[] = ['low', 'medium', 'high'];
+
+const engagementCount = (what: string) => optional(number({
+    minimum: 0,
+    integer: true,
+    description: `The number of ${what} shown, written out in full (e.g. 12.3K becomes 12300). Omit if not shown.`
+}));
+
+const screenshotPostSchema = object({
+    text: string({
+        description: 'The full text of the post, transcribed verbatim. Include the text of any quoted post, marked as a quote.'
+    }),
+    platform: optional(string({ description: 'The social network the post appears to be from, e.g. X, Facebook, Instagram, TikTok.' })),
+    authorName: optional(string({ description: 'The display name of the author.' })),
+    authorHandle: optional(string({ description: 'The username or handle of the author, including any leading @.' })),
+    postedAt: optional(string({ description: 'The timestamp exactly as shown, e.g. "3:42 PM · Mar 5, 2024" or "2h".' })),
+    likes: engagementCount('likes or reactions'),
+    shares: engagementCount('shares, reposts or retweets'),
+    replies: engagementCount('replies or comments'),
+    views: engagementCount('views or impressions'),
+    visualRedFlags: array(object({
+        issue: string({ description: 'What looks wrong and where in the screenshot.' }),
+        severity: string({ enum: RED_FLAG_SEVERITIES, description: 'Must be one of "low", "medium" or "high".' }),
+    }), {
+        description: 'Signs that the screenshot was edited or fabricated: mismatched or misaligned fonts, inconsistent UI elements for the platform, implausible engagement numbers or timestamps, compression artifacts around the text, a verification badge in the wrong place. Empty if none.'
+    }),
+});
+
+// Reads the text, author, timestamp and engagement of a social media post from a screenshot
+// and looks for signs that the screenshot was doctored.
+export const extractScreenshotPost = async (
+    imageBase64: string,
+    mimeType: string,
+    provider: ModelProvider = getProvider()
+): Promise<ScreenshotPost> => {
+    try {
+        const result = await generateStructured(provider, {
+            tier: 'pro',
+            systemInstruction: 'You are an expert in social media forensics. You read screenshots of social media posts accurately and notice signs of manipulation. You must only respond with a valid JSON object matching the provided schema, without any markdown formatting.',
+            contents: [{
+                role: 'user',
+                text: 'Extract the post shown in this screenshot and list any visual red flags suggesting the screenshot was edited or fabricated.',
+                attachments: [{ mimeType, data: imageBase64 }],
+            }],
+        }, screenshotPostSchema);
+
+        const engagement: PostEngagement = {};
+        for (const key of ['likes', 'shares', 'replies', 'views'] as const) {
+            if (result[key] !== undefined) engagement[key] = result[key];
+        }
+        return {
+            text: result.text,
+            platform: result.platform || null,
+            authorName: result.authorName || null,
+            authorHandle: result.authorHandle || null,
+            postedAt: result.postedAt || null,
+            engagement,
+            visualRedFlags: result.visualRedFlags,
+        };
+    } catch (error) {
+        console.error("Error extracting post from screenshot:", error);
+        throw toAppError(error, `Failed to read the screenshot with ${provider.label}.`);
+    }
+};
 
-export const createChatSession = (): Chat => {
-    return ai.chats.create({
-        model: 'gemini-2.5-flash',
-        config: {
-            systemInstruction: 'You are a helpful and friendly chatbot. Answer user questions concisely and accurately.',
-        },
-    });
+// The text that is analyzed for a screenshot post: its details as a header, then the post
+// itself. Stored in the history like any other article text, so re-runs see the same details.
+export const describeScreenshotPost = (post: ScreenshotPost): string => {
+    const author = [post.authorName, post.authorHandle && `(${post.authorHandle})`].filter(Boolean).join(' ');
+    const engagement = Object.entries(post.engagement).map(([key, count]) => `${count.toLocaleString('en-US')} ${key}`);
+    const header = [
+        author && `Author: ${author}`,
+        post.platform && `Platform: ${post.platform}`,
+        post.postedAt && `Posted: ${post.postedAt}`,
+        engagement.length > 0 && `Engagement: ${engagement.join(', ')}`,
+    ].filter(Boolean);
+    return header.length > 0 ? `${header.join('\n')}\n\n${post.text.trim()}` : post.text.trim();
 };
 
-export const getStandardChatResponse = async (prompt: string, messages: ChatMessage[]): Promise<string> => {
+const imageAuthenticitySchema = object({
+    aiGeneratedLikelihood: number({
+        minimum: 0,
+        maximum: 100,
+        description: 'How likely it is, from 0 to 100, that the image was generated by an AI model.'
+    }),
+    manipulationLikelihood: number({
+        minimum: 0,
+        maximum: 100,
+        description: 'How likely it is, from 0 to 100, that a real photo was edited to change what it shows (splicing, object removal, face swaps). Ordinary cropping and color correction do not count.'
+    }),
+    indicators: array(string(), {
+        description: 'Specific visual evidence behind the scores, e.g. malformed hands or text, inconsistent lighting or shadows, cloning artifacts, or signs of a genuine camera capture such as sensor noise.'
+    }),
+    explanation: string({
+        description: 'A short overall assessment.'
+    }),
+});
+
+// Judges from the pixels alone whether an image is AI-generated or manipulated. The embedded
+// metadata is read separately (see imageMetadata.ts) so the two can be weighed independently.
+export const assessImageAuthenticity = async (
+    imageBase64: string,
+    mimeType: string,
+    provider: ModelProvider = getProvider()
+): Promise<ImageAuthenticityAssessment> => {
     try {
-        // History contains all messages, including the latest user prompt
-        const history: Content[] = messages.slice(1).map(msg => ({
-            role: msg.sender === 'user' ? 'user' : 'model',
-            parts: [{ text: msg.text }]
-        }));
+        return await generateStructured(provider, {
+            tier: 'pro',
+            systemInstruction: 'You are an expert in image forensics. You assess whether images are genuine photographs, AI-generated, or manipulated, and you are careful not to overstate your certainty. You must only respond with a valid JSON object matching the provided schema, without any markdown formatting.',
+            contents: [{
+                role: 'user',
+                text: 'Assess whether this image is AI-generated or manipulated.',
+                attachments: [{ mimeType, data: imageBase64 }],
+            }],
+        }, imageAuthenticitySchema);
+    } catch (error) {
+        console.error("Error assessing image authenticity:", error);
+        throw toAppError(error, `Failed to assess the image with ${provider.label}.`);
+    }
+};
 
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-pro',
-            contents: history,
-            config: {
-                systemInstruction: 'You are a helpful and friendly chatbot. Answer user questions concisely and accurately.',
-                thinkingConfig: { thinkingBudget: 32768 },
-            },
+const CHAT_SYSTEM_INSTRUCTION = 'You are a helpful and friendly chatbot. Answer user questions concisely and accurately.';
+
+const MAX_TOOL_ROUNDS = 4;
+
+// Earlier grounding sources and tool calls are kept in the model turns as text, so follow-up
+// questions can refer to them. Attachments of older messages that no longer fit in the
+// conversation's inline budget are replaced by a note naming them.
+export const toProviderMessages = (messages: ChatMessage[]): ProviderMessage[] => {
+    const firstUser = messages.findIndex(msg => msg.sender === 'user');
+    const sent = messages
+        .slice(firstUser === -1 ? messages.length : firstUser)
+        .filter(msg => (msg.text || msg.attachments?.length || msg.toolCalls?.length) && !msg.isError);
+    const inline = inlineAttachmentIds(sent);
+    return sent
+        .map(msg => {
+            const attachments = (msg.attachments ?? []).filter(attachment => inline.has(attachment.id));
+            const notes: string[] = (msg.attachments ?? [])
+                .filter(attachment => !inline.has(attachment.id))
+                .map(attachment => `[attachment: ${attachment.name}, omitted]`);
+            if (msg.toolCalls && msg.toolCalls.length > 0) {
+                notes.push(`Tool calls:\n${msg.toolCalls.map(call => `- ${call.name} ${JSON.stringify(call.args)}: ${call.summary ?? call.error ?? call.status}`).join('\n')}`);
+            }
+            if (msg.sources && msg.sources.length > 0) {
+                notes.push(`Sources:\n${msg.sources.map(source => `- ${source.title}: ${source.uri}`).join('\n')}`);
+            }
+            return {
+                role: msg.sender === 'user' ? 'user' : 'model',
+                text: [msg.text, ...notes].filter(Boolean).join('\n\n'),
+                ...(attachments.length > 0 && {
+                    attachments: attachments.map(({ mimeType, data }) => ({ mimeType, data })),
+                }),
+            };
         });
-        
-        return response.text;
+};
+
+export type ToolResultEvent = {
+    type: 'toolResult';
+    id: string;
+    status: 'done' | 'denied' | 'error';
+    output?: ToolOutput;
+    error?: string;
+};
+
+export type ChatEvent = StreamEvent | ToolResultEvent;
+
+export interface ToolHandling {
+    tools: ChatTool[];
+    // Asked before running a tool that requires confirmation; resolves to whether to run it.
+    confirm: (call: ToolCall, tool: ChatTool) => Promise<boolean>;
+}
 
+// Tool failures are reported back to the model rather than thrown, so it can explain or retry.
+const runToolCall = async (call: ToolCall, { tools, confirm }: ToolHandling): Promise<{ event: ToolResultEvent; result: ToolResult }> => {
+    const finish = (event: Omit<ToolResultEvent, 'type' | 'id'>, response: Record<string, unknown>) =>
+        ({ event: { type: 'toolResult' as const, id: call.id, ...event }, result: { id: call.id, name: call.name, response } });
+
+    const tool = tools.find(t => t.name === call.name);
+    if (!tool) {
+        const error = `Unknown tool "${call.name}".`;
+        return finish({ status: 'error', error }, { error });
+    }
+    const args = validate(tool.parameters, call.args);
+    if (!args.ok) {
+        const error = `Invalid arguments: ${args.issues.join('; ')}`;
+        return finish({ status: 'error', error }, { error });
+    }
+    const needsConfirmation = typeof tool.requiresConfirmation === 'function'
+        ? tool.requiresConfirmation(args.value)
+        : tool.requiresConfirmation;
+    if (needsConfirmation && !(await confirm(call, tool))) {
+        return finish({ status: 'denied' }, { error: 'The user declined to run this tool.' });
+    }
+    try {
+        const output = await tool.execute(args.value);
+        return finish({ status: 'done', output }, output.response);
     } catch (error) {
-        console.error("Error getting standard chat response:", error);
-        throw new Error("Failed to get response from Gemini API.");
+        console.error(`Error running tool ${call.name}:`, error);
+        const message = toAppError(error, `${tool.label} failed.`).message;
+        return finish({ status: 'error', error: message }, { error: message });
+    }
+};
+
+// The single conversation engine behind the chat: every mode gets the full history, so Search,
+// Maps and Thinking can be toggled mid-conversation without losing the thread. `messages` must
+// end with the user's latest prompt.
+//
+// With tools enabled, each round of tool calls is run and its results sent back until the model
+// answers, for at most MAX_TOOL_ROUNDS rounds. Search and Maps cannot be combined with tools.
+//
+// Streams are not retried: part of the answer may already be on screen when a call fails.
+export const streamChatResponse = async function* (
+    messages: ChatMessage[],
+    { useSearch, useMaps, useThinkingMode, useTools, location }: ConversationOptions,
+    signal?: AbortSignal,
+    toolHandling?: ToolHandling
+): AsyncIterable<ChatEvent> {
+    const provider = getProvider();
+    const request = {
+        tier: useThinkingMode ? 'pro' as const : 'fast' as const,
+        systemInstruction: CHAT_SYSTEM_INSTRUCTION,
+        contents: toProviderMessages(messages),
+        thinking: useThinkingMode,
+        signal,
+    };
+    try {
+        if (useSearch || useMaps) {
+            yield* provider.streamGrounded({ ...request, useSearch, useMaps, location });
+            return;
+        }
+        const declarations = useTools && toolHandling
+            ? toolHandling.tools.map(tool => ({ name: tool.name, description: tool.description, parameters: toGeminiSchema(tool.parameters) }))
+            : [];
+        let contents = request.contents;
+        for (let round = 0; ; round++) {
+            const calls: ToolCall[] = [];
+            let text = '';
+            // The tools are withdrawn after the last round, so the model has to answer.
+            for await (const event of provider.streamText({ ...request, contents, tools: round < MAX_TOOL_ROUNDS ? declarations : [] })) {
+                if (event.type === 'toolCall') calls.push(event.call);
+                if (event.type === 'text') text += event.text;
+                yield event;
+            }
+            if (calls.length === 0 || !toolHandling) return;
+
+            const results: ToolResult[] = [];
+            for (const call of calls) {
+                const { event, result } = await runToolCall(call, toolHandling);
+                if (signal?.aborted) return;
+                yield event;
+                results.push(result);
+            }
+            if (text) yield { type: 'text', text: '\n\n' };
+            contents = [...contents, { role: 'model', text, toolCalls: calls }, { role: 'user', text: '', toolResults: results }];
+        }
+    } catch (error) {
+        console.error("Error streaming chat response:", error);
+        throw toAppError(error, `Failed to get response from ${provider.label}.`);
     }
 };
 
@@ -108,221 +478,133 @@ export const getGroundedChatResponse = async (
     useMaps: boolean,
     useThinkingMode: boolean,
     location?: {latitude: number, longitude: number}
-): Promise<{ text: string; sources: GroundingSource[] }> => {
+): Promise<WebContext> => {
     
     if (!useSearch && !useMaps) {
         throw new Error("Grounding must use either Search or Maps.");
     }
-    
-    const tools: any[] = [];
-    if (useSearch) tools.push({ googleSearch: {} });
-    if (useMaps) tools.push({ googleMaps: {} });
-
-    let toolConfig: any = {};
-    if (useMaps && location) {
-        toolConfig.retrievalConfig = {
-            latLng: {
-                latitude: location.latitude,
-                longitude: location.longitude,
-            }
-        };
-    }
 
-    const model = useThinkingMode ? 'gemini-2.5-pro' : 'gemini-2.5-flash';
-    const config: any = {
-        tools,
-        ...(Object.keys(toolConfig).length > 0 && { toolConfig }),
-    };
-    if (useThinkingMode) {
-        config.thinkingConfig = { thinkingBudget: 32768 };
-    }
-    
+    const provider = getProvider();
     try {
-        const response = await ai.models.generateContent({
-            model,
+        return await withRetry(() => provider.generateGrounded({
+            tier: useThinkingMode ? 'pro' : 'fast',
             contents: prompt,
-            config,
-        });
-        
-        const sources: GroundingSource[] = [];
-        const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-        
-        if (groundingChunks) {
-            for (const chunk of groundingChunks) {
-                if ('web' in chunk && chunk.web?.uri) {
-                    sources.push({
-                        uri: chunk.web.uri,
-                        title: chunk.web.title || 'Web Search Result',
-                        type: 'web',
-                    });
-                } else if ('maps' in chunk && chunk.maps?.uri) {
-                    sources.push({
-                        uri: chunk.maps.uri,
-                        title: chunk.maps.title || 'Map Result',
-                        type: 'maps',
-                    });
-                }
-            }
-        }
-
-        return { text: response.text, sources };
+            thinking: useThinkingMode,
+            useSearch,
+            useMaps,
+            location,
+        }));
 
     } catch (error) {
         console.error("Error getting grounded response:", error);
-        throw new Error("Failed to get response from Gemini API.");
+        throw toAppError(error, `Failed to get response from ${provider.label}.`);
     }
 };
 
 export const generateImage = async (prompt: string, aspectRatio: string): Promise<string> => {
     try {
-        const response = await ai.models.generateImages({
-            model: 'imagen-4.0-generate-001',
-            prompt,
-            config: {
-                numberOfImages: 1,
-                outputMimeType: 'image/jpeg',
-                aspectRatio,
-            },
-        });
-
-        const imageBytes = response.generatedImages?.[0]?.image?.imageBytes;
-        if (!imageBytes) {
-            throw new Error("No image was generated in the response.");
-        }
-        return `data:image/jpeg;base64,${imageBytes}`;
+        return await withRetry(() => getProvider().generateImage({ prompt, aspectRatio }));
     } catch (error) {
         console.error("Error generating image:", error);
-        throw new Error("Failed to generate image.");
+        throw toAppError(error, "Failed to generate image.");
     }
 };
 
-export const generateVideo = async (
-    prompt: string, 
-    imageBase64: string,
-    mimeType: string,
-    aspectRatio: '16:9' | '9:16',
-    onProgress: (message: string) => void
-): Promise<string> => {
-    
-    const apiKey = process.env.API_KEY;
-    if (!apiKey) {
-        throw new Error("API_KEY environment variable is not set for video generation.");
+// With Veo, "not found" means the selected key cannot use the model rather than a missing resource.
+const toVideoError = (error: any, fallbackMessage: string): AppError => {
+    if (error?.message?.includes("Requested entity was not found")) {
+        return new AuthError("API Key not found or invalid. Please select a valid API key and try again.", error);
     }
-    
-    // Create a new instance right before the call to use the latest key
-    const videoAI = new GoogleGenAI({ apiKey });
+    return toAppError(error, error?.message || fallbackMessage);
+};
 
+// Resolves to the name of the long-running operation; see services/videoJobs.ts.
+export const startVideoGeneration = async (request: VideoRequest): Promise<string> => {
     try {
-        onProgress("Starting video generation...");
-        let operation = await videoAI.models.generateVideos({
-            model: 'veo-3.1-fast-generate-preview',
-            prompt,
-            image: {
-                imageBytes: imageBase64,
-                mimeType,
-            },
-            config: {
-                numberOfVideos: 1,
-                resolution: '720p',
-                aspectRatio
-            }
-        });
-
-        onProgress("Processing video... This may take a few minutes.");
-        let checks = 0;
-        while (!operation.done) {
-            await new Promise(resolve => setTimeout(resolve, 10000)); // Poll every 10s
-            operation = await videoAI.operations.getVideosOperation({ operation });
-            checks++;
-            onProgress(`Still processing... (Check ${checks})`);
-        }
-
-        onProgress("Finalizing video...");
-        const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-        if (!downloadLink) {
-            throw new Error("Video generation completed, but no download link was found.");
-        }
-
-        onProgress("Downloading video...");
-        const videoResponse = await fetch(`${downloadLink}&key=${apiKey}`);
-        if (!videoResponse.ok) {
-            throw new Error(`Failed to download video: ${videoResponse.statusText}`);
-        }
-        
-        const videoBlob = await videoResponse.blob();
-        return URL.createObjectURL(videoBlob);
-    } catch (error: any) {
-        console.error("Error generating video:", error);
-        if (error.message?.includes("Requested entity was not found")) {
-            throw new Error("API Key not found or invalid. Please select a valid API key and try again.");
-        }
-        throw new Error(error.message || "Failed to generate video.");
+        return await getProvider().startVideo(request);
+    } catch (error) {
+        console.error("Error starting video generation:", error);
+        throw toVideoError(error, "Failed to start video generation.");
     }
 };
 
-export const editImage = async (prompt: string, imageBase64: string, mimeType: string): Promise<string> => {
+export const checkVideoGeneration = async (operationName: string): Promise<VideoOperationStatus> => {
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: {
-                parts: [
-                    {
-                        inlineData: {
-                            data: imageBase64,
-                            mimeType: mimeType,
-                        },
-                    },
-                    {
-                        text: prompt,
-                    },
-                ],
-            },
-            config: {
-                responseModalities: [Modality.IMAGE],
-            },
-        });
+        return await withRetry(() => getProvider().getVideoStatus(operationName));
+    } catch (error) {
+        console.error("Error checking video generation:", error);
+        throw toVideoError(error, "Failed to check on video generation.");
+    }
+};
 
-        const parts = response.candidates?.[0]?.content?.parts;
-        if (parts) {
-            for (const part of parts) {
-                if (part.inlineData) {
-                    return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-                }
-            }
-        }
-        throw new Error("No image was generated in the response.");
+export const downloadGeneratedVideo = async (videoUri: string): Promise<Blob> => {
+    try {
+        return await withRetry(() => getProvider().downloadVideo(videoUri));
+    } catch (error) {
+        console.error("Error downloading video:", error);
+        throw toVideoError(error, "Failed to download the generated video.");
+    }
+};
 
+export const editImage = async (prompt: string, imageBase64: string, mimeType: string, maskBase64?: string): Promise<string> => {
+    try {
+        return await withRetry(() => getProvider().editImage({ prompt, imageBase64, mimeType, maskBase64 }));
     } catch (error) {
         console.error("Error editing image:", error);
-        throw new Error("Failed to edit image.");
+        throw toAppError(error, "Failed to edit image.");
     }
 };
 
-export const transcribeAudio = async (audioBase64: string, audioMimeType: string): Promise<string> => {
+export const transcribeAudio = async (audioBase64: string, audioMimeType: string, signal?: AbortSignal): Promise<string> => {
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: {
-                parts: [
-                    {
-                        inlineData: {
-                            data: audioBase64,
-                            mimeType: audioMimeType,
-                        },
-                    },
-                    {
-                        text: "Transcribe the following audio recording. Provide only the text from the audio.",
-                    },
-                ],
-            },
-            config: {
-                 systemInstruction: "You are an expert audio transcription service. Your only task is to accurately transcribe the audio provided by the user. Do not add any extra commentary, greetings, or explanations. Only output the transcribed text.",
-            }
-        });
-
-        return response.text;
+        return await withRetry(() => getProvider().transcribe({
+            audioBase64,
+            mimeType: audioMimeType,
+            prompt: "Transcribe the following audio recording. Provide only the text from the audio.",
+            systemInstruction: "You are an expert audio transcription service. Your only task is to accurately transcribe the audio provided by the user. Do not add any extra commentary, greetings, or explanations. Only output the transcribed text.",
+            signal,
+        }), { signal });
     } catch (error) {
         console.error("Error transcribing audio:", error);
-        throw new Error("Failed to transcribe audio.");
+        throw toAppError(error, "Failed to transcribe audio.");
+    }
+};
+
+const transcriptSchema = object({
+    segments: array(object({
+        start: number({ minimum: 0, description: 'When the segment starts, in seconds from the beginning of the audio.' }),
+        end: number({ minimum: 0, description: 'When the segment ends, in seconds from the beginning of the audio.' }),
+        speaker: string({
+            description: 'A label for the speaker, such as "Speaker 1". Use the same label for the same voice throughout, and the person\'s name only if it is said in the audio.'
+        }),
+        text: string({ description: 'What was said in the segment, transcribed verbatim.' }),
+        confidence: number({ minimum: 0, maximum: 1, description: 'How confident you are in the transcription of this segment, from 0 to 1.' }),
+    }), {
+        description: 'The transcript as consecutive segments of one sentence or short utterance each, in order. Start a new segment whenever the speaker changes.'
+    }),
+});
+
+// Like transcribeAudio, but with timings and speakers. Needs a provider that accepts audio in
+// structured requests; the timings are the model's estimates and can drift on long recordings.
+export const transcribeAudioSegments = async (audioBase64: string, audioMimeType: string, signal?: AbortSignal): Promise<TranscriptSegment[]> => {
+    const provider = getProvider();
+    try {
+        const result = await generateStructured(provider, {
+            tier: 'fast',
+            systemInstruction: 'You are an expert audio transcription service that also identifies who is speaking. Transcribe the audio accurately and split it into timed segments. You must only respond with a valid JSON object matching the provided schema.',
+            contents: [{
+                role: 'user',
+                text: 'Transcribe the following audio recording into timestamped segments with speaker labels.',
+                attachments: [{ mimeType: audioMimeType, data: audioBase64 }],
+            }],
+            signal,
+        }, transcriptSchema);
+        return result.segments
+            .filter(segment => segment.text.trim())
+            .map(segment => ({ ...segment, text: segment.text.trim(), end: Math.max(segment.start, segment.end) }))
+            .sort((a, b) => a.start - b.start);
+    } catch (error) {
+        console.error("Error transcribing audio segments:", error);
+        throw toAppError(error, `Failed to transcribe audio with timestamps using ${provider.label}.`);
     }
 };
\ No newline at end of file
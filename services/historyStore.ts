@@ -0,0 +1,87 @@
+import { AnalysisHistoryEntry, AnalysisOptions, AnalysisResult, ArticleMetadata, Classification, WebContext } from '../types';
+import { STORES, getAllRecords, getRecord, putRecord, deleteRecord } from './db';
+
+export interface HistoryFilter {
+    verdicts: Classification[];
+    minConfidence: number;
+    maxConfidence: number;
+    // Matched against the result keywords.
+    keyword: string;
+    // Matched against the article text, explanation and metadata.
+    search: string;
+}
+
+export const DEFAULT_HISTORY_FILTER: HistoryFilter = {
+    verdicts: [],
+    minConfidence: 0,
+    maxConfidence: 100,
+    keyword: '',
+    search: '',
+};
+
+export const listAnalyses = async (): Promise<AnalysisHistoryEntry[]> => {
+    const entries = await getAllRecords<AnalysisHistoryEntry>(STORES.analyses);
+    return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getAnalysis = (id: string): Promise<AnalysisHistoryEntry | null> =>
+    getRecord<AnalysisHistoryEntry>(STORES.analyses, id);
+
+export const saveAnalysis = (
+    articleText: string,
+    options: AnalysisOptions,
+    model: string,
+    result: AnalysisResult,
+    metadata?: ArticleMetadata
+): Promise<AnalysisHistoryEntry> => {
+    return putRecord<AnalysisHistoryEntry>(STORES.analyses, {
+        id: crypto.randomUUID(),
+        createdAt: Date.now(),
+        articleText,
+        ...(metadata && { metadata }),
+        options,
+        model,
+        result,
+        webContext: null,
+        reruns: [],
+    });
+};
+
+export const updateAnalysis = (entry: AnalysisHistoryEntry): Promise<AnalysisHistoryEntry> =>
+    putRecord(STORES.analyses, entry);
+
+export const attachWebContext = async (id: string, webContext: WebContext): Promise<void> => {
+    const entry = await getAnalysis(id);
+    if (entry) {
+        await updateAnalysis({ ...entry, webContext });
+    }
+};
+
+export const deleteAnalysis = (id: string): Promise<void> => deleteRecord(STORES.analyses, id);
+
+// The most recent verdict for an entry, taking re-runs into account.
+export const latestResult = (entry: AnalysisHistoryEntry): AnalysisResult =>
+    entry.reruns.length > 0 ? entry.reruns[entry.reruns.length - 1].result : entry.result;
+
+export const filterAnalyses = (entries: AnalysisHistoryEntry[], filter: HistoryFilter): AnalysisHistoryEntry[] => {
+    const keyword = filter.keyword.trim().toLowerCase();
+    const terms = filter.search.trim().toLowerCase().split(/\s+/).filter(Boolean);
+
+    return entries.filter(entry => {
+        const result = latestResult(entry);
+        if (filter.verdicts.length > 0 && !filter.verdicts.includes(result.classification)) return false;
+        if (result.confidence < filter.minConfidence || result.confidence > filter.maxConfidence) return false;
+        if (keyword && !result.keywords.some(kw => kw.toLowerCase().includes(keyword))) return false;
+        if (terms.length > 0) {
+            const haystack = [
+                entry.articleText,
+                result.explanation,
+                entry.metadata?.headline,
+                entry.metadata?.outlet,
+                entry.metadata?.url,
+            ].filter(Boolean).join('\n').toLowerCase();
+            if (!terms.every(term => haystack.includes(term))) return false;
+        }
+        return true;
+    });
+};
@@ -0,0 +1,70 @@
+// Helpers for mask-based image edits. A mask is a canvas the size of the original image where
+// painted (opaque) pixels mark the region the edit may change.
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+    new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error("Failed to load image."));
+        image.src = src;
+    });
+
+const createCanvas = (width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas is not supported in this browser.");
+    return [canvas, ctx];
+};
+
+export const isMaskEmpty = (mask: HTMLCanvasElement): boolean => {
+    const ctx = mask.getContext('2d');
+    if (!ctx) return true;
+    const { data } = ctx.getImageData(0, 0, mask.width, mask.height);
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] > 0) return false;
+    }
+    return true;
+};
+
+// The mask as a base64 PNG for the model: white where the image may change, black elsewhere.
+export const maskToBase64Png = (mask: HTMLCanvasElement): string => {
+    const [canvas, ctx] = createCanvas(mask.width, mask.height);
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    // Paint white through the mask's alpha.
+    const [white, whiteCtx] = createCanvas(mask.width, mask.height);
+    whiteCtx.drawImage(mask, 0, 0);
+    whiteCtx.globalCompositeOperation = 'source-in';
+    whiteCtx.fillStyle = '#fff';
+    whiteCtx.fillRect(0, 0, white.width, white.height);
+    ctx.drawImage(white, 0, 0);
+    return canvas.toDataURL('image/png').split(',')[1];
+};
+
+// Pastes the masked region of the edited image over the original, so nothing outside the mask
+// changes even if the model altered it. `maskUrl` is the painted mask canvas as an image, and
+// `feather` blurs its edge by that many pixels of the original image. The edited image is
+// scaled to the original's size first, as models may return a different resolution.
+export const compositeMaskedEdit = async (
+    originalUrl: string,
+    editedUrl: string,
+    maskUrl: string,
+    feather: number
+): Promise<string> => {
+    const [original, edited, mask] = await Promise.all([loadImage(originalUrl), loadImage(editedUrl), loadImage(maskUrl)]);
+    const width = original.naturalWidth;
+    const height = original.naturalHeight;
+
+    const [patch, patchCtx] = createCanvas(width, height);
+    patchCtx.drawImage(edited, 0, 0, width, height);
+    patchCtx.globalCompositeOperation = 'destination-in';
+    if (feather > 0) patchCtx.filter = `blur(${feather}px)`;
+    patchCtx.drawImage(mask, 0, 0, width, height);
+
+    const [result, resultCtx] = createCanvas(width, height);
+    resultCtx.drawImage(original, 0, 0);
+    resultCtx.drawImage(patch, 0, 0);
+    return result.toDataURL('image/png');
+};
@@ -0,0 +1,161 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readImageMetadata } from './imageMetadata';
+
+// Builders for just enough of each container to carry metadata; image data is left out.
+
+const text = (value: string) => new TextEncoder().encode(value);
+const latin1 = (value: string) => Uint8Array.from(value, char => char.charCodeAt(0));
+
+const concat = (...parts: (Uint8Array | number[])[]): Uint8Array => {
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let position = 0;
+    for (const part of parts) {
+        result.set(part, position);
+        position += part.length;
+    }
+    return result;
+};
+
+const u16be = (value: number) => [value >> 8, value & 0xff];
+const u32be = (value: number) => [value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+const u16le = (value: number) => u16be(value).reverse();
+const u32le = (value: number) => u32be(value).reverse();
+
+const bufferOf = (bytes: Uint8Array): ArrayBuffer => bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+
+// A little-endian TIFF block with one IFD of ASCII tags, each longer than four bytes.
+const tiff = (tags: [number, string][]): Uint8Array => {
+    let dataOffset = 8 + 2 + tags.length * 12 + 4;
+    const entries: number[] = [];
+    const data: Uint8Array[] = [];
+    for (const [tag, value] of tags) {
+        const bytes = latin1(`${value}\0`);
+        entries.push(...u16le(tag), ...u16le(2), ...u32le(bytes.length), ...u32le(dataOffset));
+        data.push(bytes);
+        dataOffset += bytes.length;
+    }
+    return concat(latin1('II'), u16le(42), u32le(8), u16le(tags.length), entries, u32le(0), ...data);
+};
+
+// Enough CBOR to write C2PA assertions: strings, small integers, arrays and maps.
+const cbor = (value: unknown): Uint8Array => {
+    const head = (major: number, length: number) => length < 24 ? [(major << 5) | length] : [(major << 5) | 24, length];
+    if (typeof value === 'number') return new Uint8Array(head(0, value));
+    if (typeof value === 'string') return concat(head(3, text(value).length), text(value));
+    if (Array.isArray(value)) return concat(head(4, value.length), ...value.map(cbor));
+    const entries = Object.entries(value as Record<string, unknown>);
+    return concat(head(5, entries.length), ...entries.flatMap(([key, item]) => [cbor(key), cbor(item)]));
+};
+
+const box = (type: string, payload: Uint8Array) => concat(u32be(8 + payload.length), latin1(type), payload);
+const superbox = (label: string, ...children: Uint8Array[]) =>
+    box('jumb', concat(box('jumd', concat(new Uint8Array(16), [0x03], text(label), [0])), ...children));
+
+const AI_SOURCE = 'http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia';
+
+const manifestStore = superbox('c2pa',
+    superbox('urn:uuid:first',
+        superbox('c2pa.assertions',
+            superbox('c2pa.actions', box('cbor', cbor({
+                actions: [
+                    { action: 'c2pa.created', digitalSourceType: AI_SOURCE, softwareAgent: { name: 'Imagen', version: '3' } },
+                    { action: 'c2pa.resized' },
+                ],
+            }))),
+            superbox('c2pa.hash.data', box('cbor', cbor({ alg: 'sha256' }))),
+        ),
+        superbox('c2pa.claim', box('cbor', cbor({ claim_generator: 'Example Generator/1.0', 'dc:title': 'image.webp' }))),
+        superbox('c2pa.signature', box('cbor', cbor([]))),
+    ),
+);
+
+const XMP = `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF><rdf:Description xmp:CreatorTool="Adobe Photoshop 25.0 &amp; more">
+<dc:title><rdf:Alt><rdf:li xml:lang="x-default">Harbour at dusk</rdf:li></rdf:Alt></dc:title>
+<xmpMM:History><rdf:Seq>
+<rdf:li stEvt:action="created" stEvt:softwareAgent="Camera"/>
+<rdf:li><rdf:Description><stEvt:action>saved</stEvt:action><stEvt:softwareAgent>Adobe Photoshop 25.0</stEvt:softwareAgent><stEvt:when>2024-05-01T10:00:00</stEvt:when></rdf:Description></rdf:li>
+</rdf:Seq></xmpMM:History>
+</rdf:Description></rdf:RDF></x:xmpmeta>`;
+
+const jpegSegment = (marker: number, payload: Uint8Array) => concat([0xff, marker], u16be(payload.length + 2), payload);
+
+test('readImageMetadata reads EXIF and XMP from JPEG segments', () => {
+    const jpeg = concat(
+        [0xff, 0xd8],
+        jpegSegment(0xe1, concat(latin1('Exif\0\0'), tiff([[0x010f, 'Canon'], [0x0110, 'EOS R5'], [0x0131, 'Adobe Lightroom']]))),
+        jpegSegment(0xe1, concat(latin1('http://ns.adobe.com/xap/1.0/\0'), text(XMP))),
+        [0xff, 0xda],
+    );
+    const metadata = readImageMetadata(bufferOf(jpeg));
+    assert.equal(metadata.format, 'jpeg');
+    assert.deepEqual(metadata.exif, { Make: 'Canon', Model: 'EOS R5', Software: 'Adobe Lightroom' });
+    assert.deepEqual(metadata.xmp?.properties, { 'xmp:CreatorTool': 'Adobe Photoshop 25.0 & more', 'dc:title': 'Harbour at dusk' });
+    assert.deepEqual(metadata.xmp?.history, [
+        { action: 'created', softwareAgent: 'Camera' },
+        { action: 'saved', softwareAgent: 'Adobe Photoshop 25.0', when: '2024-05-01T10:00:00' },
+    ]);
+    assert.deepEqual(metadata.warnings, []);
+});
+
+test('readImageMetadata reassembles C2PA manifests split over JPEG APP11 segments', () => {
+    const split = 40;
+    const header = manifestStore.subarray(0, 8);
+    const appSegment = (sequence: number, data: Uint8Array) =>
+        jpegSegment(0xeb, concat(latin1('JP'), u16be(1), u32be(sequence), data));
+    const jpeg = concat(
+        [0xff, 0xd8],
+        // Out of order on purpose; segments are joined by sequence number.
+        appSegment(2, concat(header, manifestStore.subarray(split))),
+        appSegment(1, manifestStore.subarray(0, split)),
+        [0xff, 0xda],
+    );
+    const [manifest] = readImageMetadata(bufferOf(jpeg)).c2paManifests;
+    assert.equal(manifest.label, 'urn:uuid:first');
+    assert.equal(manifest.claimGenerator, 'Example Generator/1.0');
+});
+
+test('readImageMetadata reads C2PA manifests from WebP files', () => {
+    const webp = concat(latin1('RIFF'), u32le(4 + 8 + manifestStore.length), latin1('WEBP'), latin1('C2PA'), u32le(manifestStore.length), manifestStore);
+    const metadata = readImageMetadata(bufferOf(webp));
+    assert.equal(metadata.format, 'webp');
+    assert.deepEqual(metadata.c2paManifests, [{
+        label: 'urn:uuid:first',
+        claimGenerator: 'Example Generator/1.0',
+        title: 'image.webp',
+        assertions: ['c2pa.actions', 'c2pa.hash.data'],
+        actions: [
+            { action: 'c2pa.created', digitalSourceType: AI_SOURCE, softwareAgent: 'Imagen 3' },
+            { action: 'c2pa.resized' },
+        ],
+        hasSignature: true,
+    }]);
+});
+
+const pngChunk = (type: string, data: Uint8Array) => concat(u32be(data.length), latin1(type), data, u32be(0));
+
+test('readImageMetadata reads PNG text chunks and reports compressed ones it skips', () => {
+    const png = concat(
+        latin1('\x89PNG\r\n\x1a\n'),
+        pngChunk('tEXt', latin1('parameters\0a lighthouse, Steps: 30')),
+        pngChunk('iTXt', concat(latin1('Title\0\0\0en\0\0'), text('Leuchtturm – Nacht'))),
+        pngChunk('iTXt', concat(latin1('XML:com.adobe.xmp\0\0\0\0\0'), text(XMP))),
+        pngChunk('zTXt', latin1('Comment\0\0compressed')),
+        pngChunk('IEND', new Uint8Array()),
+    );
+    const metadata = readImageMetadata(bufferOf(png));
+    assert.equal(metadata.format, 'png');
+    assert.deepEqual(metadata.textChunks, { parameters: 'a lighthouse, Steps: 30', Title: 'Leuchtturm – Nacht' });
+    assert.equal(metadata.xmp?.properties['dc:title'], 'Harbour at dusk');
+    assert.deepEqual(metadata.warnings, ['The compressed "Comment" text chunk was not read.']);
+});
+
+test('readImageMetadata reports unreadable metadata as a warning instead of throwing', (t) => {
+    t.mock.method(console, 'error', () => undefined);
+    const broken = concat(manifestStore.subarray(0, 4), latin1('jumb'), [0, 0, 0, 0xff]);
+    const webp = concat(latin1('RIFF'), u32le(0), latin1('WEBP'), latin1('C2PA'), u32le(broken.length), broken);
+    const metadata = readImageMetadata(bufferOf(webp));
+    assert.deepEqual(metadata.c2paManifests, []);
+    assert.deepEqual(metadata.warnings, ['The C2PA content credentials could not be read.']);
+    assert.equal(readImageMetadata(bufferOf(latin1('GIF89a'))).format, 'unknown');
+});
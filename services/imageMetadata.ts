@@ -0,0 +1,460 @@
+import { decodeCbor } from './cbor';
+
+// Reads the metadata that cameras, editors and image generators embed in JPEG, PNG and WebP
+// files: EXIF, XMP, PNG text chunks and C2PA content credentials. Everything is parsed locally
+// from the file bytes. C2PA manifests are read but their signatures are not verified, so they
+// show what a file claims about itself, not that the claim is genuine.
+
+export type ImageFormat = 'jpeg' | 'png' | 'webp' | 'unknown';
+
+export interface XmpHistoryEvent {
+    action: string;
+    softwareAgent?: string;
+    when?: string;
+}
+
+export interface XmpData {
+    properties: Record<string, string>;
+    history: XmpHistoryEvent[];
+}
+
+export interface C2paAction {
+    action: string;
+    digitalSourceType?: string;
+    softwareAgent?: string;
+}
+
+export interface C2paManifest {
+    label: string;
+    claimGenerator: string | null;
+    title: string | null;
+    assertions: string[];
+    actions: C2paAction[];
+    hasSignature: boolean;
+}
+
+export interface ImageMetadata {
+    format: ImageFormat;
+    exif: Record<string, string> | null;
+    gps: { latitude: number; longitude: number } | null;
+    xmp: XmpData | null;
+    // PNG text chunks; image generators often store their prompt and settings here.
+    textChunks: Record<string, string>;
+    // In manifest store order; the last one is the active manifest describing the current file.
+    c2paManifests: C2paManifest[];
+    // Metadata blocks that were present but could not be read.
+    warnings: string[];
+}
+
+const EXIF_TAGS: Record<number, string> = {
+    0x010e: 'ImageDescription',
+    0x010f: 'Make',
+    0x0110: 'Model',
+    0x0131: 'Software',
+    0x0132: 'DateTime',
+    0x013b: 'Artist',
+    0x8298: 'Copyright',
+};
+
+const EXIF_SUB_IFD_TAGS: Record<number, string> = {
+    0x9003: 'DateTimeOriginal',
+    0x9004: 'DateTimeDigitized',
+    0x9286: 'UserComment',
+    0xa433: 'LensMake',
+    0xa434: 'LensModel',
+};
+
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+
+const XMP_PROPERTIES = [
+    'xmp:CreatorTool',
+    'xmp:CreateDate',
+    'xmp:ModifyDate',
+    'photoshop:DateCreated',
+    'dc:creator',
+    'dc:title',
+    'dc:description',
+    'Iptc4xmpExt:DigitalSourceType',
+    'tiff:Make',
+    'tiff:Model',
+];
+
+const XMP_NAMESPACE = 'http://ns.adobe.com/xap/1.0/\0';
+const EXIF_HEADER = 'Exif\0\0';
+
+const latin1 = new TextDecoder('latin1');
+const utf8 = new TextDecoder();
+
+const startsWith = (bytes: Uint8Array, prefix: string): boolean =>
+    bytes.length >= prefix.length && latin1.decode(bytes.subarray(0, prefix.length)) === prefix;
+
+const detectFormat = (bytes: Uint8Array): ImageFormat => {
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'jpeg';
+    if (startsWith(bytes, '\x89PNG\r\n\x1a\n')) return 'png';
+    if (startsWith(bytes, 'RIFF') && latin1.decode(bytes.subarray(8, 12)) === 'WEBP') return 'webp';
+    return 'unknown';
+};
+
+// --- EXIF ---
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+const parseTiff = (tiff: Uint8Array): { exif: Record<string, string>; gps: ImageMetadata['gps'] } => {
+    const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+    const little = tiff[0] === 0x49;
+    const u16 = (offset: number) => view.getUint16(offset, little);
+    const u32 = (offset: number) => view.getUint32(offset, little);
+
+    const readValue = (entry: number): string | number[] => {
+        const type = u16(entry + 2);
+        const count = u32(entry + 4);
+        const size = (TYPE_SIZES[type] ?? 1) * count;
+        const offset = size <= 4 ? entry + 8 : u32(entry + 8);
+        if (offset + size > tiff.length) throw new Error('EXIF value is out of bounds.');
+        if (type === 2 || type === 7) {
+            let text = latin1.decode(tiff.subarray(offset, offset + size));
+            // UserComment starts with an 8-byte character code.
+            if (type === 7 && /^(ASCII|UNICODE|JIS|\0{8})/.test(text)) text = text.slice(8);
+            return text.replace(/\0+$/, '').trim();
+        }
+        const values: number[] = [];
+        for (let i = 0; i < count; i++) {
+            if (type === 3) values.push(u16(offset + i * 2));
+            else if (type === 4 || type === 9) values.push(u32(offset + i * 4));
+            else if (type === 5 || type === 10) {
+                const denominator = u32(offset + i * 8 + 4);
+                values.push(denominator ? u32(offset + i * 8) / denominator : 0);
+            } else values.push(tiff[offset + i]);
+        }
+        return values;
+    };
+
+    const readIfd = (offset: number): Map<number, string | number[]> => {
+        const entries = new Map<number, string | number[]>();
+        if (offset + 2 > tiff.length) return entries;
+        const count = u16(offset);
+        for (let i = 0; i < count; i++) {
+            const entry = offset + 2 + i * 12;
+            if (entry + 12 > tiff.length) break;
+            entries.set(u16(entry), readValue(entry));
+        }
+        return entries;
+    };
+
+    const exif: Record<string, string> = {};
+    const collect = (ifd: Map<number, string | number[]>, tags: Record<number, string>) => {
+        for (const [tag, name] of Object.entries(tags)) {
+            const value = ifd.get(Number(tag));
+            if (typeof value === 'string' && value) exif[name] = value;
+        }
+    };
+
+    const ifd0 = readIfd(u32(4));
+    collect(ifd0, EXIF_TAGS);
+    const exifPointer = ifd0.get(EXIF_IFD_POINTER);
+    if (Array.isArray(exifPointer)) collect(readIfd(exifPointer[0]), EXIF_SUB_IFD_TAGS);
+
+    let gps: ImageMetadata['gps'] = null;
+    const gpsPointer = ifd0.get(GPS_IFD_POINTER);
+    if (Array.isArray(gpsPointer)) {
+        const gpsIfd = readIfd(gpsPointer[0]);
+        const toDegrees = (value: string | number[] | undefined, ref: string | number[] | undefined, negative: string) => {
+            if (!Array.isArray(value) || value.length < 3) return null;
+            const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+            return ref === negative ? -degrees : degrees;
+        };
+        const latitude = toDegrees(gpsIfd.get(2), gpsIfd.get(1), 'S');
+        const longitude = toDegrees(gpsIfd.get(4), gpsIfd.get(3), 'W');
+        if (latitude !== null && longitude !== null) gps = { latitude, longitude };
+    }
+    return { exif, gps };
+};
+
+// --- XMP ---
+
+const decodeEntities = (text: string): string =>
+    text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+
+// Properties appear either as attributes (`xmp:CreatorTool="..."`), as elements, possibly
+// wrapping an rdf:Alt/Seq/Bag whose first item is used, or as `rdf:resource` references.
+const xmpProperty = (xmp: string, name: string): string | undefined => {
+    const attribute = new RegExp(`\\s${name}="([^"]*)"`).exec(xmp);
+    if (attribute) return decodeEntities(attribute[1]).trim() || undefined;
+    const resource = new RegExp(`<${name}\\s[^>]*rdf:resource="([^"]*)"`).exec(xmp);
+    if (resource) return decodeEntities(resource[1]).trim() || undefined;
+    const element = new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`).exec(xmp);
+    if (!element) return undefined;
+    const item = /<rdf:li[^>]*>([\s\S]*?)<\/rdf:li>/.exec(element[1]);
+    return decodeEntities((item ? item[1] : element[1]).replace(/<[^>]+>/g, '')).trim() || undefined;
+};
+
+const parseXmp = (xmp: string): XmpData => {
+    const properties: Record<string, string> = {};
+    for (const name of XMP_PROPERTIES) {
+        const value = xmpProperty(xmp, name);
+        if (value) properties[name] = value;
+    }
+    const history: XmpHistoryEvent[] = [];
+    const historyBlock = /<xmpMM:History>([\s\S]*?)<\/xmpMM:History>/.exec(xmp)?.[1] ?? '';
+    for (const [item] of historyBlock.matchAll(/<rdf:li\b[\s\S]*?(?:\/>|<\/rdf:li>)/g)) {
+        const action = xmpProperty(item, 'stEvt:action');
+        if (!action) continue;
+        history.push({
+            action,
+            ...(xmpProperty(item, 'stEvt:softwareAgent') && { softwareAgent: xmpProperty(item, 'stEvt:softwareAgent') }),
+            ...(xmpProperty(item, 'stEvt:when') && { when: xmpProperty(item, 'stEvt:when') }),
+        });
+    }
+    return { properties, history };
+};
+
+// --- C2PA ---
+
+interface JumbfBox {
+    type: string;
+    // Superboxes ('jumb') carry a label and children; content boxes carry their payload.
+    label: string | null;
+    children: JumbfBox[];
+    payload: Uint8Array;
+}
+
+const parseBoxes = (bytes: Uint8Array): JumbfBox[] => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const boxes: JumbfBox[] = [];
+    let offset = 0;
+    while (offset + 8 <= bytes.length) {
+        let length = view.getUint32(offset);
+        const type = latin1.decode(bytes.subarray(offset + 4, offset + 8));
+        let header = 8;
+        if (length === 1) {
+            length = Number(view.getBigUint64(offset + 8));
+            header = 16;
+        } else if (length === 0) {
+            length = bytes.length - offset;
+        }
+        if (length < header || offset + length > bytes.length) throw new Error('JUMBF box is out of bounds.');
+        const payload = bytes.subarray(offset + header, offset + length);
+        if (type === 'jumb') {
+            const [description, ...children] = parseBoxes(payload);
+            let label: string | null = null;
+            // Description: 16-byte type UUID, toggles, then a null-terminated label if toggled on.
+            if (description?.type === 'jumd' && description.payload[16] & 0x02) {
+                const end = description.payload.indexOf(0, 17);
+                label = utf8.decode(description.payload.subarray(17, end === -1 ? undefined : end));
+            }
+            boxes.push({ type, label, children, payload });
+        } else {
+            boxes.push({ type, label: null, children: [], payload });
+        }
+        offset += length;
+    }
+    return boxes;
+};
+
+const contentOf = (box: JumbfBox | undefined): unknown => {
+    const content = box?.children.find(child => child.type === 'cbor' || child.type === 'json');
+    if (!content) return undefined;
+    return content.type === 'cbor' ? decodeCbor(content.payload) : JSON.parse(utf8.decode(content.payload));
+};
+
+const nameOf = (value: unknown): string | undefined => {
+    if (typeof value === 'string') return value;
+    if (value && typeof value === 'object' && typeof (value as { name?: unknown }).name === 'string') {
+        const { name, version } = value as { name: string; version?: unknown };
+        return typeof version === 'string' ? `${name} ${version}` : name;
+    }
+    return undefined;
+};
+
+const parseManifest = (manifest: JumbfBox): C2paManifest => {
+    const assertionStore = manifest.children.find(child => child.label === 'c2pa.assertions');
+    const assertions = (assertionStore?.children ?? []).map(child => child.label ?? child.type);
+    const actions: C2paAction[] = [];
+    for (const box of assertionStore?.children ?? []) {
+        if (!box.label?.startsWith('c2pa.actions')) continue;
+        const content = contentOf(box) as { actions?: Record<string, unknown>[] } | undefined;
+        for (const entry of content?.actions ?? []) {
+            if (typeof entry.action !== 'string') continue;
+            const softwareAgent = nameOf(entry.softwareAgent);
+            actions.push({
+                action: entry.action,
+                ...(typeof entry.digitalSourceType === 'string' && { digitalSourceType: entry.digitalSourceType }),
+                ...(softwareAgent && { softwareAgent }),
+            });
+        }
+    }
+
+    const claim = contentOf(manifest.children.find(child => child.label?.startsWith('c2pa.claim'))) as Record<string, unknown> | undefined;
+    const generatorInfo = claim?.claim_generator_info;
+    const claimGenerator = nameOf(claim?.claim_generator) ?? nameOf(Array.isArray(generatorInfo) ? generatorInfo[0] : generatorInfo) ?? null;
+
+    return {
+        label: manifest.label ?? 'unlabeled manifest',
+        claimGenerator,
+        title: typeof claim?.['dc:title'] === 'string' ? claim['dc:title'] : null,
+        assertions,
+        actions,
+        hasSignature: manifest.children.some(child => child.label === 'c2pa.signature'),
+    };
+};
+
+const parseC2pa = (jumbf: Uint8Array): C2paManifest[] => {
+    const store = parseBoxes(jumbf).find(box => box.label === 'c2pa');
+    return (store?.children ?? []).filter(box => box.type === 'jumb').map(parseManifest);
+};
+
+// --- Containers ---
+
+interface RawMetadata {
+    tiff?: Uint8Array;
+    xmp?: string;
+    jumbf?: Uint8Array;
+    textChunks: Record<string, string>;
+    warnings: string[];
+}
+
+const concatBytes = (chunks: Uint8Array[]): Uint8Array => {
+    const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    let position = 0;
+    for (const chunk of chunks) {
+        result.set(chunk, position);
+        position += chunk.length;
+    }
+    return result;
+};
+
+const readJpeg = (bytes: Uint8Array, raw: RawMetadata) => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    // C2PA manifests larger than one segment are split over several APP11 segments, each
+    // repeating the box header, and are reassembled per box instance in sequence order.
+    const jumbfParts = new Map<number, { sequence: number; data: Uint8Array }[]>();
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        // Metadata segments all come before the image data starts.
+        if (marker === 0xda || marker === 0xd9) break;
+        if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7) || marker === 0xff) {
+            offset += marker === 0xff ? 1 : 2;
+            continue;
+        }
+        const length = view.getUint16(offset + 2);
+        const segment = bytes.subarray(offset + 4, offset + 2 + length);
+        if (marker === 0xe1 && startsWith(segment, EXIF_HEADER)) {
+            raw.tiff = segment.subarray(EXIF_HEADER.length);
+        } else if (marker === 0xe1 && startsWith(segment, XMP_NAMESPACE)) {
+            raw.xmp = utf8.decode(segment.subarray(XMP_NAMESPACE.length));
+        } else if (marker === 0xeb && startsWith(segment, 'JP') && segment.length > 16) {
+            const segmentView = new DataView(segment.buffer, segment.byteOffset, segment.byteLength);
+            const instance = segmentView.getUint16(2);
+            const sequence = segmentView.getUint32(4);
+            const parts = jumbfParts.get(instance) ?? [];
+            parts.push({ sequence, data: segment.subarray(8) });
+            jumbfParts.set(instance, parts);
+        }
+        offset += 2 + length;
+    }
+
+    for (const parts of jumbfParts.values()) {
+        parts.sort((a, b) => a.sequence - b.sequence);
+        const [first, ...rest] = parts;
+        const headerLength = (part: Uint8Array) => new DataView(part.buffer, part.byteOffset).getUint32(0) === 1 ? 16 : 8;
+        const box = concatBytes([first.data, ...rest.map(part => part.data.subarray(headerLength(part.data)))]);
+        if (latin1.decode(box.subarray(4, 8)) === 'jumb') {
+            raw.jumbf = raw.jumbf ? concatBytes([raw.jumbf, box]) : box;
+        }
+    }
+};
+
+const readPng = (bytes: Uint8Array, raw: RawMetadata) => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 8;
+    while (offset + 8 <= bytes.length) {
+        const length = view.getUint32(offset);
+        const type = latin1.decode(bytes.subarray(offset + 4, offset + 8));
+        const data = bytes.subarray(offset + 8, offset + 8 + length);
+        if (type === 'IEND') break;
+        if (type === 'eXIf') {
+            raw.tiff = startsWith(data, EXIF_HEADER) ? data.subarray(EXIF_HEADER.length) : data;
+        } else if (type === 'caBX') {
+            raw.jumbf = data;
+        } else if (type === 'tEXt') {
+            const separator = data.indexOf(0);
+            raw.textChunks[latin1.decode(data.subarray(0, separator))] = latin1.decode(data.subarray(separator + 1));
+        } else if (type === 'iTXt') {
+            const keywordEnd = data.indexOf(0);
+            const keyword = latin1.decode(data.subarray(0, keywordEnd));
+            const compressed = data[keywordEnd + 1] === 1;
+            const languageEnd = data.indexOf(0, keywordEnd + 3);
+            const translatedEnd = data.indexOf(0, languageEnd + 1);
+            if (compressed) {
+                raw.warnings.push(`The compressed "${keyword}" text chunk was not read.`);
+            } else {
+                const text = utf8.decode(data.subarray(translatedEnd + 1));
+                if (keyword === 'XML:com.adobe.xmp') raw.xmp = text;
+                else raw.textChunks[keyword] = text;
+            }
+        } else if (type === 'zTXt') {
+            raw.warnings.push(`The compressed "${latin1.decode(data.subarray(0, data.indexOf(0)))}" text chunk was not read.`);
+        }
+        offset += 12 + length;
+    }
+};
+
+const readWebp = (bytes: Uint8Array, raw: RawMetadata) => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 12;
+    while (offset + 8 <= bytes.length) {
+        const type = latin1.decode(bytes.subarray(offset, offset + 4));
+        const length = view.getUint32(offset + 4, true);
+        const data = bytes.subarray(offset + 8, offset + 8 + length);
+        if (type === 'EXIF') raw.tiff = startsWith(data, EXIF_HEADER) ? data.subarray(EXIF_HEADER.length) : data;
+        else if (type === 'XMP ') raw.xmp = utf8.decode(data);
+        else if (type === 'C2PA') raw.jumbf = data;
+        offset += 8 + length + (length % 2);
+    }
+};
+
+export const readImageMetadata = (buffer: ArrayBuffer): ImageMetadata => {
+    const bytes = new Uint8Array(buffer);
+    const format = detectFormat(bytes);
+    const raw: RawMetadata = { textChunks: {}, warnings: [] };
+    const attempt = (what: string, read: () => void) => {
+        try {
+            read();
+        } catch (error) {
+            console.error(`Error reading ${what}:`, error);
+            raw.warnings.push(`The ${what} could not be read.`);
+        }
+    };
+
+    attempt('file structure', () => {
+        if (format === 'jpeg') readJpeg(bytes, raw);
+        else if (format === 'png') readPng(bytes, raw);
+        else if (format === 'webp') readWebp(bytes, raw);
+    });
+
+    const metadata: ImageMetadata = {
+        format,
+        exif: null,
+        gps: null,
+        xmp: null,
+        textChunks: raw.textChunks,
+        c2paManifests: [],
+        warnings: raw.warnings,
+    };
+    if (raw.tiff) {
+        attempt('EXIF metadata', () => {
+            const { exif, gps } = parseTiff(raw.tiff);
+            metadata.exif = Object.keys(exif).length > 0 ? exif : null;
+            metadata.gps = gps;
+        });
+    }
+    if (raw.xmp) {
+        attempt('XMP metadata', () => { metadata.xmp = parseXmp(raw.xmp); });
+    }
+    if (raw.jumbf) {
+        attempt('C2PA content credentials', () => { metadata.c2paManifests = parseC2pa(raw.jumbf); });
+    }
+    return metadata;
+};
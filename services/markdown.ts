@@ -0,0 +1,130 @@
+import { Marked, Tokens, TokenizerAndRendererExtension } from 'marked';
+import DOMPurify from 'dompurify';
+import hljs from 'highlight.js/lib/core';
+import bash from 'highlight.js/lib/languages/bash';
+import cpp from 'highlight.js/lib/languages/cpp';
+import css from 'highlight.js/lib/languages/css';
+import go from 'highlight.js/lib/languages/go';
+import java from 'highlight.js/lib/languages/java';
+import javascript from 'highlight.js/lib/languages/javascript';
+import json from 'highlight.js/lib/languages/json';
+import markdown from 'highlight.js/lib/languages/markdown';
+import python from 'highlight.js/lib/languages/python';
+import rust from 'highlight.js/lib/languages/rust';
+import sql from 'highlight.js/lib/languages/sql';
+import typescript from 'highlight.js/lib/languages/typescript';
+import xml from 'highlight.js/lib/languages/xml';
+import yaml from 'highlight.js/lib/languages/yaml';
+import katex from 'katex';
+import { GroundingSource } from '../types';
+import { renderCitationMarkers } from './citations';
+
+// Renders untrusted markdown (model output, which may quote arbitrary web content) to HTML that
+// is safe to pass to dangerouslySetInnerHTML. The marked output goes through an allow-list
+// sanitizer; math and citation markers are filled in afterwards, since their markup is generated
+// here rather than taken from the input. Styles live under `.markdown-body` in index.html.
+
+Object.entries({ bash, cpp, css, go, java, javascript, json, markdown, python, rust, sql, typescript, xml, yaml })
+    .forEach(([name, language]) => hljs.registerLanguage(name, language));
+
+const ALLOWED_TAGS = [
+    'p', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'ul', 'ol', 'li',
+    'strong', 'em', 'del', 's', 'code', 'pre', 'sup', 'sub', 'span', 'div', 'a', 'button',
+    'table', 'thead', 'tbody', 'tr', 'th', 'td', 'details', 'summary',
+];
+const ALLOWED_ATTR = ['href', 'title', 'class', 'align', 'start', 'colspan', 'rowspan', 'type'];
+
+// Only highlighting classes are kept: the page is styled with Tailwind, so any other class in the
+// input could restyle or overlay the app.
+const ALLOWED_CLASS = /^(hljs|language-)/;
+
+DOMPurify.addHook('uponSanitizeAttribute', (_node, data) => {
+    if (data.attrName !== 'class') return;
+    data.attrValue = data.attrValue.split(/\s+/).filter(name => ALLOWED_CLASS.test(name)).join(' ');
+    data.keepAttr = data.attrValue.length > 0;
+});
+
+// Every remaining link opens in a new tab without access to this window.
+DOMPurify.addHook('afterSanitizeAttributes', node => {
+    if (node.tagName === 'A' && node.hasAttribute('href')) {
+        node.setAttribute('target', '_blank');
+        node.setAttribute('rel', 'noopener noreferrer');
+    }
+});
+
+const escapeHtml = (value: string): string =>
+    value.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]!));
+
+interface MathToken extends Tokens.Generic {
+    type: 'blockMath' | 'inlineMath';
+    tex: string;
+    displayMode: boolean;
+}
+
+// Math is replaced by numbered placeholders while parsing and rendered once the HTML is clean.
+const createMathExtensions = (formulas: MathToken[]): TokenizerAndRendererExtension[] => {
+    const placeholder = (token: Tokens.Generic) => {
+        formulas.push(token as MathToken);
+        return `<span data-math="${formulas.length - 1}"></span>`;
+    };
+    return [
+        {
+            name: 'blockMath',
+            level: 'block',
+            start: src => src.match(/\$\$|\\\[/)?.index,
+            tokenizer: src => {
+                const match = /^(?:\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\])(?:\n|$)/.exec(src);
+                if (match) return { type: 'blockMath', raw: match[0], tex: (match[1] ?? match[2]).trim(), displayMode: true };
+            },
+            renderer: placeholder,
+        },
+        {
+            name: 'inlineMath',
+            level: 'inline',
+            start: src => src.match(/\$|\\\(/)?.index,
+            // A dollar amount such as "$5 and $10" is not math: the opening $ must not be followed by
+            // a space and the closing $ must not be followed by a digit.
+            tokenizer: src => {
+                const match = /^(?:\$(?!\s)((?:\\.|[^\\$\n])+?)(?<!\s)\$(?!\d)|\\\(([\s\S]+?)\\\))/.exec(src);
+                if (match) return { type: 'inlineMath', raw: match[0], tex: match[1] ?? match[2], displayMode: false };
+            },
+            renderer: placeholder,
+        },
+    ];
+};
+
+const renderCode = ({ text, lang }: Tokens.Code): string => {
+    const language = (lang ?? '').trim().split(/\s+/)[0].toLowerCase();
+    const highlighted = language && hljs.getLanguage(language)
+        ? hljs.highlight(text, { language, ignoreIllegals: true }).value
+        : escapeHtml(text);
+    return `<div data-code-block><div><span>${escapeHtml(language || 'text')}</span>` +
+        `<button type="button" data-copy-code>Copy</button></div>` +
+        `<pre><code class="hljs">${highlighted}</code></pre></div>`;
+};
+
+const renderTable = function (this: { parser: { parseInline: (tokens: Tokens.Generic[]) => string } }, token: Tokens.Table): string {
+    const cell = (tag: 'th' | 'td', { tokens, align }: Tokens.TableCell) =>
+        `<${tag}${align ? ` align="${align}"` : ''}>${this.parser.parseInline(tokens)}</${tag}>`;
+    const header = token.header.map(c => cell('th', c)).join('');
+    const rows = token.rows.map(row => `<tr>${row.map(c => cell('td', c)).join('')}</tr>`).join('');
+    return `<div data-table><table><thead><tr>${header}</tr></thead><tbody>${rows}</tbody></table></div>`;
+};
+
+// `sources` fills in the citation placeholders inserted by annotateCitations.
+export const renderMarkdown = (text: string, sources: GroundingSource[] = []): string => {
+    const formulas: MathToken[] = [];
+    const marked = new Marked({
+        gfm: true,
+        breaks: false,
+        extensions: createMathExtensions(formulas),
+        renderer: { code: renderCode, table: renderTable },
+    });
+    const html = DOMPurify.sanitize(marked.parse(text, { async: false }) as string, { ALLOWED_TAGS, ALLOWED_ATTR });
+    const withMath = html.replace(/<span data-math="(\d+)"><\/span>/g, (_, index) => {
+        const formula = formulas[Number(index)];
+        if (!formula) return '';
+        return katex.renderToString(formula.tex, { displayMode: formula.displayMode, throwOnError: false, trust: false });
+    });
+    return renderCitationMarkers(withMath, sources);
+};
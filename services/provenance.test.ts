@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ImageAuthenticityAssessment } from '../types';
+import { ImageMetadata } from './imageMetadata';
+import { buildProvenanceReport, provenanceSignals } from './provenance';
+
+const empty: ImageMetadata = { format: 'jpeg', exif: null, gps: null, xmp: null, textChunks: {}, c2paManifests: [], warnings: [] };
+
+const assessment = (aiGeneratedLikelihood: number, manipulationLikelihood: number): ImageAuthenticityAssessment =>
+    ({ aiGeneratedLikelihood, manipulationLikelihood, indicators: [], explanation: '' });
+
+const camera: ImageMetadata = {
+    ...empty,
+    exif: { Make: 'Canon', Model: 'EOS R5', DateTimeOriginal: '2024:05:01 10:00:00', DateTime: '2024:05:02 09:00:00' },
+};
+
+test('provenanceSignals reads C2PA actions from every manifest and skips neutral ones', () => {
+    const signals = provenanceSignals({
+        ...empty,
+        c2paManifests: [
+            { label: 'a', claimGenerator: 'Imagen', title: null, assertions: [], hasSignature: true, actions: [
+                { action: 'c2pa.created', digitalSourceType: 'http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia', softwareAgent: 'Imagen 3' },
+            ] },
+            { label: 'b', claimGenerator: null, title: null, assertions: [], hasSignature: false, actions: [
+                { action: 'c2pa.resized' },
+                { action: 'c2pa.color_adjustments', softwareAgent: 'Photoshop' },
+            ] },
+        ],
+    });
+    assert.deepEqual(signals, [
+        { kind: 'info', source: 'C2PA', detail: 'Content credentials from an unknown tool, without a signature' },
+        { kind: 'aiGenerated', source: 'C2PA', detail: 'c2pa.created by Imagen 3 declares the source as trainedAlgorithmicMedia' },
+        { kind: 'edited', source: 'C2PA', detail: 'Recorded edit: c2pa.color_adjustments by Photoshop' },
+    ]);
+});
+
+test('provenanceSignals recognises generators and editors in XMP, EXIF and PNG text', () => {
+    const kinds = (metadata: ImageMetadata) => provenanceSignals(metadata).map(signal => `${signal.source}:${signal.kind}`);
+    assert.deepEqual(kinds({ ...empty, textChunks: { parameters: 'a lighthouse', Software: 'ComfyUI' } }), ['PNG text:aiGenerated', 'PNG text:aiGenerated']);
+    assert.deepEqual(kinds({ ...empty, xmp: {
+        properties: { 'xmp:CreatorTool': 'Adobe Photoshop 25.0' },
+        history: [{ action: 'created', softwareAgent: 'Camera' }, { action: 'saved', softwareAgent: 'GIMP 2.10' }],
+    } }), ['XMP:edited', 'XMP:edited']);
+    assert.deepEqual(kinds(camera), ['EXIF:capture', 'EXIF:info']);
+});
+
+test('buildProvenanceReport lets a declared AI source override the visual check', () => {
+    const report = buildProvenanceReport({ ...empty, textChunks: { prompt: '{}' } }, assessment(10, 5));
+    assert.equal(report.score, 95);
+    assert.equal(report.classification, 'Fake');
+    assert.match(report.summary, /The metadata declares an AI generator\.$/);
+});
+
+test('buildProvenanceReport nudges the visual score for edits and camera data', () => {
+    const edited = buildProvenanceReport({ ...empty, exif: { Software: 'Snapseed' } }, assessment(60, 70));
+    assert.equal(edited.score, 85);
+    assert.equal(edited.classification, 'Fake');
+
+    const captured = buildProvenanceReport(camera, assessment(20, 15));
+    assert.equal(captured.score, 10);
+    assert.equal(captured.confidence, 90);
+    assert.equal(captured.classification, 'Real');
+});
+
+test('buildProvenanceReport is Inconclusive without a visual check or below the threshold', () => {
+    const unchecked = buildProvenanceReport(empty, null);
+    assert.equal(unchecked.classification, 'Inconclusive');
+    assert.equal(unchecked.summary, 'No visual check has been run yet. The image carries no provenance metadata.');
+
+    assert.equal(buildProvenanceReport(empty, assessment(70, 30)).classification, 'Inconclusive');
+    assert.equal(buildProvenanceReport(empty, assessment(70, 30), 60).classification, 'Fake');
+});
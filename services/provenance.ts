@@ -0,0 +1,143 @@
+import { Classification, ImageAuthenticityAssessment } from '../types';
+import { ImageMetadata } from './imageMetadata';
+
+// Turns the embedded metadata of an image into provenance signals and combines them with the
+// model's visual assessment into a single Real/Fake verdict, where "Fake" means AI-generated
+// or manipulated.
+
+export type ProvenanceSignalKind = 'aiGenerated' | 'edited' | 'capture' | 'info';
+
+export interface ProvenanceSignal {
+    kind: ProvenanceSignalKind;
+    source: 'C2PA' | 'EXIF' | 'XMP' | 'PNG text';
+    detail: string;
+}
+
+export interface ProvenanceReport {
+    classification: Classification;
+    confidence: number;
+    // 0-100 likelihood that the image is AI-generated or manipulated.
+    score: number;
+    signals: ProvenanceSignal[];
+    summary: string;
+}
+
+// IPTC digital source types (https://cv.iptc.org/newscodes/digitalsourcetype/).
+const AI_SOURCE_TYPES = ['trainedAlgorithmicMedia', 'compositeWithTrainedAlgorithmicMedia', 'algorithmicMedia', 'compositeSynthetic'];
+const CAPTURE_SOURCE_TYPES = ['digitalCapture', 'negativeFilm', 'positiveFilm', 'print'];
+
+const AI_SOFTWARE = /midjourney|dall[-·\s]?e|stable[-\s]?diffusion|firefly|imagen|gemini|openai|chatgpt|leonardo|ideogram|\bflux\b|novelai|automatic1111|comfyui|invokeai|runway|\bsora\b/i;
+const EDITING_SOFTWARE = /photoshop|lightroom|gimp|affinity|pixelmator|snapseed|facetune|canva|picsart|photopea|luminar/i;
+
+// Stable Diffusion front ends write their prompt and settings into these PNG text chunks.
+const GENERATOR_TEXT_CHUNKS = ['parameters', 'prompt', 'workflow', 'Dream', 'sd-metadata', 'invokeai_metadata'];
+
+// C2PA actions that only describe where the file came from or how it was encoded.
+const NEUTRAL_ACTIONS = ['c2pa.created', 'c2pa.opened', 'c2pa.placed', 'c2pa.published', 'c2pa.repackaged', 'c2pa.transcoded', 'c2pa.converted', 'c2pa.resized'];
+
+const sourceTypeName = (uri: string): string => uri.split('/').pop() ?? uri;
+
+const checkSoftware = (signals: ProvenanceSignal[], source: ProvenanceSignal['source'], label: string, name: string | undefined) => {
+    if (!name) return;
+    if (AI_SOFTWARE.test(name)) signals.push({ kind: 'aiGenerated', source, detail: `${label} is an AI image generator: ${name}` });
+    else if (EDITING_SOFTWARE.test(name)) signals.push({ kind: 'edited', source, detail: `${label} is an image editor: ${name}` });
+    else signals.push({ kind: 'info', source, detail: `${label}: ${name}` });
+};
+
+export const provenanceSignals = (metadata: ImageMetadata): ProvenanceSignal[] => {
+    const signals: ProvenanceSignal[] = [];
+
+    const active = metadata.c2paManifests[metadata.c2paManifests.length - 1];
+    if (active) {
+        signals.push({
+            kind: 'info',
+            source: 'C2PA',
+            detail: `Content credentials from ${active.claimGenerator ?? 'an unknown tool'}${active.hasSignature ? ' (signature not verified)' : ', without a signature'}`,
+        });
+        for (const action of metadata.c2paManifests.flatMap(manifest => manifest.actions)) {
+            const sourceType = action.digitalSourceType && sourceTypeName(action.digitalSourceType);
+            const agent = action.softwareAgent ? ` by ${action.softwareAgent}` : '';
+            if (sourceType && AI_SOURCE_TYPES.includes(sourceType)) {
+                signals.push({ kind: 'aiGenerated', source: 'C2PA', detail: `${action.action}${agent} declares the source as ${sourceType}` });
+            } else if (sourceType && CAPTURE_SOURCE_TYPES.includes(sourceType)) {
+                signals.push({ kind: 'capture', source: 'C2PA', detail: `${action.action}${agent} declares the source as ${sourceType}` });
+            } else if (!NEUTRAL_ACTIONS.includes(action.action)) {
+                signals.push({ kind: 'edited', source: 'C2PA', detail: `Recorded edit: ${action.action}${agent}` });
+            }
+        }
+    }
+
+    const sourceType = metadata.xmp?.properties['Iptc4xmpExt:DigitalSourceType'];
+    if (sourceType && AI_SOURCE_TYPES.includes(sourceTypeName(sourceType))) {
+        signals.push({ kind: 'aiGenerated', source: 'XMP', detail: `Digital source type is ${sourceTypeName(sourceType)}` });
+    } else if (sourceType && CAPTURE_SOURCE_TYPES.includes(sourceTypeName(sourceType))) {
+        signals.push({ kind: 'capture', source: 'XMP', detail: `Digital source type is ${sourceTypeName(sourceType)}` });
+    }
+    checkSoftware(signals, 'XMP', 'Creator tool', metadata.xmp?.properties['xmp:CreatorTool']);
+    const editors = new Set((metadata.xmp?.history ?? [])
+        .filter(event => event.action !== 'created' && event.softwareAgent)
+        .map(event => event.softwareAgent));
+    for (const editor of editors) {
+        signals.push({ kind: 'edited', source: 'XMP', detail: `Edit history records changes saved with ${editor}` });
+    }
+
+    const exif = metadata.exif ?? {};
+    checkSoftware(signals, 'EXIF', 'Software', exif.Software);
+    if (exif.Make && exif.Model && exif.DateTimeOriginal) {
+        signals.push({ kind: 'capture', source: 'EXIF', detail: `Camera data from a ${exif.Make} ${exif.Model}, taken ${exif.DateTimeOriginal}` });
+    }
+    if (exif.DateTimeOriginal && exif.DateTime && exif.DateTime !== exif.DateTimeOriginal) {
+        signals.push({ kind: 'info', source: 'EXIF', detail: `Modified ${exif.DateTime}, after it was taken` });
+    }
+
+    for (const keyword of GENERATOR_TEXT_CHUNKS) {
+        if (metadata.textChunks[keyword]) {
+            signals.push({ kind: 'aiGenerated', source: 'PNG text', detail: `Generator settings stored in the "${keyword}" text chunk` });
+        }
+    }
+    checkSoftware(signals, 'PNG text', 'Software', metadata.textChunks.Software);
+
+    return signals;
+};
+
+// Metadata is easy to strip and, without signature checks, easy to forge, so it only moves the
+// visual score: a declared AI source is decisive, edits and camera data nudge it. Without a
+// model assessment the score starts undecided, which reports Inconclusive unless the metadata
+// declares an AI source.
+export const buildProvenanceReport = (
+    metadata: ImageMetadata,
+    assessment: ImageAuthenticityAssessment | null,
+    confidenceThreshold = 75
+): ProvenanceReport => {
+    const signals = provenanceSignals(metadata);
+    const has = (kind: ProvenanceSignalKind) => signals.some(signal => signal.kind === kind);
+
+    let score = assessment ? Math.max(assessment.aiGeneratedLikelihood, assessment.manipulationLikelihood) : 50;
+    if (has('aiGenerated')) {
+        score = Math.max(score, 95);
+    } else if (has('edited')) {
+        score = Math.min(100, score + 15);
+    } else if (has('capture')) {
+        score = Math.max(0, score - 10);
+    }
+    score = Math.round(score);
+
+    const fake = score >= 50;
+    const confidence = fake ? score : 100 - score;
+    const classification: Classification = confidence < confidenceThreshold ? 'Inconclusive' : fake ? 'Fake' : 'Real';
+
+    const findings = [
+        has('aiGenerated') && 'declares an AI generator',
+        has('edited') && 'records edits',
+        has('capture') && 'describes a camera capture',
+    ].filter(Boolean);
+    const visual = assessment
+        ? `The visual check puts the likelihood of AI generation at ${assessment.aiGeneratedLikelihood}% and of manipulation at ${assessment.manipulationLikelihood}%.`
+        : 'No visual check has been run yet.';
+    const embedded = findings.length > 0
+        ? `The metadata ${findings.slice(0, -1).join(', ')}${findings.length > 1 ? ' and ' : ''}${findings[findings.length - 1]}.`
+        : signals.length > 0 ? 'The metadata says nothing about how the image was made.' : 'The image carries no provenance metadata.';
+    const summary = `${visual} ${embedded}`;
+
+    return { classification, confidence, score, signals, summary };
+};
@@ -0,0 +1,426 @@
+import { GoogleGenAI, GenerateVideosOperation, Modality, Content, GenerateContentResponse, Part, Segment } from '@google/genai';
+import { GroundingCitation, GroundingSource } from '../../types';
+import { GroundedRequest, InlineFile, ModelProvider, ModelTier, ProviderMessage, StreamEvent, TextRequest, VideoModel } from './types';
+import { AuthError, SafetyError } from '../errors';
+
+const MODELS: Record<ModelTier, string> = {
+    fast: 'gemini-2.5-flash',
+    pro: 'gemini-2.5-pro',
+};
+
+// Veo 3 models make one video per request, and only Veo 3.1 takes a last frame or extends videos.
+const VIDEO_MODELS: VideoModel[] = [
+    {
+        id: 'veo-3.1-fast-generate-preview',
+        label: 'Veo 3.1 Fast',
+        resolutions: ['720p', '1080p'],
+        durations: [4, 6, 8],
+        maxVideos: 1,
+        supportsLastFrame: true,
+        supportsExtension: true,
+    },
+    {
+        id: 'veo-3.1-generate-preview',
+        label: 'Veo 3.1',
+        resolutions: ['720p', '1080p'],
+        durations: [4, 6, 8],
+        maxVideos: 1,
+        supportsLastFrame: true,
+        supportsExtension: true,
+    },
+    {
+        id: 'veo-3.0-fast-generate-001',
+        label: 'Veo 3 Fast',
+        resolutions: ['720p', '1080p'],
+        durations: [4, 6, 8],
+        maxVideos: 1,
+        supportsLastFrame: false,
+        supportsExtension: false,
+    },
+    {
+        id: 'veo-3.0-generate-001',
+        label: 'Veo 3',
+        resolutions: ['720p', '1080p'],
+        durations: [4, 6, 8],
+        maxVideos: 1,
+        supportsLastFrame: false,
+        supportsExtension: false,
+    },
+    {
+        id: 'veo-2.0-generate-001',
+        label: 'Veo 2',
+        resolutions: ['720p'],
+        durations: [5, 6, 7, 8],
+        maxVideos: 2,
+        supportsLastFrame: false,
+        supportsExtension: false,
+    },
+];
+
+const toVideoImage = ({ mimeType, data }: InlineFile) => ({ imageBytes: data, mimeType });
+
+const THINKING_BUDGET = 32768;
+
+// Gemini pairs function responses with calls by name and order, so the ids stay on our side.
+const toParts = (msg: ProviderMessage): Part[] => [
+    ...(msg.attachments ?? []).map(({ mimeType, data }) => ({ inlineData: { mimeType, data } })),
+    ...(msg.text ? [{ text: msg.text }] : []),
+    ...(msg.toolCalls ?? []).map(call => ({ functionCall: { name: call.name, args: call.args } })),
+    ...(msg.toolResults ?? []).map(result => ({ functionResponse: { name: result.name, response: result.response } })),
+];
+
+const toContents = (contents: string | ProviderMessage[]): string | Content[] =>
+    typeof contents === 'string'
+        ? contents
+        : contents.map(msg => ({ role: msg.role, parts: toParts(msg) }));
+
+const baseConfig = (request: TextRequest, includeThoughts = false): Record<string, any> => ({
+    ...(request.systemInstruction && { systemInstruction: request.systemInstruction }),
+    ...(request.thinking && { thinkingConfig: { thinkingBudget: THINKING_BUDGET, ...(includeThoughts && { includeThoughts }) } }),
+    ...(request.signal && { abortSignal: request.signal }),
+    ...(request.tools && request.tools.length > 0 && { tools: [{ functionDeclarations: request.tools }] }),
+});
+
+const groundingConfig = (request: GroundedRequest, includeThoughts = false): Record<string, any> => {
+    const tools: any[] = [];
+    if (request.useSearch) tools.push({ googleSearch: {} });
+    if (request.useMaps) tools.push({ googleMaps: {} });
+
+    const config: any = { ...baseConfig(request, includeThoughts), tools };
+    if (request.useMaps && request.location) {
+        config.toolConfig = {
+            retrievalConfig: {
+                latLng: {
+                    latitude: request.location.latitude,
+                    longitude: request.location.longitude,
+                }
+            }
+        };
+    }
+    return config;
+};
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY'];
+
+// Blocked responses do not throw; they come back without text, so check why before reading it.
+const checkBlocked = (response: GenerateContentResponse): void => {
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+        throw new SafetyError(`The prompt was blocked by the safety filters (${blockReason}).`);
+    }
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+        throw new SafetyError(`The response was blocked by the safety filters (${finishReason}).`);
+    }
+};
+
+const textOf = (response: GenerateContentResponse): string => {
+    checkBlocked(response);
+    return response.text ?? '';
+};
+
+// Splits a streamed chunk into thought summaries, answer text and tool calls, checking for
+// safety blocks first.
+function* streamEventsOf(chunk: GenerateContentResponse): Iterable<StreamEvent> {
+    checkBlocked(chunk);
+    for (const part of chunk.candidates?.[0]?.content?.parts ?? []) {
+        if (part.functionCall?.name) {
+            yield {
+                type: 'toolCall',
+                call: { id: part.functionCall.id ?? crypto.randomUUID(), name: part.functionCall.name, args: part.functionCall.args ?? {} },
+            };
+        } else if (part.text) {
+            yield part.thought ? { type: 'thought', text: part.text } : { type: 'text', text: part.text };
+        }
+    }
+}
+
+// Segment offsets are UTF-8 byte offsets within a single part, so they drift once thought parts
+// or streamed chunks are involved. Look for the segment text itself first and fall back to the
+// offsets, converted to characters, only when it cannot be found.
+const locateSegment = (answer: string, segment: Segment, from: number): { start: number; end: number } | null => {
+    if (segment.text) {
+        const start = answer.indexOf(segment.text, from);
+        const index = start === -1 ? answer.indexOf(segment.text) : start;
+        if (index !== -1) return { start: index, end: index + segment.text.length };
+    }
+    if (segment.endIndex === undefined) return null;
+    const bytes = new TextEncoder().encode(answer);
+    const toChars = (byteOffset: number) => new TextDecoder().decode(bytes.slice(0, byteOffset)).length;
+    return { start: toChars(segment.startIndex ?? 0), end: toChars(segment.endIndex) };
+};
+
+const extractGrounding = (response: GenerateContentResponse, answer: string): { sources: GroundingSource[]; citations: GroundingCitation[] } => {
+    const sources: GroundingSource[] = [];
+    const citations: GroundingCitation[] = [];
+    const metadata = response.candidates?.[0]?.groundingMetadata;
+    // Chunks without a link are skipped, so supports are remapped from chunk to source indices.
+    const sourceIndexOfChunk = new Map<number, number>();
+
+    (metadata?.groundingChunks ?? []).forEach((chunk, chunkIndex) => {
+        if ('web' in chunk && chunk.web?.uri) {
+            sourceIndexOfChunk.set(chunkIndex, sources.length);
+            sources.push({
+                uri: chunk.web.uri,
+                title: chunk.web.title || 'Web Search Result',
+                type: 'web',
+            });
+        } else if ('maps' in chunk && chunk.maps?.uri) {
+            sourceIndexOfChunk.set(chunkIndex, sources.length);
+            sources.push({
+                uri: chunk.maps.uri,
+                title: chunk.maps.title || 'Map Result',
+                type: 'maps',
+            });
+        }
+    });
+
+    let searchFrom = 0;
+    for (const support of metadata?.groundingSupports ?? []) {
+        const sourceIndices = (support.groundingChunkIndices ?? [])
+            .map(chunkIndex => sourceIndexOfChunk.get(chunkIndex))
+            .filter((index): index is number => index !== undefined);
+        const span = support.segment && locateSegment(answer, support.segment, searchFrom);
+        if (!span || sourceIndices.length === 0) continue;
+        citations.push({ ...span, sourceIndices });
+        searchFrom = span.end;
+    }
+    return { sources, citations };
+};
+
+export const createGeminiProvider = (apiKey: string | undefined): ModelProvider => {
+    let aiInstance: GoogleGenAI | null = null;
+
+    // Created on first use so that a missing key only affects the calls that need it.
+    const getAI = (): GoogleGenAI => {
+        if (!apiKey) {
+            throw new AuthError("API_KEY environment variable is not set");
+        }
+        if (!aiInstance) {
+            aiInstance = new GoogleGenAI({ apiKey });
+        }
+        return aiInstance;
+    };
+
+    // Veo uses a dedicated key that the user may select at any time, so it is read from the
+    // environment on every call rather than captured with the provider.
+    const getVideoKey = (): string => {
+        const videoKey = process.env.API_KEY;
+        if (!videoKey) {
+            throw new AuthError("API_KEY environment variable is not set for video generation.");
+        }
+        return videoKey;
+    };
+
+    const getVideoAI = (): GoogleGenAI => new GoogleGenAI({ apiKey: getVideoKey() });
+
+    return {
+        id: 'gemini',
+        label: 'Google Gemini',
+        capabilities: apiKey
+            ? ['text', 'json', 'chat', 'grounding', 'imageGeneration', 'imageEditing', 'video', 'transcription', 'live', 'tools']
+            : [],
+        ...(!apiKey && { unavailableReason: 'The GEMINI_API_KEY environment variable is not set.' }),
+        models: MODELS,
+        videoModels: VIDEO_MODELS,
+
+        generateText: async (request) => {
+            const response = await getAI().models.generateContent({
+                model: MODELS[request.tier],
+                contents: toContents(request.contents),
+                config: baseConfig(request),
+            });
+            return textOf(response);
+        },
+
+        generateJson: async (request) => {
+            const response = await getAI().models.generateContent({
+                model: MODELS[request.tier],
+                contents: toContents(request.contents),
+                config: {
+                    ...baseConfig(request),
+                    responseMimeType: 'application/json',
+                    responseSchema: request.schema,
+                },
+            });
+            return textOf(response).trim();
+        },
+
+        generateGrounded: async (request) => {
+            const response = await getAI().models.generateContent({
+                model: MODELS[request.tier],
+                contents: toContents(request.contents),
+                config: groundingConfig(request),
+            });
+            const text = textOf(response);
+            return { text, ...extractGrounding(response, text) };
+        },
+
+        streamText: async function* (request) {
+            const stream = await getAI().models.generateContentStream({
+                model: MODELS[request.tier],
+                contents: toContents(request.contents),
+                config: baseConfig(request, true),
+            });
+            for await (const chunk of stream) {
+                yield* streamEventsOf(chunk);
+            }
+        },
+
+        streamGrounded: async function* (request) {
+            const stream = await getAI().models.generateContentStream({
+                model: MODELS[request.tier],
+                contents: toContents(request.contents),
+                config: groundingConfig(request, true),
+            });
+            // Grounding metadata arrives with the final chunks and refers to the whole answer, so
+            // keep the latest metadata and resolve it against the full text once the stream ends.
+            let answer = '';
+            let groundedChunk: GenerateContentResponse | null = null;
+            for await (const chunk of stream) {
+                for (const event of streamEventsOf(chunk)) {
+                    if (event.type === 'text') answer += event.text;
+                    yield event;
+                }
+                if (chunk.candidates?.[0]?.groundingMetadata?.groundingChunks?.length) groundedChunk = chunk;
+            }
+            yield { type: 'sources', ...(groundedChunk ? extractGrounding(groundedChunk, answer) : { sources: [], citations: [] }) };
+        },
+
+        generateImage: async ({ prompt, aspectRatio }) => {
+            const response = await getAI().models.generateImages({
+                model: 'imagen-4.0-generate-001',
+                prompt,
+                config: {
+                    numberOfImages: 1,
+                    outputMimeType: 'image/jpeg',
+                    aspectRatio,
+                },
+            });
+
+            const generated = response.generatedImages?.[0];
+            if (generated?.raiFilteredReason) {
+                throw new SafetyError(generated.raiFilteredReason);
+            }
+            const imageBytes = generated?.image?.imageBytes;
+            if (!imageBytes) {
+                throw new Error("No image was generated in the response.");
+            }
+            return `data:image/jpeg;base64,${imageBytes}`;
+        },
+
+        editImage: async ({ prompt, imageBase64, mimeType, maskBase64 }) => {
+            // The image model has no mask parameter, so the mask goes along as a second image.
+            const response = await getAI().models.generateContent({
+                model: 'gemini-2.5-flash-image',
+                contents: {
+                    parts: [
+                        {
+                            inlineData: {
+                                data: imageBase64,
+                                mimeType: mimeType,
+                            },
+                        },
+                        ...(maskBase64 ? [
+                            { inlineData: { data: maskBase64, mimeType: 'image/png' } },
+                            { text: 'The second image is a mask. Apply the following edit only inside its white area and keep everything in the black area exactly as it is. Return an image with the same framing and size as the first image.' },
+                        ] : []),
+                        {
+                            text: prompt,
+                        },
+                    ],
+                },
+                config: {
+                    responseModalities: [Modality.IMAGE],
+                },
+            });
+
+            textOf(response);
+            const parts = response.candidates?.[0]?.content?.parts;
+            if (parts) {
+                for (const part of parts) {
+                    if (part.inlineData) {
+                        return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+                    }
+                }
+            }
+            throw new Error("No image was generated in the response.");
+        },
+
+        startVideo: async ({ model, prompt, negativePrompt, image, lastFrame, extendVideoUri, aspectRatio, resolution, durationSeconds, numberOfVideos }) => {
+            const operation = await getVideoAI().models.generateVideos({
+                model,
+                ...(prompt && { prompt }),
+                ...(image && { image: toVideoImage(image) }),
+                ...(extendVideoUri && { video: { uri: extendVideoUri } }),
+                config: {
+                    numberOfVideos,
+                    resolution,
+                    aspectRatio,
+                    ...(durationSeconds && { durationSeconds }),
+                    ...(negativePrompt && { negativePrompt }),
+                    ...(lastFrame && { lastFrame: toVideoImage(lastFrame) }),
+                }
+            });
+            if (!operation.name) {
+                throw new Error("Video generation did not return an operation to track.");
+            }
+            return operation.name;
+        },
+
+        getVideoStatus: async (operationName) => {
+            const pending = new GenerateVideosOperation();
+            pending.name = operationName;
+            const operation = await getVideoAI().operations.getVideosOperation({ operation: pending });
+            if (!operation.done) {
+                return { state: 'running' };
+            }
+            if (operation.error) {
+                throw new Error(String(operation.error.message ?? "Video generation failed."));
+            }
+            const filteredCount = operation.response?.raiMediaFilteredCount ?? 0;
+            const videoUris = (operation.response?.generatedVideos ?? [])
+                .map(generated => generated.video?.uri)
+                .filter((uri): uri is string => !!uri);
+            if (videoUris.length === 0) {
+                if (filteredCount > 0) {
+                    throw new SafetyError(operation.response?.raiMediaFilteredReasons?.[0]);
+                }
+                throw new Error("Video generation completed, but no download link was found.");
+            }
+            return { state: 'done', videoUris, ...(filteredCount > 0 && { filteredCount }) };
+        },
+
+        downloadVideo: async (videoUri) => {
+            const videoResponse = await fetch(`${videoUri}&key=${getVideoKey()}`);
+            if (!videoResponse.ok) {
+                throw new Error(`Failed to download video: ${videoResponse.statusText}`);
+            }
+            return videoResponse.blob();
+        },
+
+        transcribe: async ({ audioBase64, mimeType, systemInstruction, prompt, signal }) => {
+            const response = await getAI().models.generateContent({
+                model: MODELS.fast,
+                contents: {
+                    parts: [
+                        {
+                            inlineData: {
+                                data: audioBase64,
+                                mimeType,
+                            },
+                        },
+                        {
+                            text: prompt,
+                        },
+                    ],
+                },
+                config: {
+                    systemInstruction,
+                    ...(signal && { abortSignal: signal }),
+                }
+            });
+            return textOf(response);
+        },
+    };
+};
@@ -0,0 +1,85 @@
+import { Capability, ModelProvider, ProviderId } from './types';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import { ConfigurationError } from '../errors';
+
+export * from './types';
+export { createGeminiProvider, createMockProvider, createOpenAICompatibleProvider };
+
+const createUnavailableProvider = (id: ProviderId, label: string, reason: string): ModelProvider => {
+    const fail = async (): Promise<never> => {
+        throw new ConfigurationError(reason);
+    };
+    const failStream = async function* (): AsyncIterable<never> {
+        throw new ConfigurationError(reason);
+    };
+    return {
+        id,
+        label,
+        capabilities: [],
+        unavailableReason: reason,
+        models: { fast: 'none', pro: 'none' },
+        videoModels: [],
+        generateText: fail,
+        generateJson: fail,
+        generateGrounded: fail,
+        streamText: failStream,
+        streamGrounded: failStream,
+        generateImage: fail,
+        editImage: fail,
+        startVideo: fail,
+        getVideoStatus: fail,
+        downloadVideo: fail,
+        transcribe: fail,
+    };
+};
+
+const parseCapabilities = (value: string | undefined): Capability[] =>
+    (value || 'text,json,chat').split(',').map(c => c.trim()).filter(Boolean) as Capability[];
+
+// Chosen with MODEL_PROVIDER (gemini, openai or mock); defaults to Gemini.
+const createConfiguredProvider = (): ModelProvider => {
+    const id = (process.env.MODEL_PROVIDER || 'gemini') as ProviderId;
+    switch (id) {
+        case 'mock':
+            return createMockProvider();
+        case 'openai': {
+            const baseUrl = process.env.OPENAI_BASE_URL;
+            const model = process.env.OPENAI_MODEL;
+            if (!baseUrl || !model) {
+                return createUnavailableProvider(
+                    'openai',
+                    'OpenAI-compatible',
+                    'OPENAI_BASE_URL and OPENAI_MODEL must be set to use the OpenAI-compatible provider.'
+                );
+            }
+            return createOpenAICompatibleProvider({
+                baseUrl,
+                model,
+                apiKey: process.env.OPENAI_API_KEY,
+                imageModel: process.env.OPENAI_IMAGE_MODEL,
+                transcriptionModel: process.env.OPENAI_TRANSCRIPTION_MODEL,
+                capabilities: parseCapabilities(process.env.OPENAI_CAPABILITIES),
+            });
+        }
+        default:
+            return createGeminiProvider(process.env.API_KEY);
+    }
+};
+
+let activeProvider: ModelProvider | null = null;
+
+export const getProvider = (): ModelProvider => {
+    if (!activeProvider) {
+        activeProvider = createConfiguredProvider();
+    }
+    return activeProvider;
+};
+
+export const setProvider = (provider: ModelProvider) => {
+    activeProvider = provider;
+};
+
+export const hasCapability = (capability: Capability, provider: ModelProvider = getProvider()): boolean =>
+    provider.capabilities.includes(capability);
@@ -0,0 +1,147 @@
+import { Schema, Type } from '@google/genai';
+import { ModelProvider, ProviderMessage, StreamEvent, TextRequest, unsupported } from './types';
+
+// A deterministic, offline provider for UI development and demos. Every response is
+// derived from a hash of the request, so the same input always gives the same output.
+
+const hash = (value: string): number => {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        h ^= value.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+};
+
+const lastUserText = (contents: string | ProviderMessage[]): string =>
+    typeof contents === 'string' ? contents : [...contents].reverse().find(msg => msg.role === 'user')?.text ?? '';
+
+const mockValue = (schema: Schema, seed: string): unknown => {
+    switch (schema.type) {
+        case Type.OBJECT:
+            return Object.fromEntries(
+                Object.entries(schema.properties ?? {}).map(([key, child]) => [key, mockValue(child, `${seed}.${key}`)])
+            );
+        case Type.ARRAY:
+            return Array.from({ length: 3 }, (_, i) => mockValue(schema.items ?? { type: Type.STRING }, `${seed}[${i}]`));
+        case Type.NUMBER:
+        case Type.INTEGER: {
+            const min = schema.minimum ?? 0;
+            const max = schema.maximum ?? 100;
+            return min + hash(seed) % (Math.floor(max - min) + 1);
+        }
+        case Type.BOOLEAN:
+            return hash(seed) % 2 === 0;
+        default:
+            if (schema.enum && schema.enum.length > 0) {
+                return schema.enum[hash(seed) % schema.enum.length];
+            }
+            return `Mock ${seed.split('.').pop()} ${hash(seed) % 1000}`;
+    }
+};
+
+const mockReply = (prompt: string): string =>
+    `This is a mock response (no model was called). You said: "${prompt.slice(0, 200)}"`;
+
+const attachmentNote = (contents: string | ProviderMessage[]): string => {
+    const files = typeof contents === 'string' ? [] : [...contents].reverse().find(msg => msg.role === 'user')?.attachments ?? [];
+    return files.length > 0 ? ` You attached: ${files.map(file => file.mimeType).join(', ')}.` : '';
+};
+
+async function* streamWords(text: string, type: 'text' | 'thought', signal?: AbortSignal): AsyncIterable<StreamEvent> {
+    for (const word of text.split(/(?<= )/)) {
+        if (signal?.aborted) return;
+        await new Promise(resolve => setTimeout(resolve, 20));
+        yield { type, text: word };
+    }
+}
+
+const mockSources = (prompt: string, useSearch: boolean, useMaps: boolean) => {
+    const id = hash(prompt) % 1000;
+    return [
+        ...(useSearch ? [{ uri: `https://example.com/search/${id}`, title: `Mock search result ${id}`, type: 'web' as const }] : []),
+        ...(useMaps ? [{ uri: `https://example.com/maps/${id}`, title: `Mock place ${id}`, type: 'maps' as const }] : []),
+    ];
+};
+
+// Cites the first sentence and leaves the second unsupported, so both cases show up in the UI.
+const mockGrounded = (prompt: string, useSearch: boolean, useMaps: boolean) => {
+    const reply = mockReply(prompt);
+    const sources = mockSources(prompt, useSearch, useMaps);
+    return {
+        text: `${reply} No source was consulted for this second sentence.`,
+        sources,
+        citations: sources.length > 0 ? [{ start: 0, end: reply.length, sourceIndices: sources.map((_, i) => i) }] : [],
+    };
+};
+
+// Calls a tool when the prompt names it ("search analysis history" for search_analysis_history),
+// and summarizes the results once they come back.
+async function* mockToolTurn(request: TextRequest): AsyncIterable<StreamEvent> {
+    const last = typeof request.contents === 'string' ? undefined : request.contents[request.contents.length - 1];
+    if (last?.toolResults) {
+        yield* streamWords(`Mock summary of ${last.toolResults.map(result => `${result.name}: ${JSON.stringify(result.response).slice(0, 200)}`).join('; ')}`, 'text', request.signal);
+        return;
+    }
+    const prompt = lastUserText(request.contents).toLowerCase();
+    const tool = request.tools?.find(t => prompt.includes(t.name) || prompt.includes(t.name.replace(/_/g, ' ')));
+    if (tool) {
+        yield { type: 'toolCall', call: { id: `mock-${hash(prompt)}`, name: tool.name, args: mockValue(tool.parameters, prompt) as Record<string, unknown> } };
+        return;
+    }
+    yield* streamWords(mockReply(lastUserText(request.contents)) + attachmentNote(request.contents), 'text', request.signal);
+}
+
+const mockThought = (prompt: string): string =>
+    `Mock reasoning about "${prompt.slice(0, 60)}" before answering. `;
+
+const svgDataUrl = (label: string, aspectRatio: string): string => {
+    const [w, h] = aspectRatio.split(':').map(Number);
+    const width = 512;
+    const height = Math.round(width * ((h || 1) / (w || 1)));
+    const hue = hash(label) % 360;
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><rect width="100%" height="100%" fill="hsl(${hue},60%,40%)"/><text x="50%" y="50%" fill="white" font-family="sans-serif" font-size="20" text-anchor="middle">${label.replace(/[<&>]/g, '').slice(0, 40)}</text></svg>`;
+    return `data:image/svg+xml;base64,${btoa(svg)}`;
+};
+
+export const createMockProvider = (): ModelProvider => ({
+    id: 'mock',
+    label: 'Local mock',
+    capabilities: ['text', 'json', 'chat', 'grounding', 'imageGeneration', 'imageEditing', 'transcription', 'tools'],
+    models: { fast: 'mock-fast', pro: 'mock-pro' },
+    videoModels: [],
+
+    generateText: async (request) => mockReply(lastUserText(request.contents)),
+
+    generateJson: async (request) =>
+        JSON.stringify(mockValue(request.schema, lastUserText(request.contents))),
+
+    generateGrounded: async (request) => {
+        return mockGrounded(lastUserText(request.contents), request.useSearch, request.useMaps);
+    },
+
+    streamText: async function* (request) {
+        const prompt = lastUserText(request.contents);
+        if (request.thinking) yield* streamWords(mockThought(prompt), 'thought', request.signal);
+        yield* mockToolTurn(request);
+    },
+
+    streamGrounded: async function* (request) {
+        const prompt = lastUserText(request.contents);
+        const { text, sources, citations } = mockGrounded(prompt, request.useSearch, request.useMaps);
+        if (request.thinking) yield* streamWords(mockThought(prompt), 'thought', request.signal);
+        yield* streamWords(text, 'text', request.signal);
+        yield { type: 'sources', sources, citations };
+    },
+
+    generateImage: async ({ prompt, aspectRatio }) => svgDataUrl(prompt, aspectRatio),
+
+    editImage: async ({ imageBase64, mimeType }) => `data:${mimeType};base64,${imageBase64}`,
+
+    startVideo: unsupported('Local mock', 'video'),
+    getVideoStatus: unsupported('Local mock', 'video'),
+    downloadVideo: unsupported('Local mock', 'video'),
+
+    transcribe: async ({ audioBase64 }) =>
+        `Mock transcription of ${Math.round(audioBase64.length * 0.75 / 1024)} KB of audio.`,
+});
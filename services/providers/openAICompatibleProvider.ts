@@ -0,0 +1,208 @@
+import { Schema } from '@google/genai';
+import { Capability, InlineFile, ModelProvider, ProviderMessage, StreamEvent, TextRequest, unsupported, unsupportedStream } from './types';
+import { SafetyError, UnsupportedError } from '../errors';
+
+// Talks to any server implementing the OpenAI REST API (vLLM, Ollama, llama.cpp, LocalAI, ...).
+
+export interface OpenAICompatibleConfig {
+    baseUrl: string;
+    apiKey?: string;
+    model: string;
+    imageModel?: string;
+    transcriptionModel?: string;
+    capabilities: Capability[];
+}
+
+// Search grounding, image editing, video and live audio have no OpenAI-compatible equivalent here.
+const SUPPORTED: Capability[] = ['text', 'json', 'chat', 'imageGeneration', 'transcription'];
+
+type ContentPart = { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } };
+
+type ChatCompletionMessage = { role: 'system' | 'user' | 'assistant'; content: string | ContentPart[] };
+
+// Images go in as data URLs and text files as text; the chat completions API has no general
+// file input for PDFs or audio.
+const toContentPart = ({ mimeType, data }: InlineFile): ContentPart => {
+    if (mimeType.startsWith('image/')) {
+        return { type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } };
+    }
+    if (mimeType.startsWith('text/') || mimeType === 'application/json') {
+        return { type: 'text', text: new TextDecoder().decode(Uint8Array.from(atob(data), char => char.charCodeAt(0))) };
+    }
+    throw new UnsupportedError(`${mimeType} attachments are not supported by the OpenAI-compatible provider.`);
+};
+
+const toContent = (msg: ProviderMessage): string | ContentPart[] =>
+    msg.attachments && msg.attachments.length > 0
+        ? [...msg.attachments.map(toContentPart), ...(msg.text ? [{ type: 'text' as const, text: msg.text }] : [])]
+        : msg.text;
+
+const toMessages = (request: Pick<TextRequest, 'systemInstruction' | 'contents'>): ChatCompletionMessage[] => {
+    const conversation: ProviderMessage[] = typeof request.contents === 'string'
+        ? [{ role: 'user', text: request.contents }]
+        : request.contents;
+    return [
+        ...(request.systemInstruction ? [{ role: 'system' as const, content: request.systemInstruction }] : []),
+        ...conversation.map(msg => ({ role: msg.role === 'model' ? 'assistant' as const : 'user' as const, content: toContent(msg) })),
+    ];
+};
+
+// Gemini schemas use upper-case type names; JSON Schema uses lower-case ones. Strict structured
+// outputs need every property listed in `required`, so optional properties are made nullable
+// instead; the schema layer treats null like a missing value.
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+    const required = new Set(schema.required ?? []);
+    return {
+        ...(schema.type && { type: schema.type.toLowerCase() }),
+        ...(schema.description && { description: schema.description }),
+        ...(schema.enum && { enum: schema.enum }),
+        ...(schema.items && { items: toJsonSchema(schema.items) }),
+        ...(schema.properties && {
+            properties: Object.fromEntries(Object.entries(schema.properties).map(([key, child]) => [
+                key,
+                required.has(key) ? toJsonSchema(child) : { anyOf: [toJsonSchema(child), { type: 'null' }] },
+            ])),
+            required: Object.keys(schema.properties),
+            additionalProperties: false,
+        }),
+    };
+};
+
+// Drops the nulls that stand in for omitted optional properties, so callers see them as missing.
+// Text that is not valid JSON is returned unchanged for the caller to report.
+const withoutNulls = (text: string): string => {
+    const strip = (value: unknown): unknown => {
+        if (Array.isArray(value)) return value.map(strip);
+        if (value && typeof value === 'object') {
+            return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== null).map(([k, v]) => [k, strip(v)]));
+        }
+        return value;
+    };
+    try {
+        return JSON.stringify(strip(JSON.parse(text)));
+    } catch {
+        return text;
+    }
+};
+
+const IMAGE_SIZES: Record<string, string> = {
+    '1:1': '1024x1024',
+    '16:9': '1792x1024',
+    '4:3': '1792x1024',
+    '9:16': '1024x1792',
+    '3:4': '1024x1792',
+};
+
+const base64ToBlob = (base64: string, mimeType: string): Blob => {
+    const bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+    return new Blob([bytes], { type: mimeType });
+};
+
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): ModelProvider => {
+    const baseUrl = config.baseUrl.replace(/\/+$/, '');
+    const capabilities = config.capabilities.filter(c => SUPPORTED.includes(c));
+
+    const post = async (path: string, body: BodyInit | object, signal?: AbortSignal): Promise<Response> => {
+        const isForm = body instanceof FormData;
+        const response = await fetch(`${baseUrl}${path}`, {
+            method: 'POST',
+            signal,
+            headers: {
+                ...(!isForm && { 'Content-Type': 'application/json' }),
+                ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+            },
+            body: isForm ? body : JSON.stringify(body),
+        });
+        if (!response.ok) {
+            throw new Error(`${baseUrl}${path} returned ${response.status} ${response.statusText}: ${await response.text()}`);
+        }
+        return response;
+    };
+
+    const complete = async (messages: ChatCompletionMessage[], extra: object = {}, signal?: AbortSignal): Promise<string> => {
+        const response = await post('/chat/completions', { model: config.model, messages, ...extra }, signal);
+        const data = await response.json();
+        if (data.choices?.[0]?.finish_reason === 'content_filter') {
+            throw new SafetyError();
+        }
+        return data.choices?.[0]?.message?.content ?? '';
+    };
+
+    // Reasoning models served by vLLM, Ollama and others stream their thinking as `reasoning_content`.
+    async function* stream(messages: ChatCompletionMessage[], signal?: AbortSignal): AsyncIterable<StreamEvent> {
+        const response = await post('/chat/completions', { model: config.model, messages, stream: true }, signal);
+        const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+        let buffer = '';
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += value;
+            const lines = buffer.split('\n');
+            buffer = lines.pop() ?? '';
+            for (const line of lines) {
+                const data = line.replace(/^data:\s*/, '').trim();
+                if (!line.startsWith('data:') || !data) continue;
+                if (data === '[DONE]') return;
+                const choice = JSON.parse(data).choices?.[0];
+                if (choice?.finish_reason === 'content_filter') throw new SafetyError();
+                const reasoning = choice?.delta?.reasoning_content ?? choice?.delta?.reasoning;
+                if (reasoning) yield { type: 'thought', text: reasoning };
+                if (choice?.delta?.content) yield { type: 'text', text: choice.delta.content };
+            }
+        }
+    }
+
+    return {
+        id: 'openai',
+        label: `OpenAI-compatible (${config.model})`,
+        capabilities,
+        models: { fast: config.model, pro: config.model },
+        videoModels: [],
+
+        generateText: (request) => complete(toMessages(request), {}, request.signal),
+
+        generateJson: async (request) => withoutNulls(await complete(toMessages(request), {
+            response_format: {
+                type: 'json_schema',
+                json_schema: { name: 'response', schema: toJsonSchema(request.schema), strict: true },
+            },
+        }, request.signal)),
+
+        generateGrounded: unsupported('OpenAI-compatible', 'grounding'),
+
+        streamText: (request) => stream(toMessages(request), request.signal),
+
+        streamGrounded: unsupportedStream('OpenAI-compatible', 'grounding'),
+
+        generateImage: async ({ prompt, aspectRatio }) => {
+            const response = await post('/images/generations', {
+                model: config.imageModel ?? config.model,
+                prompt,
+                n: 1,
+                size: IMAGE_SIZES[aspectRatio] ?? '1024x1024',
+                response_format: 'b64_json',
+            });
+            const data = await response.json();
+            const imageBytes = data.data?.[0]?.b64_json;
+            if (!imageBytes) {
+                throw new Error("No image was generated in the response.");
+            }
+            return `data:image/png;base64,${imageBytes}`;
+        },
+
+        editImage: unsupported('OpenAI-compatible', 'imageEditing'),
+
+        startVideo: unsupported('OpenAI-compatible', 'video'),
+        getVideoStatus: unsupported('OpenAI-compatible', 'video'),
+        downloadVideo: unsupported('OpenAI-compatible', 'video'),
+
+        transcribe: async ({ audioBase64, mimeType, signal }) => {
+            const form = new FormData();
+            form.append('file', base64ToBlob(audioBase64, mimeType), `audio.${mimeType.split('/')[1]?.split(';')[0] || 'webm'}`);
+            form.append('model', config.transcriptionModel ?? 'whisper-1');
+            const response = await post('/audio/transcriptions', form, signal);
+            const data = await response.json();
+            return data.text ?? '';
+        },
+    };
+};
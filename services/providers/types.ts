@@ -0,0 +1,196 @@
+import { Schema } from '@google/genai';
+import { GroundingCitation, GroundingSource } from '../../types';
+import { UnsupportedError } from '../errors';
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export type Capability =
+    | 'text'
+    | 'json'
+    | 'chat'
+    | 'grounding'
+    | 'imageGeneration'
+    | 'imageEditing'
+    | 'video'
+    | 'transcription'
+    | 'live'
+    | 'tools';
+
+// Providers map these to concrete model names; 'pro' is used for thinking mode and analysis.
+export type ModelTier = 'fast' | 'pro';
+
+// A function the model may call, described by a JSON schema for its arguments.
+export interface ToolDeclaration {
+    name: string;
+    description: string;
+    parameters: Schema;
+}
+
+export interface ToolCall {
+    id: string;
+    name: string;
+    args: Record<string, unknown>;
+}
+
+export interface ToolResult {
+    id: string;
+    name: string;
+    response: Record<string, unknown>;
+}
+
+// A file sent inline with a message, base64-encoded.
+export interface InlineFile {
+    mimeType: string;
+    data: string;
+}
+
+// Model turns carry the tool calls they made and the following user turn carries their results.
+export interface ProviderMessage {
+    role: 'user' | 'model';
+    text: string;
+    attachments?: InlineFile[];
+    toolCalls?: ToolCall[];
+    toolResults?: ToolResult[];
+}
+
+export interface TextRequest {
+    tier: ModelTier;
+    systemInstruction?: string;
+    // A single user prompt, or a full conversation ending with a user message.
+    contents: string | ProviderMessage[];
+    thinking?: boolean;
+    signal?: AbortSignal;
+    // Offered to the model by streamText on providers with the 'tools' capability.
+    tools?: ToolDeclaration[];
+}
+
+export interface JsonRequest extends TextRequest {
+    schema: Schema;
+}
+
+export interface GroundedRequest extends TextRequest {
+    useSearch: boolean;
+    useMaps: boolean;
+    location?: { latitude: number; longitude: number };
+}
+
+export interface GroundedResponse {
+    text: string;
+    sources: GroundingSource[];
+    // Which passages of `text` each source supports, when the provider reports it.
+    citations?: GroundingCitation[];
+}
+
+// Streaming responses yield answer text and, in thinking mode, thought summaries as they are
+// generated. Grounded streams end with a single 'sources' event, whose citations refer to the
+// concatenated answer text. When tools are offered, the model may instead request tool calls;
+// the caller runs them and continues the conversation with their results.
+export type StreamEvent =
+    | { type: 'text'; text: string }
+    | { type: 'thought'; text: string }
+    | { type: 'toolCall'; call: ToolCall }
+    | { type: 'sources'; sources: GroundingSource[]; citations?: GroundingCitation[] };
+
+export interface ImageRequest {
+    prompt: string;
+    aspectRatio: string;
+}
+
+export interface ImageEditRequest {
+    prompt: string;
+    imageBase64: string;
+    mimeType: string;
+    // PNG of the same size as the image, white where the edit may change it and black elsewhere.
+    maskBase64?: string;
+}
+
+export type VideoResolution = '720p' | '1080p';
+
+export interface VideoRequest {
+    model: string;
+    prompt: string;
+    negativePrompt?: string;
+    // The first frame; without it the video is generated from the prompt alone.
+    image?: InlineFile;
+    // The last frame, for a video that moves from `image` to it.
+    lastFrame?: InlineFile;
+    // A previously generated video to continue, by the URI it was downloaded from.
+    extendVideoUri?: string;
+    aspectRatio: '16:9' | '9:16';
+    resolution: VideoResolution;
+    // One of the model's `durations`; the model's default when omitted.
+    durationSeconds?: number;
+    numberOfVideos: number;
+}
+
+export interface VideoModel {
+    id: string;
+    label: string;
+    resolutions: VideoResolution[];
+    durations: number[];
+    // The most videos a single request may ask for.
+    maxVideos: number;
+    supportsLastFrame: boolean;
+    supportsExtension: boolean;
+}
+
+export type VideoOperationStatus =
+    | { state: 'running' }
+    // Videos removed by the safety filters are left out of videoUris and counted in filteredCount.
+    | { state: 'done'; videoUris: string[]; filteredCount?: number };
+
+export interface TranscriptionRequest {
+    audioBase64: string;
+    mimeType: string;
+    systemInstruction: string;
+    prompt: string;
+    signal?: AbortSignal;
+}
+
+export interface ModelProvider {
+    id: ProviderId;
+    label: string;
+    capabilities: readonly Capability[];
+    // Set when the provider is selected but cannot be used at all, e.g. a missing API key.
+    unavailableReason?: string;
+    models: Record<ModelTier, string>;
+    // Offered for video generation, default first; empty without the 'video' capability.
+    videoModels: VideoModel[];
+
+    generateText: (request: TextRequest) => Promise<string>;
+    // Resolves to the raw JSON text of the response.
+    generateJson: (request: JsonRequest) => Promise<string>;
+    generateGrounded: (request: GroundedRequest) => Promise<GroundedResponse>;
+    streamText: (request: TextRequest) => AsyncIterable<StreamEvent>;
+    streamGrounded: (request: GroundedRequest) => AsyncIterable<StreamEvent>;
+    // Resolve to data URLs.
+    generateImage: (request: ImageRequest) => Promise<string>;
+    editImage: (request: ImageEditRequest) => Promise<string>;
+    // Video generation is a long-running operation. `startVideo` resolves to its name, which is
+    // all that is needed to poll it again, e.g. after the page is reloaded.
+    startVideo: (request: VideoRequest) => Promise<string>;
+    getVideoStatus: (operationName: string) => Promise<VideoOperationStatus>;
+    downloadVideo: (videoUri: string) => Promise<Blob>;
+    transcribe: (request: TranscriptionRequest) => Promise<string>;
+}
+
+export const CAPABILITY_LABELS: Record<Capability, string> = {
+    text: 'Text generation',
+    json: 'Structured analysis',
+    chat: 'Chat',
+    grounding: 'Google Search and Maps grounding',
+    imageGeneration: 'Image generation',
+    imageEditing: 'Image editing',
+    video: 'Video generation',
+    transcription: 'Audio transcription',
+    live: 'Live conversation',
+    tools: 'Tool calling',
+};
+
+export const unsupported = (provider: string, capability: Capability) => async (): Promise<never> => {
+    throw new UnsupportedError(`${CAPABILITY_LABELS[capability]} is not supported by the ${provider} provider.`);
+};
+
+export const unsupportedStream = (provider: string, capability: Capability) => async function* (): AsyncIterable<never> {
+    throw new UnsupportedError(`${CAPABILITY_LABELS[capability]} is not supported by the ${provider} provider.`);
+};
@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { withRetry } from './retry';
+import { CancelledError, QuotaError } from './errors';
+
+const fast = { baseDelayMs: 1, maxDelayMs: 1 };
+
+test('withRetry retries retryable errors and then rethrows the last one unchanged', async () => {
+    let calls = 0;
+    const error = new QuotaError();
+    await assert.rejects(withRetry(async () => { calls++; throw error; }, { ...fast, retries: 2 }), e => e === error);
+    assert.equal(calls, 3);
+});
+
+test('withRetry does not retry errors that are not retryable', async () => {
+    let calls = 0;
+    await assert.rejects(withRetry(async () => { calls++; throw new Error('Bad request'); }, fast));
+    assert.equal(calls, 1);
+});
+
+test('withRetry returns the first success', async () => {
+    let calls = 0;
+    const result = await withRetry(async () => {
+        if (++calls < 2) throw Object.assign(new Error('Service unavailable'), { status: 503 });
+        return 'ok';
+    }, fast);
+    assert.equal(result, 'ok');
+    assert.equal(calls, 2);
+});
+
+test('nested withRetry calls do not multiply the attempts', async () => {
+    let calls = 0;
+    const inner = () => withRetry(async () => { calls++; throw new QuotaError(); }, { ...fast, retries: 2 });
+    await assert.rejects(withRetry(inner, { ...fast, retries: 2 }));
+    assert.equal(calls, 3);
+});
+
+test('withRetry stops when the signal is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await assert.rejects(withRetry(async () => 'never', { signal: controller.signal }), CancelledError);
+});
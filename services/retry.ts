@@ -0,0 +1,65 @@
+import { AppError, CancelledError, toAppError } from './errors';
+
+export interface RetryOptions {
+    // Retries after the first attempt, so `retries: 2` makes at most three calls.
+    retries?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    signal?: AbortSignal;
+    onRetry?: (error: AppError, attempt: number, delayMs: number) => void;
+}
+
+// Exponential backoff with full jitter: a random delay up to base * 2^(attempt - 1), capped.
+export const backoffDelay = (attempt: number, baseDelayMs = 1000, maxDelayMs = 30000): number =>
+    Math.round(Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1)));
+
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new CancelledError());
+            return;
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new CancelledError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+// Errors a withRetry call has already retried as often as it was allowed to. An outer withRetry,
+// such as the batch runner's around a whole analysis, rethrows them at once instead of making
+// the inner calls again.
+const exhausted = new WeakSet<object>();
+
+// Runs `operation`, retrying failures that classify as retryable. Rejects with the error of
+// the last attempt, unchanged, so callers can classify it with their own fallback message.
+export const withRetry = async <T>(
+    operation: () => Promise<T>,
+    { retries = 2, baseDelayMs = 1000, maxDelayMs = 30000, signal, onRetry }: RetryOptions = {}
+): Promise<T> => {
+    for (let attempt = 1; ; attempt++) {
+        if (signal?.aborted) {
+            throw new CancelledError();
+        }
+        try {
+            return await operation();
+        } catch (error) {
+            const appError = toAppError(error);
+            const isObject = typeof error === 'object' && error !== null;
+            if (!appError.retryable || signal?.aborted || (isObject && exhausted.has(error))) {
+                throw error;
+            }
+            if (attempt > retries) {
+                if (isObject) exhausted.add(error);
+                throw error;
+            }
+            const delayMs = backoffDelay(attempt, baseDelayMs, maxDelayMs);
+            onRetry?.(appError, attempt, delayMs);
+            await sleep(delayMs, signal);
+        }
+    }
+};
@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Type } from '@google/genai';
+import { array, boolean, number, object, optional, parseAndValidate, string, toGeminiSchema, validate } from './schema';
+
+const claimSchema = object({
+    verdict: string({ enum: ['true', 'false'] as const, description: 'The verdict.' }),
+    confidence: number({ minimum: 0, maximum: 100 }),
+    sources: array(number({ integer: true }), { maxItems: 2 }),
+    checked: boolean(),
+    note: optional(string()),
+});
+
+test('toGeminiSchema lists required properties in order and leaves optional ones out of required', () => {
+    const schema = toGeminiSchema(claimSchema);
+    assert.equal(schema.type, Type.OBJECT);
+    assert.deepEqual(schema.required, ['verdict', 'confidence', 'sources', 'checked']);
+    assert.deepEqual(schema.propertyOrdering, ['verdict', 'confidence', 'sources', 'checked', 'note']);
+    assert.deepEqual(schema.properties?.verdict, { type: Type.STRING, enum: ['true', 'false'], description: 'The verdict.' });
+    assert.deepEqual(schema.properties?.confidence, { type: Type.NUMBER, minimum: 0, maximum: 100 });
+    assert.deepEqual(schema.properties?.sources, { type: Type.ARRAY, items: { type: Type.INTEGER }, maxItems: '2' });
+});
+
+test('validate accepts a matching value and treats null as a missing optional property', () => {
+    const value = { verdict: 'true', confidence: 80, sources: [0, 1], checked: true, note: null };
+    assert.deepEqual(validate(claimSchema, value), { ok: true, value });
+});
+
+test('validate reports every problem with its path', () => {
+    const result = validate(claimSchema, { verdict: 'maybe', confidence: 120, sources: [0.5, 1, 2], note: 3 });
+    assert.equal(result.ok, false);
+    assert.deepEqual(result.issues, [
+        '$.verdict must be one of "true", "false" but was "maybe"',
+        '$.confidence must be at most 100 but was 120',
+        '$.sources[0] must be an integer',
+        '$.sources must have at most 2 items',
+        '$.checked is missing',
+        '$.note must be a string',
+    ]);
+});
+
+test('validate rejects values of the wrong shape', () => {
+    assert.deepEqual(validate(claimSchema, []).issues, ['$ must be an object']);
+    assert.deepEqual(validate(array(string()), 'a').issues, ['$ must be an array']);
+    assert.deepEqual(validate(number(), Number.NaN).issues, ['$ must be a number']);
+});
+
+test('parseAndValidate reports invalid JSON as an issue instead of throwing', () => {
+    const result = parseAndValidate(claimSchema, '{"verdict": "true",');
+    assert.equal(result.ok, false);
+    assert.match(result.issues[0], /^\$ is not valid JSON/);
+    assert.deepEqual(parseAndValidate(array(string()), '["a"]'), { ok: true, value: ['a'] });
+});
@@ -0,0 +1,139 @@
+import { Schema, Type } from '@google/genai';
+
+// A small schema layer for structured model output. One definition gives the `responseSchema`
+// sent to the model (toGeminiSchema), the TypeScript type of the parsed value (Infer) and a
+// runtime check of what actually came back (validate).
+//
+//   const personSchema = object({ name: string(), age: number({ minimum: 0 }) });
+//   type Person = Infer<typeof personSchema>;   // { name: string; age: number }
+
+export interface SchemaNode<T, Optional extends boolean = false> {
+    readonly isOptional: Optional;
+    readonly description?: string;
+    toGemini: () => Schema;
+    // Returns one message per problem, each prefixed with the path to the offending value.
+    check: (value: unknown, path: string) => string[];
+    // Phantom field that carries the inferred type; never set at runtime.
+    readonly __type?: T;
+}
+
+export type Infer<S> = S extends SchemaNode<infer T, boolean> ? T : never;
+
+type Shape = Record<string, SchemaNode<unknown, boolean>>;
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends SchemaNode<unknown, true> ? K : never }[keyof S];
+type Flatten<T> = { [K in keyof T]: T[K] };
+export type InferShape<S extends Shape> = Flatten<
+    { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } &
+    { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+interface Described {
+    description?: string;
+}
+
+const describe = (description: string | undefined) => (description ? { description } : {});
+
+export const string = <const E extends string = string>(options: Described & { enum?: readonly E[] } = {}): SchemaNode<E> => ({
+    isOptional: false,
+    description: options.description,
+    toGemini: () => ({
+        type: Type.STRING,
+        ...(options.enum && { enum: [...options.enum] }),
+        ...describe(options.description),
+    }),
+    check: (value, path) => {
+        if (typeof value !== 'string') return [`${path} must be a string`];
+        if (options.enum && !options.enum.includes(value as E)) {
+            return [`${path} must be one of ${options.enum.map(e => `"${e}"`).join(', ')} but was "${value}"`];
+        }
+        return [];
+    },
+});
+
+export const number = (options: Described & { minimum?: number; maximum?: number; integer?: boolean } = {}): SchemaNode<number> => ({
+    isOptional: false,
+    description: options.description,
+    toGemini: () => ({
+        type: options.integer ? Type.INTEGER : Type.NUMBER,
+        ...(options.minimum !== undefined && { minimum: options.minimum }),
+        ...(options.maximum !== undefined && { maximum: options.maximum }),
+        ...describe(options.description),
+    }),
+    check: (value, path) => {
+        if (typeof value !== 'number' || Number.isNaN(value)) return [`${path} must be a number`];
+        if (options.integer && !Number.isInteger(value)) return [`${path} must be an integer`];
+        if (options.minimum !== undefined && value < options.minimum) return [`${path} must be at least ${options.minimum} but was ${value}`];
+        if (options.maximum !== undefined && value > options.maximum) return [`${path} must be at most ${options.maximum} but was ${value}`];
+        return [];
+    },
+});
+
+export const boolean = (options: Described = {}): SchemaNode<boolean> => ({
+    isOptional: false,
+    description: options.description,
+    toGemini: () => ({ type: Type.BOOLEAN, ...describe(options.description) }),
+    check: (value, path) => (typeof value === 'boolean' ? [] : [`${path} must be a boolean`]),
+});
+
+export const array = <T>(items: SchemaNode<T>, options: Described & { minItems?: number; maxItems?: number } = {}): SchemaNode<T[]> => ({
+    isOptional: false,
+    description: options.description,
+    toGemini: () => ({
+        type: Type.ARRAY,
+        items: items.toGemini(),
+        ...(options.minItems !== undefined && { minItems: String(options.minItems) }),
+        ...(options.maxItems !== undefined && { maxItems: String(options.maxItems) }),
+        ...describe(options.description),
+    }),
+    check: (value, path) => {
+        if (!Array.isArray(value)) return [`${path} must be an array`];
+        const problems = value.flatMap((item, index) => items.check(item, `${path}[${index}]`));
+        if (options.minItems !== undefined && value.length < options.minItems) problems.push(`${path} must have at least ${options.minItems} items`);
+        if (options.maxItems !== undefined && value.length > options.maxItems) problems.push(`${path} must have at most ${options.maxItems} items`);
+        return problems;
+    },
+});
+
+export const object = <S extends Shape>(shape: S, options: Described = {}): SchemaNode<InferShape<S>> => ({
+    isOptional: false,
+    description: options.description,
+    toGemini: () => ({
+        type: Type.OBJECT,
+        properties: Object.fromEntries(Object.entries(shape).map(([key, node]) => [key, node.toGemini()])),
+        required: Object.keys(shape).filter(key => !shape[key].isOptional),
+        propertyOrdering: Object.keys(shape),
+        ...describe(options.description),
+    }),
+    check: (value, path) => {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) return [`${path} must be an object`];
+        const record = value as Record<string, unknown>;
+        return Object.entries(shape).flatMap(([key, node]) => {
+            if (record[key] === undefined || record[key] === null) {
+                return node.isOptional ? [] : [`${path}.${key} is missing`];
+            }
+            return node.check(record[key], `${path}.${key}`);
+        });
+    },
+});
+
+export const optional = <T>(node: SchemaNode<T>): SchemaNode<T, true> => ({ ...node, isOptional: true });
+
+export const toGeminiSchema = (schema: SchemaNode<unknown, boolean>): Schema => schema.toGemini();
+
+export type ValidationResult<T> = { ok: true; value: T; issues?: never } | { ok: false; value?: never; issues: string[] };
+
+export const validate = <S extends SchemaNode<unknown, boolean>>(schema: S, value: unknown): ValidationResult<Infer<S>> => {
+    const issues = schema.check(value, '$');
+    return issues.length === 0 ? { ok: true, value: value as Infer<S> } : { ok: false, issues };
+};
+
+// Parses raw model output and validates it; a JSON syntax error is reported as an issue.
+export const parseAndValidate = <S extends SchemaNode<unknown, boolean>>(schema: S, text: string): ValidationResult<Infer<S>> => {
+    let value: unknown;
+    try {
+        value = JSON.parse(text);
+    } catch (error) {
+        return { ok: false, issues: [`$ is not valid JSON (${error instanceof Error ? error.message : String(error)})`] };
+    }
+    return validate(schema, value);
+};
@@ -0,0 +1,98 @@
+// A storyboard is an ordered list of shots, each generated as its own video job and joined into
+// one video with optional title cards. The draft is kept in IndexedDB so shots generating in the
+// background are not lost when the user leaves the tab.
+
+import { STORES, getRecord, putRecord } from './db';
+import { blobToBase64 } from './fileUtils';
+import { VideoModel, VideoRequest, VideoResolution } from './providers';
+import { VideoJob, getVideoBlob, startVideoJobs } from './videoJobs';
+import { StitchSegment } from './videoStitch';
+
+export interface StoryboardShot {
+    id: string;
+    prompt: string;
+    durationSeconds: number;
+    // The first frame of the shot.
+    keyframe?: { name: string; blob: Blob };
+    // Shown on a title card before the shot; empty for none.
+    title: string;
+    // The job that generated the shot's current clip.
+    jobId?: string;
+}
+
+export interface Storyboard {
+    id: string;
+    model: string;
+    aspectRatio: VideoRequest['aspectRatio'];
+    resolution: VideoResolution;
+    titleCardSeconds: number;
+    shots: StoryboardShot[];
+    updatedAt: number;
+}
+
+const DRAFT_ID = 'draft';
+
+export const createShot = (durationSeconds: number): StoryboardShot => ({
+    id: crypto.randomUUID(),
+    prompt: '',
+    durationSeconds,
+    title: '',
+});
+
+export const createStoryboard = (model: VideoModel): Storyboard => ({
+    id: DRAFT_ID,
+    model: model.id,
+    aspectRatio: '16:9',
+    resolution: '720p',
+    titleCardSeconds: 2,
+    shots: [createShot(model.durations[model.durations.length - 1])],
+    updatedAt: Date.now(),
+});
+
+export const loadStoryboard = (): Promise<Storyboard | null> => getRecord<Storyboard>(STORES.storyboards, DRAFT_ID);
+
+export const saveStoryboard = (storyboard: Storyboard): Promise<Storyboard> =>
+    putRecord(STORES.storyboards, { ...storyboard, id: DRAFT_ID, updatedAt: Date.now() });
+
+export const moveShot = (shots: StoryboardShot[], index: number, offset: number): StoryboardShot[] => {
+    const target = index + offset;
+    if (target < 0 || target >= shots.length) return shots;
+    const moved = [...shots];
+    [moved[index], moved[target]] = [moved[target], moved[index]];
+    return moved;
+};
+
+// Starts the shot's video job and resolves to its id.
+export const generateShot = async (storyboard: Storyboard, shot: StoryboardShot): Promise<string> => {
+    const [job] = await startVideoJobs({
+        model: storyboard.model,
+        prompt: shot.prompt.trim(),
+        ...(shot.keyframe && { image: { mimeType: shot.keyframe.blob.type, data: await blobToBase64(shot.keyframe.blob) } }),
+        aspectRatio: storyboard.aspectRatio,
+        resolution: storyboard.resolution,
+        durationSeconds: shot.durationSeconds,
+    }, 1, shot.keyframe ? { imageName: shot.keyframe.name } : {});
+    return job.id;
+};
+
+export const frameSize = (resolution: VideoResolution, aspectRatio: VideoRequest['aspectRatio']): { width: number; height: number } => {
+    const [long, short] = resolution === '1080p' ? [1920, 1080] : [1280, 720];
+    return aspectRatio === '16:9' ? { width: long, height: short } : { width: short, height: long };
+};
+
+// The clips and title cards to stitch, in order. Every shot must have a finished clip.
+export const storyboardSegments = async (storyboard: Storyboard, jobs: VideoJob[]): Promise<StitchSegment[]> => {
+    const segments: StitchSegment[] = [];
+    for (const [index, shot] of storyboard.shots.entries()) {
+        const job = jobs.find(j => j.id === shot.jobId && j.status === 'done');
+        const blob = job ? await getVideoBlob(job.id) : null;
+        if (!blob) {
+            throw new Error(`Shot ${index + 1} does not have a finished clip yet.`);
+        }
+        if (shot.title.trim()) {
+            segments.push({ kind: 'title', text: shot.title.trim(), seconds: storyboard.titleCardSeconds });
+        }
+        segments.push({ kind: 'clip', blob });
+    }
+    return segments;
+};
@@ -0,0 +1,36 @@
+import { ModelProvider, TextRequest } from './providers';
+import { ValidationError } from './errors';
+import { withRetry } from './retry';
+import { Infer, parseAndValidate, SchemaNode, toGeminiSchema } from './schema';
+
+const REPAIR_INSTRUCTION = 'You repair JSON documents so that they match a JSON schema. Keep every value that is already valid and change only what is needed to fix the listed problems. You must only respond with a valid JSON object matching the provided schema, without any markdown formatting.';
+
+// Asks the provider for JSON matching `schema` and validates the response. When validation
+// fails, the response and its problems are sent back once with a repair prompt; if the repaired
+// response is still invalid, a ValidationError listing the remaining problems is thrown.
+export const generateStructured = async <S extends SchemaNode<unknown, boolean>>(
+    provider: ModelProvider,
+    request: TextRequest,
+    schema: S
+): Promise<Infer<S>> => {
+    const responseSchema = toGeminiSchema(schema);
+    const text = await withRetry(() => provider.generateJson({ ...request, schema: responseSchema }), { signal: request.signal });
+    const first = parseAndValidate(schema, text);
+    if (first.ok) {
+        return first.value;
+    }
+
+    console.warn("Structured response failed validation, attempting repair:", first.issues);
+    const repairedText = await withRetry(() => provider.generateJson({
+        tier: request.tier,
+        systemInstruction: REPAIR_INSTRUCTION,
+        contents: `Problems:\n${first.issues.map(issue => `- ${issue}`).join('\n')}\n\nJSON:\n${text}`,
+        schema: responseSchema,
+        signal: request.signal,
+    }), { signal: request.signal });
+    const repaired = parseAndValidate(schema, repairedText);
+    if (repaired.ok) {
+        return repaired.value;
+    }
+    throw new ValidationError(repaired.issues);
+};
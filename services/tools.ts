@@ -0,0 +1,124 @@
+import { AnalysisOptions } from '../types';
+import { Capability, hasCapability, ModelProvider } from './providers';
+import { analyzeNewsArticle, generateImage, getAnalysisModel } from './geminiService';
+import { DEFAULT_HISTORY_FILTER, filterAnalyses, latestResult, listAnalyses, saveAnalysis } from './historyStore';
+import { boolean, Infer, number, object, optional, SchemaNode, string } from './schema';
+
+// The app's own features, exposed to the chat model as callable tools. Each tool's parameters
+// are a schema (see schema.ts), which gives the declaration sent to the model, the argument type
+// of `execute` and the check run on the arguments the model actually sends.
+
+export interface ToolOutput {
+    // Returned to the model.
+    response: Record<string, unknown>;
+    // Shown on the tool-call card.
+    summary: string;
+    imageUrl?: string;
+}
+
+export interface ChatTool<S extends SchemaNode<unknown> = SchemaNode<unknown>> {
+    name: string;
+    label: string;
+    description: string;
+    parameters: S;
+    // Expensive tools, such as media generation, only run once the user approves the call. A
+    // function decides per call, for tools that are only expensive with some arguments.
+    requiresConfirmation: boolean | ((args: Infer<S>) => boolean);
+    // The tool is only offered when the active provider supports this.
+    capability?: Capability;
+    execute: (args: Infer<S>) => Promise<ToolOutput>;
+}
+
+const defineTool = <S extends SchemaNode<unknown>>(tool: ChatTool<S>): ChatTool => tool;
+
+const TOOL_ANALYSIS_OPTIONS: Omit<AnalysisOptions, 'checkClaims'> = {
+    useThinkingMode: false,
+    confidenceThreshold: 75,
+    cues: [],
+};
+
+const analyzeArticleTool = defineTool({
+    name: 'analyze_news_article',
+    label: 'Analyze article',
+    description: 'Classifies a news article as real or fake with the Verity Lens detector and explains why. The analysis is saved to the user\'s history.',
+    parameters: object({
+        text: string({ description: 'The full text of the article to analyze.' }),
+        checkClaims: optional(boolean({ description: 'Also fact-check the individual claims with Google Search. Slower.' })),
+    }),
+    // Checking claims runs a grounded search per claim.
+    requiresConfirmation: ({ checkClaims }) => !!checkClaims,
+    capability: 'json',
+    execute: async ({ text, checkClaims }) => {
+        const options: AnalysisOptions = { ...TOOL_ANALYSIS_OPTIONS, checkClaims: !!checkClaims };
+        const result = await analyzeNewsArticle(text, options);
+        saveAnalysis(text, options, getAnalysisModel(), result).catch(e => console.error("Error saving analysis to history:", e));
+        return {
+            response: {
+                classification: result.classification,
+                confidence: result.confidence,
+                explanation: result.explanation,
+                keywords: result.keywords,
+                ...(result.claims && { claims: result.claims.map(({ claim, verdict, explanation }) => ({ claim, verdict, explanation })) }),
+            },
+            summary: `${result.classification} (${result.confidence}% confidence)`,
+        };
+    },
+});
+
+const generateImageTool = defineTool({
+    name: 'generate_image',
+    label: 'Generate image',
+    description: 'Generates an image from a text prompt and shows it to the user.',
+    parameters: object({
+        prompt: string({ description: 'A detailed description of the image.' }),
+        aspectRatio: optional(string({ enum: ['1:1', '16:9', '9:16', '4:3', '3:4'], description: 'Defaults to 1:1.' })),
+    }),
+    requiresConfirmation: true,
+    capability: 'imageGeneration',
+    execute: async ({ prompt, aspectRatio }) => ({
+        response: { status: 'The image was generated and is shown to the user.' },
+        summary: 'Image generated',
+        imageUrl: await generateImage(prompt, aspectRatio ?? '1:1'),
+    }),
+});
+
+const MAX_HISTORY_RESULTS = 10;
+
+const searchHistoryTool = defineTool({
+    name: 'search_analysis_history',
+    label: 'Search history',
+    description: 'Searches the articles the user analyzed earlier in this browser, newest first.',
+    parameters: object({
+        query: optional(string({ description: 'Words to look for in the article text, headline, outlet or explanation.' })),
+        verdict: optional(string({ enum: ['Real', 'Fake', 'Inconclusive'] })),
+        limit: optional(number({ minimum: 1, maximum: MAX_HISTORY_RESULTS, integer: true })),
+    }),
+    requiresConfirmation: false,
+    execute: async ({ query, verdict, limit }) => {
+        const matches = filterAnalyses(await listAnalyses(), {
+            ...DEFAULT_HISTORY_FILTER,
+            search: query ?? '',
+            verdicts: verdict ? [verdict] : [],
+        });
+        const entries = matches.slice(0, limit ?? 5).map(entry => {
+            const result = latestResult(entry);
+            return {
+                analyzedAt: new Date(entry.createdAt).toISOString(),
+                headline: entry.metadata?.headline ?? entry.articleText.slice(0, 100),
+                ...(entry.metadata?.url && { url: entry.metadata.url }),
+                classification: result.classification,
+                confidence: result.confidence,
+                explanation: result.explanation,
+            };
+        });
+        return {
+            response: { totalMatches: matches.length, entries },
+            summary: `${matches.length} matching ${matches.length === 1 ? 'analysis' : 'analyses'}`,
+        };
+    },
+});
+
+export const CHAT_TOOLS: ChatTool[] = [analyzeArticleTool, generateImageTool, searchHistoryTool];
+
+export const availableTools = (provider: ModelProvider): ChatTool[] =>
+    CHAT_TOOLS.filter(tool => !tool.capability || hasCapability(tool.capability, provider));
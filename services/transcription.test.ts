@@ -0,0 +1,106 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { assembleSegments, exportTranscript, mergeOverlap, mergeSegments, planChunks } from './transcription';
+
+const segment = (start: number, end: number, text: string) => ({ start, end, speaker: 'Speaker 1', text, confidence: 0.9 });
+
+test('assembleSegments keeps the marker for a failed middle chunk', () => {
+    const chunks = planChunks(900);
+    assert.equal(chunks.length, 4);
+    const segments = assembleSegments(chunks, [
+        [segment(0, 150, 'first'), segment(150, 300, 'first end')],
+        null,
+        [segment(10, 150, 'third'), segment(150, 300, 'third end')],
+        [segment(10, 30, 'last')],
+    ]);
+
+    const missing = segments.filter(s => s.text.startsWith('[Transcription missing'));
+    assert.equal(missing.length, 1);
+    assert.equal(missing[0].text, '[Transcription missing for 4:50–9:50]');
+    assert.equal(missing[0].start, 295);
+    assert.equal(missing[0].speaker, '');
+    assert.deepEqual(segments.map(s => s.text), ['first', 'first end', '[Transcription missing for 4:50–9:50]', 'third', 'third end', 'last']);
+    for (let i = 1; i < segments.length; i++) {
+        assert.ok(segments[i].start >= segments[i - 1].start);
+    }
+});
+
+test('assembleSegments keeps the marker for a failed first chunk', () => {
+    const chunks = planChunks(400);
+    const segments = assembleSegments(chunks, [null, [segment(10, 20, 'after')]]);
+    assert.deepEqual(segments.map(s => s.text), ['[Transcription missing for 0:00–5:00]', 'after']);
+});
+
+test('planChunks overlaps consecutive chunks and ends the last one at the duration', () => {
+    assert.deepEqual(planChunks(900).map(({ start, end }) => [start, end]), [[0, 300], [290, 590], [580, 880], [870, 900]]);
+    assert.deepEqual(planChunks(120), [{ index: 0, start: 0, end: 120 }]);
+    assert.equal(planChunks(300).length, 1);
+});
+
+test('mergeOverlap drops the words the next chunk repeats', () => {
+    assert.equal(
+        mergeOverlap('the quick brown fox jumps over', 'brown fox jumps over the lazy dog'),
+        'the quick brown fox jumps over the lazy dog'
+    );
+});
+
+test('mergeOverlap matches words regardless of case and punctuation and keeps the original text', () => {
+    assert.equal(
+        mergeOverlap('He said: Hello there, my friend.', 'hello there my friend. How are you?'),
+        'He said: Hello there, my friend. How are you?'
+    );
+});
+
+test('mergeOverlap joins with a space when the overlap is too short to trust', () => {
+    assert.equal(mergeOverlap('one two ', ' two three'), 'one two two three');
+    assert.equal(mergeOverlap('', 'next'), 'next');
+    assert.equal(mergeOverlap('previous', '  '), 'previous');
+});
+
+const spoken = (start: number, end: number, speaker: string, text: string) => ({ start, end, speaker, text, confidence: 0.9 });
+
+test('mergeSegments renames speakers of the next chunk by who they overlap and cuts in the middle of the overlap', () => {
+    const previous = [spoken(0, 280, 'Speaker 1', 'intro'), spoken(280, 300, 'Speaker 2', 'question')];
+    // The next chunk calls the asker Speaker 1 and a new voice Speaker 2.
+    const next = [spoken(290, 296, 'Speaker 1', 'question'), spoken(296, 300, 'Speaker 1', 'continued'), spoken(300, 320, 'Speaker 2', 'answer')];
+    assert.deepEqual(mergeSegments(previous, next, 290, 300).map(s => [s.text, s.speaker]), [
+        ['intro', 'Speaker 1'],
+        ['question', 'Speaker 2'],
+        ['continued', 'Speaker 2'],
+        ['answer', 'Speaker 3'],
+    ]);
+});
+
+test('mergeSegments keeps the label of a speaker who does not collide with a renamed one', () => {
+    const previous = [spoken(280, 300, 'Speaker 1', 'before')];
+    const next = [spoken(296, 300, 'Speaker 1', 'same voice'), spoken(300, 310, 'Speaker 4', 'newcomer')];
+    assert.deepEqual(mergeSegments(previous, next, 290, 300).map(s => s.speaker), ['Speaker 1', 'Speaker 1', 'Speaker 4']);
+});
+
+const cues = [
+    spoken(0, 1.5, 'Speaker 1', 'Hello <world> & co'),
+    spoken(1.5, 3661.25, 'Speaker 1', 'Again'),
+    spoken(3661.25, 3662, '', 'Narration'),
+];
+
+test('exportTranscript writes numbered SRT cues with the speaker before the text', () => {
+    assert.equal(exportTranscript(cues, 'srt'), [
+        '1\n00:00:00,000 --> 00:00:01,500\nSpeaker 1: Hello <world> & co',
+        '2\n00:00:01,500 --> 01:01:01,250\nSpeaker 1: Again',
+        '3\n01:01:01,250 --> 01:01:02,000\nNarration',
+    ].join('\n\n') + '\n');
+});
+
+test('exportTranscript writes WebVTT with escaped text and voice spans', () => {
+    assert.equal(exportTranscript(cues, 'vtt'), [
+        'WEBVTT',
+        '00:00:00.000 --> 00:00:01.500\n<v Speaker 1>Hello &lt;world&gt; &amp; co',
+        '00:00:01.500 --> 01:01:01.250\n<v Speaker 1>Again',
+        '01:01:01.250 --> 01:01:02.000\nNarration',
+    ].join('\n\n') + '\n');
+});
+
+test('exportTranscript joins consecutive segments of a speaker in plain text and round-trips JSON', () => {
+    assert.equal(exportTranscript(cues, 'txt'), 'Speaker 1: Hello <world> & co Again\n\nNarration\n');
+    assert.deepEqual(JSON.parse(exportTranscript(cues, 'json')), { segments: cues });
+});
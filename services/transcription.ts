@@ -0,0 +1,372 @@
+// Transcribes recordings of any length. Long audio is decoded in the browser and cut into
+// overlapping chunks that stay well under the inline request limit; the chunks are transcribed
+// in parallel and the text repeated in each overlap is removed when they are joined. Transcripts
+// can also be timed and split by speaker, and exported as subtitles.
+
+import { TranscriptSegment } from '../types';
+import { transcribeAudio, transcribeAudioSegments } from './geminiService';
+import { ErrorCode, toAppError } from './errors';
+import { blobToBase64, encodedSize } from './fileUtils';
+
+export const CHUNK_SECONDS = 300;
+export const OVERLAP_SECONDS = 10;
+// Mono 16-bit audio at this rate is 32 KB a second, so a chunk is about 10 MB, or 13 MB as base64.
+const SAMPLE_RATE = 16000;
+// Files that fit in one chunk are sent as they are if their base64 encoding is within this size,
+// which leaves room under the request limit of about 20 MB.
+const MAX_INLINE_BYTES = 16 * 1024 * 1024;
+
+export interface AudioChunk {
+    index: number;
+    // Seconds from the start of the recording.
+    start: number;
+    end: number;
+}
+
+export type ChunkStatus = 'pending' | 'running' | 'done' | 'error' | 'cancelled';
+
+export interface ChunkProgress {
+    chunk: AudioChunk;
+    status: ChunkStatus;
+    error?: string;
+    errorCode?: ErrorCode;
+}
+
+export interface TranscribeOptions {
+    concurrency?: number;
+    signal?: AbortSignal;
+    onUpdate?: (progress: ChunkProgress[]) => void;
+}
+
+export interface FileTranscription {
+    text: string;
+    failedChunks: AudioChunk[];
+}
+
+export interface SegmentedTranscription {
+    segments: TranscriptSegment[];
+    failedChunks: AudioChunk[];
+}
+
+// --- Chunking ---
+
+export const planChunks = (duration: number, chunkSeconds = CHUNK_SECONDS, overlapSeconds = OVERLAP_SECONDS): AudioChunk[] => {
+    const chunks: AudioChunk[] = [];
+    const step = chunkSeconds - overlapSeconds;
+    for (let start = 0; ; start += step) {
+        const end = Math.min(duration, start + chunkSeconds);
+        chunks.push({ index: chunks.length, start, end });
+        if (end >= duration) break;
+    }
+    return chunks;
+};
+
+// Decodes and resamples to SAMPLE_RATE. Browsers can decode the audio track of most audio and
+// video files, but the whole recording is held in memory while it is chunked.
+const decodeAudio = async (file: Blob): Promise<AudioBuffer> => {
+    const context = new OfflineAudioContext(1, 1, SAMPLE_RATE);
+    return context.decodeAudioData(await file.arrayBuffer());
+};
+
+// A mono 16-bit PCM WAV of the given span.
+const encodeWav = (buffer: AudioBuffer, start: number, end: number): Blob => {
+    const from = Math.floor(start * buffer.sampleRate);
+    const to = Math.min(buffer.length, Math.ceil(end * buffer.sampleRate));
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+    const samples = new Int16Array(Math.max(0, to - from));
+    for (let i = 0; i < samples.length; i++) {
+        let sum = 0;
+        for (const channel of channels) sum += channel[from + i];
+        const value = Math.max(-1, Math.min(1, sum / channels.length));
+        samples[i] = value < 0 ? value * 0x8000 : value * 0x7fff;
+    }
+
+    const header = new DataView(new ArrayBuffer(44));
+    const writeString = (offset: number, text: string) => {
+        for (let i = 0; i < text.length; i++) header.setUint8(offset + i, text.charCodeAt(i));
+    };
+    writeString(0, 'RIFF');
+    header.setUint32(4, 36 + samples.byteLength, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    header.setUint32(16, 16, true);
+    header.setUint16(20, 1, true);
+    header.setUint16(22, 1, true);
+    header.setUint32(24, buffer.sampleRate, true);
+    header.setUint32(28, buffer.sampleRate * 2, true);
+    header.setUint16(32, 2, true);
+    header.setUint16(34, 16, true);
+    writeString(36, 'data');
+    header.setUint32(40, samples.byteLength, true);
+    return new Blob([header.buffer, samples.buffer], { type: 'audio/wav' });
+};
+
+// The chunks of `file` and a way to load each one as base64 audio.
+const prepareChunks = async (file: Blob): Promise<{ chunks: AudioChunk[]; load: (chunk: AudioChunk) => Promise<{ data: string; mimeType: string }> }> => {
+    let buffer: AudioBuffer;
+    try {
+        buffer = await decodeAudio(file);
+    } catch (error) {
+        // Formats the browser cannot decode can still be sent whole if they are small enough.
+        if (encodedSize(file.size) <= MAX_INLINE_BYTES) {
+            console.warn("Could not decode audio; sending the file as is:", error);
+            return {
+                chunks: [{ index: 0, start: 0, end: 0 }],
+                load: async () => ({ data: await blobToBase64(file), mimeType: file.type || 'audio/webm' }),
+            };
+        }
+        throw new Error("This file is too large to send in one piece, and its audio could not be decoded to split it.", { cause: error });
+    }
+
+    if (buffer.duration <= CHUNK_SECONDS && encodedSize(file.size) <= MAX_INLINE_BYTES && file.type) {
+        return {
+            chunks: [{ index: 0, start: 0, end: buffer.duration }],
+            load: async () => ({ data: await blobToBase64(file), mimeType: file.type }),
+        };
+    }
+    return {
+        chunks: planChunks(buffer.duration),
+        load: async (chunk) => ({ data: await blobToBase64(encodeWav(buffer, chunk.start, chunk.end)), mimeType: 'audio/wav' }),
+    };
+};
+
+// --- Merging ---
+
+const normalizeWord = (word: string): string => word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+
+// How far into each side of a join to look for the overlap, and the shortest run of words
+// accepted as one.
+const OVERLAP_WINDOW_WORDS = 80;
+const MIN_OVERLAP_WORDS = 3;
+
+// Joins two consecutive chunk transcripts, dropping the words the second repeats from the end
+// of the first. The overlap is the longest run of words the two have in common near the join,
+// which tolerates words cut off or misheard at the chunk edges.
+export const mergeOverlap = (previous: string, next: string): string => {
+    if (!previous.trim()) return next;
+    if (!next.trim()) return previous;
+    const tail = [...previous.matchAll(/\S+/g)].slice(-OVERLAP_WINDOW_WORDS);
+    const head = [...next.matchAll(/\S+/g)].slice(0, OVERLAP_WINDOW_WORDS);
+    const a = tail.map(match => normalizeWord(match[0]));
+    const b = head.map(match => normalizeWord(match[0]));
+
+    let best = { length: 0, i: 0, j: 0 };
+    // runs[j] is the length of the common run ending at a[i] and b[j].
+    let runs = new Array<number>(b.length + 1).fill(0);
+    for (let i = 1; i <= a.length; i++) {
+        const current = new Array<number>(b.length + 1).fill(0);
+        for (let j = 1; j <= b.length; j++) {
+            if (a[i - 1] && a[i - 1] === b[j - 1]) {
+                current[j] = runs[j - 1] + 1;
+                if (current[j] > best.length) best = { length: current[j], i, j };
+            }
+        }
+        runs = current;
+    }
+
+    if (best.length < MIN_OVERLAP_WORDS) {
+        return `${previous.trimEnd()} ${next.trimStart()}`;
+    }
+    // Switch from the first transcript to the second halfway through the run, away from the
+    // chunk edges where words are least reliable.
+    const half = Math.floor(best.length / 2);
+    const previousEnd = tail[best.i - best.length + half].index ?? previous.length;
+    const nextStart = head[best.j - best.length + half].index ?? 0;
+    return `${previous.slice(0, previousEnd)}${next.slice(nextStart)}`;
+};
+
+// Joins the timed segments of consecutive chunks, already shifted to recording time. Each chunk
+// numbers its speakers independently, so speakers of `next` are renamed to whoever in `previous`
+// they overlap most in the shared span. Segments are then taken from `previous` up to the middle
+// of the overlap and from `next` after it.
+export const mergeSegments = (previous: TranscriptSegment[], next: TranscriptSegment[], overlapStart: number, overlapEnd: number): TranscriptSegment[] => {
+    const votes = new Map<string, Map<string, number>>();
+    for (const segment of next) {
+        if (segment.start >= overlapEnd) break;
+        for (const other of previous) {
+            const shared = Math.min(segment.end, other.end) - Math.max(segment.start, other.start);
+            if (shared <= 0 || !other.speaker || !segment.speaker) continue;
+            const tally = votes.get(segment.speaker) ?? new Map<string, number>();
+            tally.set(other.speaker, (tally.get(other.speaker) ?? 0) + shared);
+            votes.set(segment.speaker, tally);
+        }
+    }
+    const renames = new Map<string, string>();
+    votes.forEach((tally, speaker) => {
+        const [best] = [...tally.entries()].sort((a, b) => b[1] - a[1]);
+        renames.set(speaker, best[0]);
+    });
+    // A speaker who was not heard in the overlap keeps their label unless another speaker of
+    // `next` was just renamed to it, in which case they get an unused one.
+    const taken = new Set([...previous, ...next].map(segment => segment.speaker));
+    const claimed = new Set(renames.values());
+    for (const { speaker } of next) {
+        if (!speaker || renames.has(speaker) || !claimed.has(speaker)) continue;
+        let n = taken.size + 1;
+        while (taken.has(`Speaker ${n}`)) n++;
+        renames.set(speaker, `Speaker ${n}`);
+        taken.add(`Speaker ${n}`);
+    }
+
+    const cut = (overlapStart + overlapEnd) / 2;
+    return [
+        ...previous.filter(segment => segment.start < cut),
+        ...next
+            .filter(segment => segment.start >= cut)
+            .map(segment => ({ ...segment, speaker: renames.get(segment.speaker) ?? segment.speaker })),
+    ];
+};
+
+// --- Running ---
+
+export const formatTime = (seconds: number): string => {
+    const s = Math.floor(seconds);
+    const h = Math.floor(s / 3600);
+    const m = Math.floor((s % 3600) / 60);
+    const mmss = `${String(m).padStart(h ? 2 : 1, '0')}:${String(s % 60).padStart(2, '0')}`;
+    return h ? `${h}:${mmss}` : mmss;
+};
+
+export const formatChunkRange = (chunk: AudioChunk): string => `${formatTime(chunk.start)}–${formatTime(chunk.end)}`;
+
+// Transcribes each chunk with `transcribe`, leaving null for chunks that fail or are cancelled.
+// The signal is passed on so that cancelling also aborts the requests already running.
+const runChunks = async <T>(
+    file: Blob,
+    transcribe: (data: string, mimeType: string, signal?: AbortSignal) => Promise<T>,
+    { concurrency = 3, signal, onUpdate }: TranscribeOptions
+): Promise<{ chunks: AudioChunk[]; results: (T | null)[] }> => {
+    const { chunks, load } = await prepareChunks(file);
+    const progress: ChunkProgress[] = chunks.map(chunk => ({ chunk, status: 'pending' }));
+    const results: (T | null)[] = chunks.map(() => null);
+    const update = (index: number, changes: Partial<ChunkProgress>) => {
+        progress[index] = { ...progress[index], ...changes };
+        onUpdate?.([...progress]);
+    };
+    onUpdate?.([...progress]);
+
+    let next = 0;
+    const worker = async () => {
+        while (next < chunks.length) {
+            const index = next++;
+            if (signal?.aborted) {
+                update(index, { status: 'cancelled' });
+                continue;
+            }
+            update(index, { status: 'running' });
+            try {
+                const { data, mimeType } = await load(chunks[index]);
+                results[index] = await transcribe(data, mimeType, signal);
+                update(index, { status: 'done' });
+            } catch (e) {
+                const error = toAppError(e, "Failed to transcribe this part of the audio.");
+                const cancelled = error.code === 'cancelled' || !!signal?.aborted;
+                update(index, { status: cancelled ? 'cancelled' : 'error', error: error.message, errorCode: error.code });
+            }
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker));
+    return { chunks, results };
+};
+
+const missingText = (chunk: AudioChunk): string => `[Transcription missing for ${formatChunkRange(chunk)}]`;
+
+// Chunks that fail are left out of the text with a marker and reported in `failedChunks`.
+export const transcribeFile = async (file: Blob, options: TranscribeOptions = {}): Promise<FileTranscription> => {
+    const { chunks, results } = await runChunks(file, transcribeAudio, options);
+    let text = '';
+    chunks.forEach((chunk, index) => {
+        const chunkText = results[index];
+        text = chunkText === null
+            ? `${text.trimEnd()}\n\n${missingText(chunk)}\n\n`
+            : mergeOverlap(text, chunkText.trim());
+    });
+    return {
+        text: text.trim(),
+        failedChunks: chunks.filter((_, index) => results[index] === null),
+    };
+};
+
+// Joins the segments transcribed for each chunk, shifted to recording time. A failed chunk
+// (null) becomes a single segment with no speaker covering the part of its span that no
+// neighbouring chunk supplies, so the gap stays marked after merging.
+export const assembleSegments = (chunks: AudioChunk[], results: (TranscriptSegment[] | null)[]): TranscriptSegment[] => {
+    let segments: TranscriptSegment[] = [];
+    chunks.forEach((chunk, index) => {
+        const previous = chunks[index - 1];
+        const start = previous ? Math.max(chunk.start, (chunk.start + previous.end) / 2) : chunk.start;
+        const chunkSegments = results[index]
+            ?.map(segment => ({ ...segment, start: segment.start + chunk.start, end: segment.end + chunk.start }))
+            ?? [{ start, end: chunk.end, speaker: '', text: missingText(chunk), confidence: 0 }];
+        segments = previous
+            ? mergeSegments(segments, chunkSegments, chunk.start, previous.end)
+            : chunkSegments;
+    });
+    return segments;
+};
+
+// As transcribeFile, with segment times in recording time.
+export const transcribeFileSegments = async (file: Blob, options: TranscribeOptions = {}): Promise<SegmentedTranscription> => {
+    const { chunks, results } = await runChunks(file, transcribeAudioSegments, options);
+    return {
+        segments: assembleSegments(chunks, results),
+        failedChunks: chunks.filter((_, index) => results[index] === null),
+    };
+};
+
+// --- Export ---
+
+export type TranscriptFormat = 'srt' | 'vtt' | 'json' | 'txt';
+
+export const TRANSCRIPT_FORMATS: Record<TranscriptFormat, { label: string; mimeType: string }> = {
+    srt: { label: 'SRT subtitles', mimeType: 'application/x-subrip' },
+    vtt: { label: 'WebVTT subtitles', mimeType: 'text/vtt' },
+    json: { label: 'JSON', mimeType: 'application/json' },
+    txt: { label: 'Plain text', mimeType: 'text/plain' },
+};
+
+// HH:MM:SS plus milliseconds after `separator`, as subtitle cues are timed.
+const formatCueTime = (seconds: number, separator: string): string => {
+    const ms = Math.round(Math.max(0, seconds) * 1000);
+    const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+    return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+const escapeVtt = (text: string): string => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const toSrt = (segments: TranscriptSegment[]): string =>
+    segments.map((segment, index) => [
+        String(index + 1),
+        `${formatCueTime(segment.start, ',')} --> ${formatCueTime(segment.end, ',')}`,
+        segment.speaker ? `${segment.speaker}: ${segment.text}` : segment.text,
+    ].join('\n')).join('\n\n') + '\n';
+
+// Speakers are written as voice spans, which players can show or style.
+const toVtt = (segments: TranscriptSegment[]): string =>
+    ['WEBVTT', ...segments.map(segment => [
+        `${formatCueTime(segment.start, '.')} --> ${formatCueTime(segment.end, '.')}`,
+        segment.speaker ? `<v ${escapeVtt(segment.speaker)}>${escapeVtt(segment.text)}` : escapeVtt(segment.text),
+    ].join('\n'))].join('\n\n') + '\n';
+
+// Consecutive segments of the same speaker are joined into one paragraph.
+const toPlainText = (segments: TranscriptSegment[]): string => {
+    const paragraphs: { speaker: string; text: string }[] = [];
+    for (const segment of segments) {
+        const last = paragraphs[paragraphs.length - 1];
+        if (last && last.speaker === segment.speaker) {
+            last.text += ` ${segment.text}`;
+        } else {
+            paragraphs.push({ speaker: segment.speaker, text: segment.text });
+        }
+    }
+    return paragraphs.map(p => (p.speaker ? `${p.speaker}: ${p.text}` : p.text)).join('\n\n') + '\n';
+};
+
+export const exportTranscript = (segments: TranscriptSegment[], format: TranscriptFormat): string => {
+    switch (format) {
+        case 'srt': return toSrt(segments);
+        case 'vtt': return toVtt(segments);
+        case 'json': return JSON.stringify({ segments }, null, 2);
+        case 'txt': return toPlainText(segments);
+    }
+};
@@ -0,0 +1,221 @@
+// Video generation jobs that outlive the component that started them. Veo runs as a
+// long-running operation; its name is stored in IndexedDB so polling can resume after the tab
+// is switched or the page reloaded, and finished videos are stored there too.
+
+import { ErrorCode, toAppError } from './errors';
+import { STORES, deleteRecord, getAllRecords, getRecord, putRecord } from './db';
+import { checkVideoGeneration, downloadGeneratedVideo, startVideoGeneration } from './geminiService';
+import { VideoRequest, getProvider } from './providers';
+import { sleep } from './retry';
+
+export type VideoJobStatus = 'running' | 'downloading' | 'done' | 'failed' | 'cancelled';
+
+// What a job was made from, shown in the queue.
+export interface VideoJobSource {
+    imageName?: string;
+    lastFrameName?: string;
+    // The job and variation whose video this one continues.
+    extends?: { jobId: string; index: number };
+}
+
+export interface VideoJob extends VideoJobSource {
+    id: string;
+    operationName: string;
+    model: string;
+    prompt: string;
+    negativePrompt?: string;
+    aspectRatio: VideoRequest['aspectRatio'];
+    resolution: VideoRequest['resolution'];
+    durationSeconds?: number;
+    numberOfVideos: number;
+    status: VideoJobStatus;
+    createdAt: number;
+    finishedAt?: number;
+    // Status checks made so far.
+    checks: number;
+    // Set once the operation is done, so an interrupted download does not poll again. Also
+    // needed to extend a video later.
+    videoUris?: string[];
+    // Variations the safety filters removed; the rest are still downloaded.
+    filteredCount?: number;
+    error?: string;
+    errorCode?: ErrorCode;
+}
+
+// Keyed by job id and variation index.
+interface StoredVideo {
+    id: string;
+    blob: Blob;
+}
+
+const storedVideoId = (jobId: string, index: number) => `${jobId}:${index}`;
+
+const POLL_INTERVAL_MS = 10000;
+
+// Jobs polled by this page, so that each is polled once and can be cancelled.
+const activeJobs = new Map<string, AbortController>();
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+const saveJob = async (job: VideoJob): Promise<VideoJob> => {
+    await putRecord(STORES.videoJobs, job);
+    notify();
+    return job;
+};
+
+// Writes to an existing job are queued per id, so that one finishing poll and a cancel or delete
+// arriving at the same time cannot overwrite each other with a stale copy.
+const jobWrites = new Map<string, Promise<unknown>>();
+
+const queueJobWrite = <T>(id: string, write: () => Promise<T>): Promise<T> => {
+    const queued = (jobWrites.get(id) ?? Promise.resolve()).then(write, write);
+    jobWrites.set(id, queued);
+    const cleanup = () => {
+        if (jobWrites.get(id) === queued) jobWrites.delete(id);
+    };
+    queued.then(cleanup, cleanup);
+    return queued;
+};
+
+// Saves `change` applied to the stored job. Nothing is written if the job was removed or
+// cancelled in the meantime, or if `change` returns null; the result is then null.
+const updateJob = (id: string, change: (job: VideoJob) => VideoJob | null): Promise<VideoJob | null> =>
+    queueJobWrite(id, async () => {
+        const job = await getRecord<VideoJob>(STORES.videoJobs, id);
+        if (!job || job.status === 'cancelled') return null;
+        const changed = change(job);
+        return changed ? saveJob(changed) : null;
+    });
+
+// Called whenever a job is added, changes or is removed.
+export const subscribeToVideoJobs = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+export const listVideoJobs = async (): Promise<VideoJob[]> => {
+    const jobs = await getAllRecords<VideoJob>(STORES.videoJobs);
+    return jobs.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getVideoBlob = async (jobId: string, index = 0): Promise<Blob | null> =>
+    (await getRecord<StoredVideo>(STORES.videos, storedVideoId(jobId, index)))?.blob ?? null;
+
+const trackJob = async (job: VideoJob): Promise<void> => {
+    if (activeJobs.has(job.id)) return;
+    const controller = new AbortController();
+    activeJobs.set(job.id, controller);
+    try {
+        let videoUris = job.videoUris;
+        let filteredCount = job.filteredCount;
+        while (!videoUris) {
+            const status = await checkVideoGeneration(job.operationName);
+            if (controller.signal.aborted) return;
+            const checked = await updateJob(job.id, current => ({ ...current, checks: current.checks + 1 }));
+            if (!checked) return;
+            job = checked;
+            if (status.state === 'done') {
+                videoUris = status.videoUris;
+                filteredCount = status.filteredCount;
+            } else {
+                await sleep(POLL_INTERVAL_MS, controller.signal);
+            }
+        }
+        const downloading = await updateJob(job.id, current => ({ ...current, status: 'downloading', videoUris, filteredCount }));
+        if (!downloading) return;
+        job = downloading;
+        for (const [index, uri] of videoUris.entries()) {
+            const blob = await downloadGeneratedVideo(uri);
+            if (controller.signal.aborted) return;
+            await putRecord<StoredVideo>(STORES.videos, { id: storedVideoId(job.id, index), blob });
+        }
+        await updateJob(job.id, current => ({ ...current, status: 'done', finishedAt: Date.now() }));
+    } catch (error) {
+        if (controller.signal.aborted) return;
+        const appError = toAppError(error, "Video generation failed.");
+        await updateJob(job.id, current => ({ ...current, status: 'failed', finishedAt: Date.now(), error: appError.message, errorCode: appError.code }));
+    } finally {
+        if (activeJobs.get(job.id) === controller) {
+            activeJobs.delete(job.id);
+        }
+    }
+};
+
+// Starts the operations and resolves once they are recorded; videos are fetched in the
+// background. Variations beyond what the model makes per request are split over several jobs.
+export const startVideoJobs = async (
+    request: Omit<VideoRequest, 'numberOfVideos'>,
+    variations: number,
+    source: VideoJobSource
+): Promise<VideoJob[]> => {
+    const maxVideos = getProvider().videoModels.find(model => model.id === request.model)?.maxVideos ?? 1;
+    const jobs: VideoJob[] = [];
+    for (let remaining = variations; remaining > 0; remaining -= maxVideos) {
+        const numberOfVideos = Math.min(remaining, maxVideos);
+        const operationName = await startVideoGeneration({ ...request, numberOfVideos });
+        const job = await saveJob({
+            id: crypto.randomUUID(),
+            operationName,
+            model: request.model,
+            prompt: request.prompt,
+            ...(request.negativePrompt && { negativePrompt: request.negativePrompt }),
+            aspectRatio: request.aspectRatio,
+            resolution: request.resolution,
+            ...(request.durationSeconds && { durationSeconds: request.durationSeconds }),
+            numberOfVideos,
+            ...source,
+            status: 'running',
+            createdAt: Date.now(),
+            checks: 0,
+        });
+        void trackJob(job);
+        jobs.push(job);
+    }
+    return jobs;
+};
+
+// Picks up unfinished jobs from earlier sessions. Safe to call more than once.
+export const resumeVideoJobs = async (): Promise<void> => {
+    const jobs = await listVideoJobs();
+    for (const job of jobs) {
+        if (job.status === 'running' || job.status === 'downloading') {
+            void trackJob(job);
+        }
+    }
+};
+
+// Polls a failed job again, e.g. after a network error or once a valid API key is selected.
+export const retryVideoJob = async (id: string): Promise<void> => {
+    const job = await updateJob(id, current => {
+        if (current.status !== 'failed') return null;
+        const { error, errorCode, finishedAt, ...rest } = current;
+        return { ...rest, status: current.videoUris ? 'downloading' : 'running' };
+    });
+    if (job) void trackJob(job);
+};
+
+// The API cannot cancel a Veo operation, so this stops polling and discards the result; the
+// generation may still be billed.
+export const cancelVideoJob = async (id: string): Promise<void> => {
+    activeJobs.get(id)?.abort();
+    activeJobs.delete(id);
+    await updateJob(id, job =>
+        job.status === 'running' || job.status === 'downloading' ? { ...job, status: 'cancelled', finishedAt: Date.now() } : null
+    );
+};
+
+export const deleteVideoJob = async (id: string): Promise<void> => {
+    activeJobs.get(id)?.abort();
+    activeJobs.delete(id);
+    await queueJobWrite(id, async () => {
+        const job = await getRecord<VideoJob>(STORES.videoJobs, id);
+        for (let index = 0; index < (job?.numberOfVideos ?? 0); index++) {
+            await deleteRecord(STORES.videos, storedVideoId(id, index));
+        }
+        await deleteRecord(STORES.videoJobs, id);
+    });
+    notify();
+};
@@ -0,0 +1,180 @@
+// Joins clips and title cards into one video in the browser. There is no encoder to call, so the
+// sequence is played onto a canvas and recorded with MediaRecorder, which takes as long as the
+// video itself and needs the page to stay visible while it runs.
+
+import { CancelledError } from './errors';
+
+export type StitchSegment =
+    | { kind: 'title'; text: string; seconds: number }
+    | { kind: 'clip'; blob: Blob };
+
+export interface StitchOptions {
+    width: number;
+    height: number;
+    signal?: AbortSignal;
+    // Called with the index of the segment being recorded.
+    onProgress?: (segment: number) => void;
+}
+
+const FRAME_RATE = 30;
+
+// MP4 where the browser can record it, otherwise WebM.
+const RECORDING_TYPES = ['video/mp4;codecs=avc1,mp4a', 'video/mp4', 'video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+export const stitchedFileExtension = (blob: Blob): string => blob.type.startsWith('video/mp4') ? 'mp4' : 'webm';
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+    const lines: string[] = [];
+    for (const paragraph of text.split('\n')) {
+        let line = '';
+        for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+            const candidate = line ? `${line} ${word}` : word;
+            if (line && ctx.measureText(candidate).width > maxWidth) {
+                lines.push(line);
+                line = word;
+            } else {
+                line = candidate;
+            }
+        }
+        lines.push(line);
+    }
+    return lines;
+};
+
+const drawTitle = (ctx: CanvasRenderingContext2D, text: string, width: number, height: number) => {
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, width, height);
+    const fontSize = Math.round(Math.min(width, height) / 12);
+    ctx.font = `bold ${fontSize}px sans-serif`;
+    ctx.fillStyle = '#fff';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    const lines = wrapText(ctx, text, width * 0.8);
+    const lineHeight = fontSize * 1.3;
+    lines.forEach((line, i) => {
+        ctx.fillText(line, width / 2, height / 2 + (i - (lines.length - 1) / 2) * lineHeight);
+    });
+};
+
+// Letterboxes the frame so clips of another aspect ratio are not stretched.
+const drawFrame = (ctx: CanvasRenderingContext2D, video: HTMLVideoElement, width: number, height: number) => {
+    const scale = Math.min(width / video.videoWidth, height / video.videoHeight);
+    const w = video.videoWidth * scale;
+    const h = video.videoHeight * scale;
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, width, height);
+    ctx.drawImage(video, (width - w) / 2, (height - h) / 2, w, h);
+};
+
+// Resolves after `seconds`, redrawing every animation frame so the recording keeps getting frames.
+const holdFrame = (draw: () => void, seconds: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        const end = performance.now() + seconds * 1000;
+        const tick = () => {
+            if (signal?.aborted) {
+                reject(new CancelledError());
+                return;
+            }
+            draw();
+            if (performance.now() >= end) {
+                resolve();
+            } else {
+                requestAnimationFrame(tick);
+            }
+        };
+        tick();
+    });
+
+const playClip = (
+    blob: Blob,
+    ctx: CanvasRenderingContext2D,
+    audioContext: AudioContext,
+    audioOut: MediaStreamAudioDestinationNode,
+    signal?: AbortSignal
+): Promise<void> =>
+    new Promise((resolve, reject) => {
+        const url = URL.createObjectURL(blob);
+        const video = document.createElement('video');
+        video.src = url;
+        video.playsInline = true;
+        const source = audioContext.createMediaElementSource(video);
+        source.connect(audioOut);
+
+        let frame = 0;
+        const finish = (error?: Error) => {
+            cancelAnimationFrame(frame);
+            video.pause();
+            source.disconnect();
+            URL.revokeObjectURL(url);
+            signal?.removeEventListener('abort', onAbort);
+            if (error) {
+                reject(error);
+            } else {
+                resolve();
+            }
+        };
+        const onAbort = () => finish(new CancelledError());
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        const draw = () => {
+            if (video.videoWidth > 0) drawFrame(ctx, video, ctx.canvas.width, ctx.canvas.height);
+            frame = requestAnimationFrame(draw);
+        };
+        video.onended = () => {
+            drawFrame(ctx, video, ctx.canvas.width, ctx.canvas.height);
+            finish();
+        };
+        video.onerror = () => finish(new Error("A clip could not be played."));
+        video.play().then(draw, (error) => finish(error instanceof Error ? error : new Error(String(error))));
+    });
+
+export const stitchVideos = async (segments: StitchSegment[], { width, height, signal, onProgress }: StitchOptions): Promise<Blob> => {
+    if (typeof MediaRecorder === 'undefined') {
+        throw new Error("Recording video is not supported by your browser.");
+    }
+    const mimeType = RECORDING_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    if (!mimeType) {
+        throw new Error("Your browser cannot record video in a supported format.");
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas is not supported in this browser.");
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, width, height);
+
+    const audioContext = new AudioContext();
+    const audioOut = audioContext.createMediaStreamDestination();
+    const stream = new MediaStream([...canvas.captureStream(FRAME_RATE).getVideoTracks(), ...audioOut.stream.getAudioTracks()]);
+    const recorder = new MediaRecorder(stream, { mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunks.push(e.data);
+    };
+    const stopped = new Promise<void>(resolve => {
+        recorder.onstop = () => resolve();
+    });
+
+    try {
+        await audioContext.resume();
+        recorder.start(1000);
+        for (const [index, segment] of segments.entries()) {
+            onProgress?.(index);
+            if (segment.kind === 'title') {
+                await holdFrame(() => drawTitle(ctx, segment.text, width, height), segment.seconds, signal);
+            } else {
+                await playClip(segment.blob, ctx, audioContext, audioOut, signal);
+            }
+        }
+    } finally {
+        if (recorder.state !== 'inactive') {
+            recorder.stop();
+            await stopped;
+        }
+        stream.getTracks().forEach(track => track.stop());
+        await audioContext.close();
+    }
+    return new Blob(chunks, { type: mimeType.split(';')[0] });
+};
@@ -1,8 +1,102 @@
+export type Classification = 'Real' | 'Fake' | 'Inconclusive';
+
+export type LinguisticCue = 'emotionalLanguage' | 'sourceCiting' | 'biasDetection' | 'factuality';
+
+export interface AnalysisOptions {
+    useThinkingMode: boolean;
+    // Verdicts with a confidence below this value (0-100) are reported as 'Inconclusive'.
+    confidenceThreshold: number;
+    cues: LinguisticCue[];
+    // Splits the text into individual claims and fact-checks each one with Google Search.
+    checkClaims: boolean;
+}
+
+export interface ArticleMetadata {
+    url: string;
+    headline: string | null;
+    byline: string | null;
+    publishedAt: string | null;
+    outlet: string | null;
+}
+
+export interface ExtractedArticle {
+    metadata: ArticleMetadata;
+    text: string;
+}
+
+export interface CueAnalysis {
+    cue: LinguisticCue;
+    score: number;
+    findings: string[];
+}
+
 export interface AnalysisResult {
-    classification: 'Real' | 'Fake';
+    classification: Classification;
     confidence: number;
     explanation: string;
     keywords: string[];
+    cueAnalyses?: CueAnalysis[];
+    claims?: ClaimCheck[];
+    // Only set for posts analyzed from a screenshot.
+    visualRedFlags?: VisualRedFlag[];
+}
+
+export type RedFlagSeverity = 'low' | 'medium' | 'high';
+
+// A sign that a screenshot was edited or fabricated, such as mismatched fonts or misaligned UI.
+export interface VisualRedFlag {
+    issue: string;
+    severity: RedFlagSeverity;
+}
+
+export interface PostEngagement {
+    likes?: number;
+    shares?: number;
+    replies?: number;
+    views?: number;
+}
+
+// A social media post as read from a screenshot. The user can correct every field before the
+// post is analyzed.
+export interface ScreenshotPost {
+    text: string;
+    platform: string | null;
+    authorName: string | null;
+    authorHandle: string | null;
+    // As shown in the screenshot, e.g. "3:42 PM · Mar 5, 2024" or "2h".
+    postedAt: string | null;
+    engagement: PostEngagement;
+    visualRedFlags: VisualRedFlag[];
+}
+
+// The model's judgement of whether an image is a genuine, unaltered photo.
+export interface ImageAuthenticityAssessment {
+    // 0-100 likelihoods.
+    aiGeneratedLikelihood: number;
+    manipulationLikelihood: number;
+    indicators: string[];
+    explanation: string;
+}
+
+export type ClaimVerdict = 'True' | 'False' | 'Misleading' | 'Unverifiable';
+
+export interface ClaimCheck {
+    claim: string;
+    // Exact quote from the article the claim was extracted from.
+    quote: string;
+    // Character offsets of `quote` in the article text, or null if it could not be located.
+    span: { start: number; end: number } | null;
+    verdict: ClaimVerdict;
+    confidence: number;
+    explanation: string;
+    supportingSources: GroundingSource[];
+    contradictingSources: GroundingSource[];
+}
+
+export interface BatchItem {
+    id: string;
+    text: string;
+    url?: string;
 }
 
 export interface GroundingSource {
@@ -11,9 +105,104 @@ export interface GroundingSource {
     type: 'web' | 'maps';
 }
 
+// A passage of a grounded answer and the sources that back it up. `start` and `end` are
+// character offsets into the answer text; `sourceIndices` point into its `sources` list.
+export interface GroundingCitation {
+    start: number;
+    end: number;
+    sourceIndices: number[];
+}
+
+export interface WebContext {
+    text: string;
+    sources: GroundingSource[];
+    citations?: GroundingCitation[];
+}
+
+export interface AnalysisRun {
+    model: string;
+    result: AnalysisResult;
+    createdAt: number;
+}
+
+export interface AnalysisHistoryEntry {
+    id: string;
+    createdAt: number;
+    articleText: string;
+    metadata?: ArticleMetadata;
+    options: AnalysisOptions;
+    model: string;
+    result: AnalysisResult;
+    webContext: WebContext | null;
+    // Later re-analyses of the same text, oldest first.
+    reruns: AnalysisRun[];
+}
+
+// A file sent along with a chat message. `data` is the base64-encoded content.
+export interface ChatAttachment {
+    id: string;
+    name: string;
+    mimeType: string;
+    size: number;
+    data: string;
+}
+
+export type ToolCallStatus = 'running' | 'awaitingConfirmation' | 'done' | 'denied' | 'error';
+
+// A tool the chat model called while answering, as shown on its tool-call card.
+export interface ChatToolCall {
+    id: string;
+    name: string;
+    args: Record<string, unknown>;
+    status: ToolCallStatus;
+    // One-line description of the result.
+    summary?: string;
+    imageUrl?: string;
+    error?: string;
+}
+
 export interface ChatMessage {
     id: number;
     text: string;
     sender: 'user' | 'bot';
+    // Kept with the message so that follow-up questions can still refer to the files.
+    attachments?: ChatAttachment[];
     sources?: GroundingSource[];
+    // Only set for grounded answers; sentences outside every citation are flagged as unsupported.
+    citations?: GroundingCitation[];
+    toolCalls?: ChatToolCall[];
+    // Thought summaries streamed in thinking mode.
+    reasoning?: string;
+    // Error notices are shown in the thread but not sent back to the model.
+    isError?: boolean;
+}
+
+export interface ConversationOptions {
+    useSearch: boolean;
+    useMaps: boolean;
+    useThinkingMode: boolean;
+    // Lets the model call the in-app tools; not available together with Search or Maps.
+    useTools: boolean;
+    location?: { latitude: number; longitude: number };
+}
+
+export interface ChatThread {
+    id: string;
+    title: string;
+    createdAt: number;
+    updatedAt: number;
+    pinned: boolean;
+    messages: ChatMessage[];
+    // The mode toggles last used in the thread; the user's location is never stored.
+    options: Omit<ConversationOptions, 'location'>;
+}
+
+export interface TranscriptSegment {
+    // Seconds from the start of the recording.
+    start: number;
+    end: number;
+    speaker: string;
+    text: string;
+    // The model's own estimate, from 0 to 1.
+    confidence: number;
 }
\ No newline at end of file
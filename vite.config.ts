@@ -12,7 +12,15 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.ARTICLE_PROXY_URL': JSON.stringify(env.ARTICLE_PROXY_URL),
+        'process.env.MODEL_PROVIDER': JSON.stringify(env.MODEL_PROVIDER),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL),
+        'process.env.OPENAI_API_KEY': JSON.stringify(env.OPENAI_API_KEY),
+        'process.env.OPENAI_MODEL': JSON.stringify(env.OPENAI_MODEL),
+        'process.env.OPENAI_IMAGE_MODEL': JSON.stringify(env.OPENAI_IMAGE_MODEL),
+        'process.env.OPENAI_TRANSCRIPTION_MODEL': JSON.stringify(env.OPENAI_TRANSCRIPTION_MODEL),
+        'process.env.OPENAI_CAPABILITIES': JSON.stringify(env.OPENAI_CAPABILITIES)
       },
       resolve: {
         alias: {